@@ -0,0 +1,91 @@
+"""Writes the fixtures the frontend tests use to check that on-device diagnosis matches the server.
+
+Usage (from backend/): python scripts/generate_parity_fixtures.py
+
+- pillow_resize.json: checksums of Pillow's default (bicubic) resize to 224x224 for noise images of several sizes.
+  The images come from a small LCG that the frontend test reproduces, so no image files are committed.
+- ranking.json: model outputs with and without a crop hint, and how rank_predictions in server.py ranks them.
+
+Run it again after changing the preprocessing or the ranking in server.py; tests/test_parity_fixtures.py fails
+until the fixtures are regenerated. Importing server.py needs the same environment as running it.
+"""
+import hashlib
+import json
+import os
+import sys
+
+import numpy as np
+from PIL import Image
+
+BACKEND_DIR = os.path.dirname(os.path.dirname(os.path.abspath(__file__)))
+FIXTURES_DIR = os.path.join(BACKEND_DIR, "..", "frontend", "tests", "fixtures")
+
+# Source image sizes: downscaling on both axes, upscaling, one axis already at 224, and no resize at all.
+RESIZE_CASES = [(300, 200), (640, 480), (100, 150), (224, 300), (500, 224), (224, 224)]
+RANKING_SEED = 22
+RANKING_CROPS = [None, None, None, "Tomato", "Apple", "Potato", "Corn_(maize)", "Grape"]
+TOP_K = 3
+
+
+def noise_image(width: int, height: int, seed: int) -> np.ndarray:
+    """RGB noise from the LCG state = (state * 1103515245 + 12345) mod 2^31, taking bits 16-23 of each state."""
+    values = np.empty(width * height * 3, dtype=np.uint8)
+    state = seed
+    for i in range(values.size):
+        state = (state * 1103515245 + 12345) & 0x7FFFFFFF
+        values[i] = (state >> 16) & 0xFF
+    return values.reshape(height, width, 3)
+
+
+def resize_fixtures() -> list:
+    cases = []
+    for seed, (width, height) in enumerate(RESIZE_CASES, start=1):
+        resized = np.asarray(Image.fromarray(noise_image(width, height, seed)).resize((224, 224)), dtype=np.uint8)
+        cases.append({
+            "width": width,
+            "height": height,
+            "seed": seed,
+            "sha256": hashlib.sha256(resized.tobytes()).hexdigest(),
+            # Per-channel sums, so a mismatch shows how far off the resampler is rather than just that it is.
+            "channel_sums": resized.reshape(-1, 3).sum(axis=0, dtype=np.int64).tolist(),
+        })
+    return cases
+
+
+def ranking_fixtures() -> list:
+    os.chdir(BACKEND_DIR)
+    sys.path.insert(0, BACKEND_DIR)
+    os.environ.setdefault("GOOGLE_API_KEY", "unused")
+    import server
+
+    class_names = server.get_class_names()
+    rng = np.random.default_rng(RANKING_SEED)
+    cases = []
+    for crop in RANKING_CROPS:
+        logits = rng.normal(0, 3, len(class_names))
+        probs = (np.exp(logits) / np.exp(logits).sum()).astype(np.float32)
+        candidates = [i for i in range(len(class_names)) if not crop or class_names[str(i)].split("___")[0] == crop]
+        ranked = server.rank_predictions(probs, candidates)
+        overall = int(np.argmax(probs))
+        cases.append({
+            "crop": crop,
+            "probabilities": [float(p) for p in probs],
+            "top_predictions": [[class_names[str(index)], score] for index, score in ranked[:TOP_K]],
+            "unconstrained_prediction": (
+                [class_names[str(overall)], float(probs[overall] * 100)] if crop and overall != ranked[0][0] else None
+            ),
+        })
+    return cases
+
+
+def write(name: str, cases: list):
+    """One case per line, so a regenerated fixture diffs by case."""
+    with open(os.path.join(FIXTURES_DIR, name), "w", encoding="utf-8") as f:
+        f.write("[\n" + ",\n".join(json.dumps(case) for case in cases) + "\n]\n")
+
+
+if __name__ == "__main__":
+    os.makedirs(FIXTURES_DIR, exist_ok=True)
+    write("pillow_resize.json", resize_fixtures())
+    write("ranking.json", ranking_fixtures())
+    print(f"Fixtures written to {os.path.normpath(FIXTURES_DIR)}")
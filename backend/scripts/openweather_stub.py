@@ -0,0 +1,94 @@
+"""A local stand-in for the two OpenWeather APIs the backend proxies, for development and tests without a key.
+
+Usage (from backend/): python scripts/openweather_stub.py [port]   (defaults to 8081)
+
+Then start the server with:
+    OPEN_WEATHER_API_KEY=stub
+    OPEN_WEATHER_BASE_URL=http://127.0.0.1:8081/data/2.5
+    OPEN_WEATHER_GEO_URL=http://127.0.0.1:8081/geo/1.0
+
+The forecast is deterministic for a given start time: 40 three-hour slots with a daily temperature cycle, rain
+on the second day and a windy third day, so the risk and spray advice panels have something to show.
+"""
+import json
+import math
+import sys
+import time
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from urllib.parse import parse_qs, urlparse
+
+SLOT_SECONDS = 3 * 3600
+SLOTS = 40
+PLACES = [
+    {"name": "Guntur", "state": "Andhra Pradesh", "country": "IN", "lat": 16.3067, "lon": 80.4365},
+    {"name": "Coimbatore", "state": "Tamil Nadu", "country": "IN", "lat": 11.0168, "lon": 76.9558},
+    {"name": "Nashik", "state": "Maharashtra", "country": "IN", "lat": 19.9975, "lon": 73.7898},
+]
+
+
+def forecast_payload(lat: float, lon: float, now: float) -> dict:
+    """OpenWeather's 5-day / 3-hour `forecast` response, in metric units."""
+    start = int(now // SLOT_SECONDS) * SLOT_SECONDS
+    slots = []
+    for i in range(SLOTS):
+        dt = start + i * SLOT_SECONDS
+        hour = (dt % 86400) / 3600
+        day = i // 8
+        temp = round(24 + 6 * math.sin((hour - 9) / 24 * 2 * math.pi), 1)
+        rain = 2.5 if day == 1 and 12 <= hour < 21 else 0
+        wind = 9.0 if day == 2 else 2.5
+        slot = {
+            "dt": dt,
+            "main": {"temp": temp, "humidity": 90 if rain else 65},
+            "weather": [{"description": "light rain" if rain else "clear sky", "icon": "10d" if rain else "01d"}],
+            "wind": {"speed": wind, "gust": wind * 1.5},
+            "pop": 0.8 if rain else 0.05,
+        }
+        if rain:
+            slot["rain"] = {"3h": rain}
+        slots.append(slot)
+    return {"cod": "200", "cnt": SLOTS, "list": slots, "city": {"name": "Stub Farm", "coord": {"lat": lat, "lon": lon}}}
+
+
+def geocode_payload(query: str, limit: int) -> list:
+    """OpenWeather's `direct` geocoding response: the known places whose name starts with the query."""
+    name = query.split(",")[0].strip().lower()
+    return [place for place in PLACES if place["name"].lower().startswith(name)][:limit]
+
+
+class StubHandler(BaseHTTPRequestHandler):
+    def do_GET(self):
+        url = urlparse(self.path)
+        params = {key: values[0] for key, values in parse_qs(url.query).items()}
+        if not params.get("appid"):
+            return self.send_json(401, {"cod": 401, "message": "Invalid API key."})
+        try:
+            if url.path.endswith("/forecast"):
+                return self.send_json(200, forecast_payload(float(params["lat"]), float(params["lon"]), time.time()))
+            if url.path.endswith("/direct"):
+                return self.send_json(200, geocode_payload(params["q"], int(params.get("limit", 5))))
+        except (KeyError, ValueError):
+            return self.send_json(400, {"cod": "400", "message": "Bad request."})
+        self.send_json(404, {"cod": "404", "message": "Not found."})
+
+    def send_json(self, status: int, body):
+        data = json.dumps(body).encode("utf-8")
+        self.send_response(status)
+        self.send_header("Content-Type", "application/json")
+        self.send_header("Content-Length", str(len(data)))
+        self.end_headers()
+        self.wfile.write(data)
+
+    def log_message(self, format, *args):
+        pass
+
+
+def make_server(port: int = 8081) -> ThreadingHTTPServer:
+    """A stub server on 127.0.0.1; port 0 picks a free port (see `server_address`)."""
+    return ThreadingHTTPServer(("127.0.0.1", port), StubHandler)
+
+
+if __name__ == "__main__":
+    server = make_server(int(sys.argv[1]) if len(sys.argv) > 1 else 8081)
+    print(f"OpenWeather stub listening on http://127.0.0.1:{server.server_address[1]}")
+    server.serve_forever()
@@ -0,0 +1,101 @@
+"""Checks the treatment knowledge base before it is reviewed or deployed.
+
+Usage (from backend/): python scripts/validate_knowledge_base.py
+
+Every class in models/class_names.json must have exactly one entry, each entry must have content in every
+language, medicines must refer to declared active ingredients with a sane dosage range, and an entry can only
+be "approved" once a reviewer and review date are recorded. Exits with status 1 if anything is wrong.
+"""
+import json
+import os
+import sys
+from datetime import date
+
+LANGUAGES = ["en", "te", "hi", "es", "ta"]
+REVIEW_STATUSES = {"draft", "approved"}
+KNOWLEDGE_BASE_DIR = os.getenv("KNOWLEDGE_BASE_DIR", "knowledge_base")
+
+
+def check_entry(entry: dict, problems: list, where: str):
+    if not isinstance(entry.get("version"), int) or entry["version"] < 1:
+        problems.append(f"{where}: version must be a positive integer")
+
+    review = entry.get("review") or {}
+    if review.get("status") not in REVIEW_STATUSES:
+        problems.append(f"{where}: review.status must be one of {sorted(REVIEW_STATUSES)}")
+    if review.get("status") == "approved":
+        if not review.get("reviewed_by"):
+            problems.append(f"{where}: approved entries need review.reviewed_by")
+        try:
+            date.fromisoformat(review.get("reviewed_at") or "")
+        except ValueError:
+            problems.append(f"{where}: approved entries need review.reviewed_at as YYYY-MM-DD")
+
+    ingredient_ids = set()
+    for ingredient in entry.get("active_ingredients", []):
+        ingredient_ids.add(ingredient.get("id"))
+        dosage = ingredient.get("dosage") or {}
+        low, high = dosage.get("min"), dosage.get("max")
+        if not isinstance(low, (int, float)) or not isinstance(high, (int, float)) or not 0 < low <= high:
+            problems.append(f"{where}: {ingredient.get('id')}: dosage needs 0 < min <= max")
+        if not dosage.get("unit"):
+            problems.append(f"{where}: {ingredient.get('id')}: dosage needs a unit")
+    if ingredient_ids and not entry.get("sources"):
+        problems.append(f"{where}: entries that recommend active ingredients must cite sources")
+
+    content = entry.get("content") or {}
+    for language in LANGUAGES:
+        text = content.get(language)
+        if not text:
+            problems.append(f"{where}: missing content for '{language}'")
+            continue
+        if not text.get("summary"):
+            problems.append(f"{where}: [{language}] summary is empty")
+        used = [medicine.get("ingredient") for medicine in text.get("medicines", [])]
+        for ingredient in set(used) - ingredient_ids:
+            problems.append(f"{where}: [{language}] medicine refers to undeclared ingredient '{ingredient}'")
+        for ingredient in ingredient_ids - set(used):
+            problems.append(f"{where}: [{language}] no medicine text for ingredient '{ingredient}'")
+
+
+def main() -> int:
+    with open("models/class_names.json", "r") as f:
+        class_names = set(json.load(f).values())
+
+    problems = []
+    seen = {}
+    approved = 0
+    entries_dir = os.path.join(KNOWLEDGE_BASE_DIR, "entries")
+    for filename in sorted(os.listdir(entries_dir)):
+        if not filename.endswith(".json"):
+            continue
+        with open(os.path.join(entries_dir, filename), "r", encoding="utf-8") as f:
+            entry = json.load(f)
+        class_name = entry.get("class_name")
+        if class_name not in class_names:
+            problems.append(f"{filename}: unknown class_name '{class_name}'")
+        elif class_name in seen:
+            problems.append(f"{filename}: duplicate entry for '{class_name}' (also in {seen[class_name]})")
+        else:
+            seen[class_name] = filename
+        if (entry.get("review") or {}).get("status") == "approved":
+            approved += 1
+        check_entry(entry, problems, filename)
+
+    for class_name in sorted(class_names - set(seen)):
+        problems.append(f"no entry for class '{class_name}' (it will fall back to the LLM)")
+
+    with open(os.path.join(KNOWLEDGE_BASE_DIR, "disclaimer.json"), "r", encoding="utf-8") as f:
+        disclaimer = json.load(f)
+    for language in LANGUAGES:
+        if not disclaimer.get(language):
+            problems.append(f"disclaimer.json: missing '{language}'")
+
+    for problem in problems:
+        print(problem)
+    print(f"{len(seen)}/{len(class_names)} classes covered, {approved} approved, {len(problems)} problem(s).")
+    return 1 if problems else 0
+
+
+if __name__ == "__main__":
+    sys.exit(main())
@@ -1,28 +1,107 @@
 from pydantic import BaseModel, Field
-from typing import List, Dict
+from typing import Any, List, Dict, Literal, Optional, Tuple
 from openai import OpenAI
 import os
 from dotenv import load_dotenv
 import json
 import io
+import hashlib
+import hmac
+import re
+import secrets
+import sqlite3
+import threading
+import time
+from contextlib import asynccontextmanager
+from enum import Enum
+from collections import defaultdict, deque
+import httpx
+import jwt
 import numpy as np
 from PIL import Image
-from fastapi import FastAPI, File, UploadFile, HTTPException, Depends, Query
+from fastapi import FastAPI, File, UploadFile, HTTPException, Depends, Header, Query, Request
+from fastapi.exceptions import RequestValidationError
+from fastapi.responses import FileResponse, JSONResponse, StreamingResponse
+from fastapi.security import HTTPAuthorizationCredentials, HTTPBearer
+from starlette.exceptions import HTTPException as StarletteHTTPException
 import tensorflow.lite as tflite
 
 
 load_dotenv(override=True)
 
 
+# ======================
+# Error Envelope
+# ======================
+class ErrorCode(str, Enum):
+    """Machine-readable error codes. Clients map these to their own (localized) messages."""
+    NO_LEAF_DETECTED = "NO_LEAF_DETECTED"
+    INVALID_IMAGE = "INVALID_IMAGE"
+    LLM_UNAVAILABLE = "LLM_UNAVAILABLE"
+    VALIDATION_ERROR = "VALIDATION_ERROR"
+    INVALID_REQUEST = "INVALID_REQUEST"
+    NOT_FOUND = "NOT_FOUND"
+    RATE_LIMITED = "RATE_LIMITED"
+    WEATHER_NOT_CONFIGURED = "WEATHER_NOT_CONFIGURED"
+    WEATHER_UNAVAILABLE = "WEATHER_UNAVAILABLE"
+    AUTH_REQUIRED = "AUTH_REQUIRED"
+    INVALID_CREDENTIALS = "INVALID_CREDENTIALS"
+    USERNAME_TAKEN = "USERNAME_TAKEN"
+    INTERNAL_ERROR = "INTERNAL_ERROR"
+
+class ErrorResponse(BaseModel):
+    """Body of every error response, including the `error` event of /chat/stream."""
+    code: ErrorCode
+    detail: str = Field(..., description="Human-readable explanation, in English, for logs and debugging")
+
+class ApiError(HTTPException):
+    def __init__(self, status_code: int, code: ErrorCode, detail: str, headers: Optional[Dict[str, str]] = None):
+        super().__init__(status_code=status_code, detail=detail, headers=headers)
+        self.code = code
+
+# Codes for errors raised without one, e.g. FastAPI's own 404 for unknown routes.
+STATUS_ERROR_CODES = {
+    400: ErrorCode.INVALID_REQUEST,
+    401: ErrorCode.AUTH_REQUIRED,
+    404: ErrorCode.NOT_FOUND,
+    405: ErrorCode.INVALID_REQUEST,
+    422: ErrorCode.VALIDATION_ERROR,
+    429: ErrorCode.RATE_LIMITED,
+}
+
+
 # ======================
 # Initialize FastAPI app
 # ======================
+@asynccontextmanager
+async def lifespan(app: FastAPI):
+    # Run on server start rather than on import, so importing the module (as the tests do) creates no files.
+    init_database()
+    yield
+
+
 app = FastAPI(
+    lifespan=lifespan,
     title="Plant Disease Detection API",
     description="Upload a plant leaf image to detect disease and get treatment suggestions.",
-    version="1.0.0"
+    version="1.0.0",
+    responses={status: {"model": ErrorResponse} for status in (400, 401, 404, 409, 429, 500, 502, 503)},
 )
 
+
+@app.exception_handler(StarletteHTTPException)
+async def http_exception_handler(request: Request, exc: StarletteHTTPException):
+    code = getattr(exc, "code", None) or STATUS_ERROR_CODES.get(exc.status_code, ErrorCode.INTERNAL_ERROR)
+    body = ErrorResponse(code=code, detail=str(exc.detail))
+    return JSONResponse(status_code=exc.status_code, content=body.model_dump(mode="json"), headers=exc.headers)
+
+
+@app.exception_handler(RequestValidationError)
+async def validation_exception_handler(request: Request, exc: RequestValidationError):
+    detail = "; ".join(f"{'.'.join(str(part) for part in err['loc'])}: {err['msg']}" for err in exc.errors())
+    body = ErrorResponse(code=ErrorCode.VALIDATION_ERROR, detail=detail)
+    return JSONResponse(status_code=422, content=body.model_dump(mode="json"))
+
 # ======================
 # Load TFLite Models
 # ======================
@@ -42,6 +121,15 @@ try:
 except Exception as e:
     raise RuntimeError(f"Error loading TFLite models: {e}")
 
+# Each interpreter holds its input and output tensors, so requests served from the thread pool take turns.
+inference_lock = threading.Lock()
+
+# Files the frontend downloads for on-device inference, so the browser runs exactly the server's models.
+MODELS_DIR = "models"
+DOWNLOADABLE_MODEL_FILES = {"GateKeeper_for_plant.tflite", "Crop_Disease_Detector.tflite", "class_names.json", "class_catalog.json"}
+# Exposes /debug/inference, which returns raw model inputs and outputs for parity checks.
+ENABLE_DEBUG_ENDPOINTS = os.getenv("ENABLE_DEBUG_ENDPOINTS", "false").lower() == "true"
+
 
 # ======================
 # Helper Functions
@@ -59,7 +147,279 @@ def load_and_prep_image(image_bytes, img_shape=224, scale=False):
             img_array = img_array / 255.0
         return img_array
     except Exception as e:
-        raise HTTPException(status_code=400, detail=f"Invalid image file: {e}")
+        raise ApiError(400, ErrorCode.INVALID_IMAGE, f"Invalid image file: {e}")
+
+
+def predict_plant_probability(img_array: np.ndarray) -> float:
+    """Gatekeeper model: probability that the preprocessed image shows a plant leaf."""
+    with inference_lock:
+        gatekeeper_interpreter.set_tensor(gatekeeper_input_details[0]['index'], np.expand_dims(img_array, axis=0))
+        gatekeeper_interpreter.invoke()
+        return float(gatekeeper_interpreter.get_tensor(gatekeeper_output_details[0]['index'])[0][0])
+
+
+def predict_disease_probabilities(img_array: np.ndarray) -> np.ndarray:
+    """Disease model: softmax over the classes in class_names.json."""
+    with inference_lock:
+        disease_interpreter.set_tensor(disease_input_details[0]['index'], np.expand_dims(img_array, axis=0))
+        disease_interpreter.invoke()
+        return disease_interpreter.get_tensor(disease_output_details[0]['index'])[0]
+
+
+def rank_predictions(probs: np.ndarray, candidate_indices: List[int]) -> List[Tuple[int, float]]:
+    """
+    The candidate classes from most to least likely, with confidences in percent renormalized over the candidates,
+    so with a crop hint they read as "given this crop". The app's on-device mode ranks the same way.
+    """
+    candidate_probs = probs[candidate_indices] / max(float(probs[candidate_indices].sum()), 1e-12)
+    return [(candidate_indices[int(i)], float(candidate_probs[i] * 100)) for i in np.argsort(candidate_probs)[::-1]]
+
+
+# Occlusion saliency: a patch of this size slides over the 224x224 input in steps of OCCLUSION_STRIDE,
+# so the map has (224 / stride) cells per side and each run costs ((224 - patch) / stride + 1)^2 inferences.
+OCCLUSION_PATCH = 56
+OCCLUSION_STRIDE = 28
+
+
+def occlusion_saliency(img_array: np.ndarray, class_index: int) -> List[List[float]]:
+    """
+    Covers each region of the image with a patch of its mean colour and records how much the probability of
+    `class_index` drops. Returns a grid (rows top to bottom) normalised to 0-1, where 1 is the region that mattered most.
+    """
+    def class_probability(image: np.ndarray) -> float:
+        return float(predict_disease_probabilities(image)[class_index])
+
+    size = img_array.shape[0]
+    cells = size // OCCLUSION_STRIDE
+    heat = np.zeros((cells, cells), dtype=np.float32)
+    counts = np.zeros((cells, cells), dtype=np.float32)
+    fill = img_array.mean(axis=(0, 1))
+    baseline = class_probability(img_array)
+
+    for y in range(0, size - OCCLUSION_PATCH + 1, OCCLUSION_STRIDE):
+        for x in range(0, size - OCCLUSION_PATCH + 1, OCCLUSION_STRIDE):
+            occluded = img_array.copy()
+            occluded[y:y + OCCLUSION_PATCH, x:x + OCCLUSION_PATCH] = fill
+            drop = baseline - class_probability(occluded)
+            rows = slice(y // OCCLUSION_STRIDE, (y + OCCLUSION_PATCH) // OCCLUSION_STRIDE)
+            cols = slice(x // OCCLUSION_STRIDE, (x + OCCLUSION_PATCH) // OCCLUSION_STRIDE)
+            heat[rows, cols] += drop
+            counts[rows, cols] += 1
+
+    # Regions whose occlusion made the class more likely carry no evidence for it.
+    heat = np.maximum(heat / np.maximum(counts, 1), 0)
+    peak = float(heat.max())
+    if peak > 0:
+        heat /= peak
+    return np.round(heat, 3).tolist()
+
+
+# Chat sessions of anonymous users are stored as one JSON file per diagnosis so they can be resumed on another
+# device. The file is keyed by a secret the client sends in X-Chat-Session-Key, so knowing a diagnosis ID is not
+# enough to read or overwrite someone else's session.
+CHAT_SESSIONS_DIR = os.getenv("CHAT_SESSIONS_DIR", "data/chat_sessions")
+DIAGNOSIS_ID_PATTERN = re.compile(r"^[A-Za-z0-9-]{1,64}$")
+CHAT_SESSION_KEY_PATTERN = re.compile(r"^[A-Za-z0-9_-]{32,128}$")
+MAX_CHAT_SESSION_MESSAGES = 200
+MAX_CHAT_MESSAGE_LENGTH = 10_000
+
+
+def chat_session_path(diagnosis_id: str, session_key: Optional[str]) -> str:
+    """Returns the file path for a diagnosis' chat session under the client's key, rejecting invalid IDs and keys."""
+    if not DIAGNOSIS_ID_PATTERN.match(diagnosis_id):
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, "Invalid diagnosis ID.")
+    if session_key is None:
+        raise ApiError(401, ErrorCode.AUTH_REQUIRED, "Sign in or send an X-Chat-Session-Key header to store chat sessions.")
+    if not CHAT_SESSION_KEY_PATTERN.match(session_key):
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, "X-Chat-Session-Key must be 32 to 128 letters, digits, '-' or '_'.")
+    name = hashlib.sha256(f"{session_key}:{diagnosis_id}".encode("utf-8")).hexdigest()
+    return os.path.join(CHAT_SESSIONS_DIR, f"{name}.json")
+
+
+# Accounts, farm profiles and each user's diagnoses and chat sessions are kept in a local SQLite database.
+# Set JWT_SECRET in production: without it every restart signs all users out.
+DATABASE_PATH = os.getenv("DATABASE_PATH", "data/agrolens.db")
+JWT_SECRET = os.getenv("JWT_SECRET") or secrets.token_urlsafe(32)
+JWT_ALGORITHM = "HS256"
+# Farmers may be offline for weeks, so tokens last 30 days by default.
+JWT_EXPIRY_SECONDS = int(os.getenv("JWT_EXPIRY_SECONDS", str(30 * 24 * 3600)))
+PASSWORD_HASH_ITERATIONS = 600_000
+# Usernames are phone numbers or email addresses, compared in lower case.
+USERNAME_PATTERN = re.compile(r"^[a-z0-9_.@+-]{3,64}$")
+# Diagnosis records carry a thumbnail, so they are a few tens of KB; anything far larger is not one of ours.
+MAX_STORED_DIAGNOSIS_BYTES = 512 * 1024
+
+DATABASE_SCHEMA = """
+CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    created_at REAL NOT NULL
+);
+CREATE TABLE IF NOT EXISTS farm_profiles (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    farmer_name TEXT NOT NULL DEFAULT '',
+    cooperative TEXT NOT NULL DEFAULT '',
+    location_name TEXT NOT NULL DEFAULT '',
+    latitude REAL,
+    longitude REAL,
+    crops TEXT NOT NULL DEFAULT '[]',
+    acreage REAL,
+    soil_type TEXT,
+    updated_at REAL NOT NULL
+);
+CREATE TABLE IF NOT EXISTS diagnoses (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    created_at REAL NOT NULL,
+    record TEXT NOT NULL,
+    updated_at REAL NOT NULL,
+    PRIMARY KEY (user_id, id)
+);
+CREATE TABLE IF NOT EXISTS chat_sessions (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    diagnosis_id TEXT NOT NULL,
+    session TEXT NOT NULL,
+    updated_at REAL NOT NULL,
+    PRIMARY KEY (user_id, diagnosis_id)
+);
+"""
+
+bearer_scheme = HTTPBearer(auto_error=False)
+
+
+def init_database():
+    """Creates the database file and tables on first start."""
+    directory = os.path.dirname(DATABASE_PATH)
+    if directory:
+        os.makedirs(directory, exist_ok=True)
+    with sqlite3.connect(DATABASE_PATH) as connection:
+        connection.executescript(DATABASE_SCHEMA)
+
+
+def get_db():
+    """Opens one connection per request. Endpoints commit their own writes with `with db:`."""
+    # FastAPI may run the dependency and the endpoint on different threads.
+    connection = sqlite3.connect(DATABASE_PATH, check_same_thread=False)
+    connection.row_factory = sqlite3.Row
+    connection.execute("PRAGMA foreign_keys = ON")
+    try:
+        yield connection
+    finally:
+        connection.close()
+
+
+def hash_password(password: str) -> str:
+    salt = secrets.token_bytes(16)
+    digest = hashlib.pbkdf2_hmac("sha256", password.encode("utf-8"), salt, PASSWORD_HASH_ITERATIONS)
+    return f"pbkdf2_sha256${PASSWORD_HASH_ITERATIONS}${salt.hex()}${digest.hex()}"
+
+
+def verify_password(password: str, stored: str) -> bool:
+    try:
+        _, iterations, salt, digest = stored.split("$")
+        candidate = hashlib.pbkdf2_hmac("sha256", password.encode("utf-8"), bytes.fromhex(salt), int(iterations))
+    except ValueError:
+        return False
+    return hmac.compare_digest(candidate.hex(), digest)
+
+
+# Checked against when the username does not exist, so a failed login takes as long either way.
+UNKNOWN_USER_PASSWORD_HASH = hash_password(secrets.token_urlsafe(16))
+
+
+def normalize_username(username: str) -> str:
+    normalized = username.strip().lower()
+    if not USERNAME_PATTERN.match(normalized):
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, "Username must be a phone number or email address.")
+    return normalized
+
+
+def create_access_token(user_id: str) -> Tuple[str, float]:
+    """Returns a signed token for the user and its expiry as a Unix timestamp."""
+    now = time.time()
+    expires_at = now + JWT_EXPIRY_SECONDS
+    token = jwt.encode({"sub": user_id, "iat": int(now), "exp": int(expires_at)}, JWT_SECRET, algorithm=JWT_ALGORITHM)
+    return token, float(int(expires_at))
+
+
+def get_optional_user(
+    credentials: Optional[HTTPAuthorizationCredentials] = Depends(bearer_scheme),
+    db: sqlite3.Connection = Depends(get_db),
+) -> Optional[sqlite3.Row]:
+    """The signed-in user, or None for anonymous requests. A token that is sent but invalid is still rejected."""
+    if credentials is None:
+        return None
+    unauthorized = ApiError(401, ErrorCode.AUTH_REQUIRED, "Invalid or expired token.", headers={"WWW-Authenticate": "Bearer"})
+    try:
+        claims = jwt.decode(credentials.credentials, JWT_SECRET, algorithms=[JWT_ALGORITHM])
+    except jwt.InvalidTokenError:
+        raise unauthorized
+    user = db.execute("SELECT * FROM users WHERE id = ?", (claims.get("sub"),)).fetchone()
+    if user is None:
+        raise unauthorized
+    return user
+
+
+def get_current_user(user: Optional[sqlite3.Row] = Depends(get_optional_user)) -> sqlite3.Row:
+    if user is None:
+        raise ApiError(401, ErrorCode.AUTH_REQUIRED, "Sign in to use this endpoint.", headers={"WWW-Authenticate": "Bearer"})
+    return user
+
+
+# Weather is proxied so the OpenWeather key stays on the server. The base URL can point at a local stub.
+OPEN_WEATHER_API_KEY = os.getenv("OPEN_WEATHER_API_KEY")
+OPEN_WEATHER_BASE_URL = os.getenv("OPEN_WEATHER_BASE_URL", "https://api.openweathermap.org/data/2.5").rstrip("/")
+OPEN_WEATHER_GEO_URL = os.getenv("OPEN_WEATHER_GEO_URL", "https://api.openweathermap.org/geo/1.0").rstrip("/")
+# Forecasts are cached per ~1 km grid cell (2 decimal places) and per time bucket of this many seconds.
+WEATHER_CACHE_SECONDS = int(os.getenv("WEATHER_CACHE_SECONDS", "1800"))
+WEATHER_RATE_LIMIT_PER_MINUTE = int(os.getenv("WEATHER_RATE_LIMIT_PER_MINUTE", "30"))
+# Number of reverse proxies in front of the server (1 on Hugging Face Spaces). Each appends the address it was
+# connected from to X-Forwarded-For, so the client is that many entries from the right. 0 trusts no header.
+TRUSTED_PROXY_COUNT = int(os.getenv("TRUSTED_PROXY_COUNT", "0"))
+MS_TO_KMH = 3.6
+
+weather_cache: Dict[tuple, "WeatherForecast"] = {}
+weather_requests: Dict[str, deque] = defaultdict(deque)
+weather_requests_swept_at = 0.0
+
+
+def client_address(request: Request) -> str:
+    """The caller's IP address, read from X-Forwarded-For when the server runs behind trusted proxies."""
+    if TRUSTED_PROXY_COUNT > 0:
+        forwarded = [part.strip() for part in request.headers.get("x-forwarded-for", "").split(",") if part.strip()]
+        if len(forwarded) >= TRUSTED_PROXY_COUNT:
+            return forwarded[-TRUSTED_PROXY_COUNT]
+    return request.client.host if request.client else "unknown"
+
+
+def sweep_weather_requests(now: float):
+    """Forgets clients without a request in the last minute, at most once a minute."""
+    global weather_requests_swept_at
+    if now - weather_requests_swept_at < 60:
+        return
+    weather_requests_swept_at = now
+    for client in [client for client, times in weather_requests.items() if not times or times[-1] <= now - 60]:
+        del weather_requests[client]
+
+
+def check_weather_rate_limit(request: Request):
+    """Allows each client WEATHER_RATE_LIMIT_PER_MINUTE requests in any 60-second window."""
+    client = client_address(request)
+    now = time.time()
+    sweep_weather_requests(now)
+    recent = weather_requests[client]
+    while recent and recent[0] <= now - 60:
+        recent.popleft()
+    if len(recent) >= WEATHER_RATE_LIMIT_PER_MINUTE:
+        retry_after = int(recent[0] + 60 - now) + 1
+        raise ApiError(
+            429,
+            ErrorCode.RATE_LIMITED,
+            "Too many weather requests. Please try again shortly.",
+            headers={"Retry-After": str(retry_after)},
+        )
+    recent.append(now)
 
 
 def get_class_names():
@@ -73,6 +433,48 @@ def get_class_names():
         raise HTTPException(status_code=500, detail="Invalid JSON in class_names.json.")
 
 
+def get_class_catalog():
+    """Loads crop/disease IDs, pathogen types and localized names for each class from class_catalog.json."""
+    try:
+        with open("models/class_catalog.json", "r", encoding="utf-8") as f:
+            return json.load(f)
+    except FileNotFoundError:
+        raise HTTPException(status_code=500, detail="class_catalog.json file not found.")
+    except json.JSONDecodeError:
+        raise HTTPException(status_code=500, detail="Invalid JSON in class_catalog.json.")
+
+
+# The frontend sends English language names; the catalog is keyed by language code.
+LANGUAGE_CODES = {"English": "en", "Telugu": "te", "Hindi": "hi", "Spanish": "es", "Tamil": "ta"}
+
+KNOWLEDGE_BASE_DIR = os.getenv("KNOWLEDGE_BASE_DIR", "knowledge_base")
+# Generated treatments (classes without a knowledge base entry) are cached per (disease, language, severity grade)
+# for this many seconds, so switching the app language or re-diagnosing the same disease does not call the LLM again.
+TREATMENT_CACHE_SECONDS = int(os.getenv("TREATMENT_CACHE_SECONDS", "86400"))
+TREATMENT_CACHE_MAX_ENTRIES = int(os.getenv("TREATMENT_CACHE_MAX_ENTRIES", "500"))
+
+treatment_cache: Dict[Tuple[str, str, Optional[str]], Tuple[float, "DiseaseInfo"]] = {}
+
+
+def get_knowledge_base():
+    """Loads the curated treatment entries (keyed by class name) and the shared disclaimer from the knowledge base."""
+    entries_dir = os.path.join(KNOWLEDGE_BASE_DIR, "entries")
+    try:
+        entries = {}
+        for filename in os.listdir(entries_dir):
+            if filename.endswith(".json"):
+                with open(os.path.join(entries_dir, filename), "r", encoding="utf-8") as f:
+                    entry = json.load(f)
+                entries[entry["class_name"]] = entry
+        with open(os.path.join(KNOWLEDGE_BASE_DIR, "disclaimer.json"), "r", encoding="utf-8") as f:
+            disclaimer = json.load(f)
+    except FileNotFoundError:
+        raise HTTPException(status_code=500, detail="Knowledge base not found.")
+    except (json.JSONDecodeError, KeyError):
+        raise HTTPException(status_code=500, detail="Invalid JSON in the knowledge base.")
+    return {"entries": entries, "disclaimer": disclaimer}
+
+
 # ======================
 # Response Schema
 # ======================
@@ -80,6 +482,24 @@ class DiseasePrediction(BaseModel):
     predicted_disease: str
     confidence_score: float
 
+PathogenType = Literal["fungal", "bacterial", "viral", "pest"]
+
+class DiseaseIdentity(BaseModel):
+    class_name: str = Field(..., description="Raw label from class_names.json")
+    crop_id: str = Field(..., description="Stable crop ID, e.g. 'tomato'")
+    disease_id: str = Field(..., description="Stable disease ID, e.g. 'late_blight'; 'healthy' for healthy leaves")
+    crop_name: str = Field(..., description="Crop name in the requested language")
+    disease_name: str = Field(..., description="Disease name in the requested language")
+    pathogen_type: Optional[PathogenType] = Field(None, description="Cause of the disease; null for healthy leaves")
+    is_healthy: bool
+    is_crop_detected: bool = Field(..., description="Whether the gatekeeper model found a plant leaf in the image")
+
+class TopPrediction(BaseModel):
+    disease: str
+    confidence_score: float
+    crop_name: Optional[str] = Field(None, description="Localized crop name")
+    disease_name: Optional[str] = Field(None, description="Localized disease name")
+
 class MedicineInfo(BaseModel):
     name: str
     typical_dosage_or_application: str
@@ -92,17 +512,147 @@ class DiseaseInfo(BaseModel):
     summary: str = Field(..., description="Summary of the disease")
     disclaimer: str = Field(..., description="Disclaimer regarding medical advice")
 
+class KnowledgeSource(BaseModel):
+    title: str
+    publisher: Optional[str] = None
+    url: Optional[str] = None
+
+ReviewStatus = Literal["draft", "approved"]
+
+class TreatmentProvenance(BaseModel):
+    source: Literal["knowledge_base", "llm"] = Field(
+        ..., description="'llm' means the class has no knowledge base entry and the treatment was generated; it has not been reviewed"
+    )
+    version: Optional[int] = Field(None, description="Version of the knowledge base entry")
+    review_status: Optional[ReviewStatus] = Field(None, description="'approved' once an agronomist has signed off on the entry")
+    reviewed_by: Optional[str] = None
+    reviewed_at: Optional[str] = Field(None, description="Date of sign-off, YYYY-MM-DD")
+    references: List[KnowledgeSource] = Field(default_factory=list)
+
+SeverityGrade = Literal["trace", "mild", "moderate", "severe"]
+
+class SeverityEstimate(BaseModel):
+    affected_percent: float = Field(..., description="Share of the leaf area that is discoloured or lesioned, 0-100")
+    grade: SeverityGrade
+
+class SaliencyMap(BaseModel):
+    method: Literal["occlusion"] = "occlusion"
+    grid: List[List[float]] = Field(
+        ..., description="Rows top to bottom covering the whole image, 0-1; higher means the region mattered more for the prediction"
+    )
+
 class ResponseFormat(BaseModel):
     disease_info: DiseasePrediction
+    top_predictions: List[TopPrediction] = Field(..., description="Top-k classes from the softmax, highest first")
     treatment_details: DiseaseInfo
+    treatment_source: TreatmentProvenance
+    identity: DiseaseIdentity
+    crop: Optional[str] = Field(None, description="Crop hint the prediction was limited to, if one was given")
+    unconstrained_prediction: Optional[TopPrediction] = Field(
+        None, description="The model's top class over all crops, when a crop hint was given and it disagrees"
+    )
+    heatmap: Optional[SaliencyMap] = Field(None, description="Where on the image the model saw the predicted class, when requested")
+    severity: Optional[SeverityEstimate] = Field(
+        None, description="How much of the leaf is affected; null for healthy predictions or when the leaf cannot be segmented"
+    )
+
+class InferenceTrace(BaseModel):
+    input_shape: List[int]
+    input_sha256: str = Field(..., description="SHA-256 of the preprocessed pixels as row-major RGB uint8 bytes")
+    plant_probability: float
+    probabilities: List[float] = Field(..., description="Disease model softmax, indexed like class_names.json")
+
+class TreatmentResponse(BaseModel):
+    identity: DiseaseIdentity
+    treatment_details: DiseaseInfo
+    treatment_source: TreatmentProvenance
+    related: List[DiseaseIdentity] = Field(
+        default_factory=list, description="Localized identities of the requested related classes, e.g. the other top predictions"
+    )
+
+class HourlyForecast(BaseModel):
+    time: int = Field(..., description="Start of the 3-hour slot, Unix timestamp in seconds")
+    temp: float = Field(..., description="Temperature in °C")
+    humidity: float = Field(..., description="Relative humidity in percent")
+    rain: float = Field(0, description="Rain in the slot, in mm")
+    pop: float = Field(0, description="Probability of precipitation, 0-1")
+    wind_speed: float = Field(0, description="Wind speed in km/h")
+    wind_gust: float = Field(0, description="Wind gust in km/h")
+    condition: str = ""
+    icon: str = Field("01d", description="OpenWeather icon code")
+
+class WeatherForecast(BaseModel):
+    latitude: float = Field(..., description="Latitude the forecast was fetched for, rounded to the cache grid")
+    longitude: float
+    location_name: Optional[str] = None
+    fetched_at: float = Field(..., description="Unix timestamp when the provider was called")
+    hourly: List[HourlyForecast]
+
+class Place(BaseModel):
+    name: str
+    state: Optional[str] = None
+    country: str = ""
+    latitude: float
+    longitude: float
 
 class ChatMessage(BaseModel):
     role: str
-    content: str
+    content: str = Field(..., max_length=MAX_CHAT_MESSAGE_LENGTH)
+
+class DiagnosisContext(BaseModel):
+    disease: str = Field(..., description="Disease the user was diagnosed with")
+    confidence_score: Optional[float] = Field(None, description="Model confidence for the disease, in percent")
+    summary: str = ""
+    medicines: List[MedicineInfo] = []
+    precautions: List[str] = []
+    language: str = Field("English", description="Language of the report the user is reading")
+    crop_stage: Optional[str] = Field(None, description="Growth stage of the crop, e.g. 'flowering'")
+    location: Optional[str] = Field(None, description="Where the diagnosis was made, as a place name or 'lat, lon'")
 
 class ChatRequest(BaseModel):
     message: str
     history: List[ChatMessage] = []
+    diagnosis: Optional[DiagnosisContext] = None
+
+class ChatSession(BaseModel):
+    diagnosis_id: str
+    messages: List[ChatMessage] = Field([], max_length=MAX_CHAT_SESSION_MESSAGES)
+    crop_stage: Optional[str] = None
+    updated_at: float = Field(0, description="Unix timestamp of the last change, set by the server")
+
+SoilType = Literal["alluvial", "black", "red", "laterite", "clay", "loam", "sandy"]
+
+class Credentials(BaseModel):
+    username: str = Field(..., description="Phone number or email address; not case-sensitive")
+    password: str = Field(..., min_length=8, max_length=128)
+
+class UserAccount(BaseModel):
+    id: str
+    username: str
+    created_at: float = Field(..., description="Unix timestamp of the registration")
+
+class AuthToken(BaseModel):
+    access_token: str = Field(..., description="Send as `Authorization: Bearer <token>`")
+    token_type: Literal["bearer"] = "bearer"
+    expires_at: float = Field(..., description="Unix timestamp after which the token is rejected")
+    user: UserAccount
+
+class FarmProfile(BaseModel):
+    farmer_name: str = Field("", max_length=100)
+    cooperative: str = Field("", max_length=100, description="Cooperative the farmer belongs to, if any")
+    location_name: str = Field("", max_length=200, description="Village or place name")
+    latitude: Optional[float] = Field(None, ge=-90, le=90)
+    longitude: Optional[float] = Field(None, ge=-180, le=180)
+    crops: List[str] = Field([], description="Crops grown, named as in class_names.json, e.g. 'Tomato'")
+    acreage: Optional[float] = Field(None, gt=0, description="Farm size in acres")
+    soil_type: Optional[SoilType] = None
+    updated_at: float = Field(0, description="Unix timestamp of the last change, set by the server")
+
+class StoredDiagnosis(BaseModel):
+    id: str
+    created_at: float = Field(..., description="Unix timestamp of the scan")
+    record: Dict[str, Any] = Field(..., description="The app's diagnosis record, stored as sent")
+    updated_at: float = Field(0, description="Unix timestamp of the last change, set by the server")
 
 
 gemini = OpenAI(
@@ -120,10 +670,242 @@ IMPORTANT: chat with the user in a friendly manner, but do NOT provide any medic
 IMPORTANT: Chat with the user in the language they used to ask their question.
 """
 
-def get_disease_info(disease: str, language: str) -> DiseaseInfo:
-    messages = [{"role": "system", "content": system_prompt}] + [{"role": "user", "content": disease + " in " + language}]
-    response = gemini.beta.chat.completions.parse(model="gemini-2.0-flash", messages=messages, response_format=DiseaseInfo)
-    return response.choices[0].message.parsed
+def format_diagnosis_context(diagnosis: DiagnosisContext) -> str:
+    """Renders the diagnosis report the user is looking at, so answers stay consistent with it."""
+    lines = [
+        "",
+        "DIAGNOSIS REPORT THE USER IS VIEWING (stay consistent with it; do not contradict the listed medicines or precautions without explaining why):",
+        f"- Disease: {diagnosis.disease}",
+    ]
+    if diagnosis.confidence_score is not None:
+        lines.append(f"- Model confidence: {diagnosis.confidence_score:.1f}%")
+    if diagnosis.summary:
+        lines.append(f"- Summary: {diagnosis.summary}")
+    if diagnosis.medicines:
+        lines.append("- Medicines already suggested:")
+        lines += [f"  * {m.name}: {m.typical_dosage_or_application} ({m.notes})" for m in diagnosis.medicines]
+    if diagnosis.precautions:
+        lines.append("- Precautions already suggested:")
+        lines += [f"  * {p}" for p in diagnosis.precautions]
+    if diagnosis.crop_stage:
+        lines.append(f"- Crop growth stage: {diagnosis.crop_stage}")
+    if diagnosis.location:
+        lines.append(f"- Location: {diagnosis.location}")
+    lines.append(f"- Report language: {diagnosis.language}")
+    return "\n".join(lines)
+
+
+def build_chat_messages(request: ChatRequest) -> List[Dict[str, str]]:
+    system_content = chat_system_prompt
+    if request.diagnosis:
+        system_content += format_diagnosis_context(request.diagnosis)
+    history_dicts = [{"role": msg.role, "content": msg.content} for msg in request.history]
+    return [{"role": "system", "content": system_content}] + history_dicts + [{"role": "user", "content": request.message}]
+
+
+def sse_event(data: dict, event: Optional[str] = None) -> str:
+    """Formats a single Server-Sent Events frame with a JSON payload."""
+    frame = f"event: {event}\n" if event else ""
+    return frame + f"data: {json.dumps(data)}\n\n"
+
+
+def normalize_forecast(data: dict, latitude: float, longitude: float) -> WeatherForecast:
+    """Converts OpenWeather's 5-day / 3-hour `forecast` payload into the WeatherForecast schema."""
+    hourly = []
+    for item in data.get("list", []):
+        wind = item.get("wind") or {}
+        weather = (item.get("weather") or [{}])[0]
+        hourly.append(HourlyForecast(
+            time=item["dt"],
+            temp=item["main"]["temp"],
+            humidity=item["main"]["humidity"],
+            rain=(item.get("rain") or {}).get("3h", 0),
+            pop=item.get("pop", 0),
+            wind_speed=wind.get("speed", 0) * MS_TO_KMH,
+            wind_gust=wind.get("gust", wind.get("speed", 0)) * MS_TO_KMH,
+            condition=weather.get("description", ""),
+            icon=weather.get("icon", "01d"),
+        ))
+    return WeatherForecast(
+        latitude=latitude,
+        longitude=longitude,
+        location_name=(data.get("city") or {}).get("name") or None,
+        fetched_at=time.time(),
+        hourly=hourly,
+    )
+
+
+def describe_class(class_name: str, catalog: dict, language: str) -> DiseaseIdentity:
+    """Builds the structured identity of a class, with names in the requested language (English as fallback)."""
+    lang = LANGUAGE_CODES.get(language, "en")
+    entry = catalog["classes"].get(class_name)
+    if entry is None:
+        # A class added to the model but not yet to the catalog: derive what we can from the label.
+        crop_label, _, disease_label = class_name.partition("___")
+        entry = {
+            "crop": re.sub(r"[\W_]+", "_", crop_label.lower()).strip("_"),
+            "disease": re.sub(r"[\W_]+", "_", disease_label.lower()).strip("_"),
+            "pathogen": None,
+        }
+    crop_names = catalog["crops"].get(entry["crop"], {})
+    disease_names = catalog["diseases"].get(entry["disease"], {})
+    fallback_crop, _, fallback_disease = class_name.replace("_", " ").partition("   ")
+    return DiseaseIdentity(
+        class_name=class_name,
+        crop_id=entry["crop"],
+        disease_id=entry["disease"],
+        crop_name=crop_names.get(lang) or crop_names.get("en") or fallback_crop.strip(),
+        disease_name=disease_names.get(lang) or disease_names.get("en") or fallback_disease.strip(),
+        pathogen_type=entry["pathogen"],
+        is_healthy=entry["disease"] == "healthy",
+        is_crop_detected=True,
+    )
+
+
+# Colour segmentation for the severity estimate, on the 224x224 model input. The leaf is anchored on its largest
+# patch of green tissue, since soil and dead litter share the yellow-to-brown hues of lesions. Brown or very dark
+# pixels (e.g. black rot, whose hue is meaningless) count as leaf only where they lie between that green tissue along
+# their row or their column, so lesions inside and at the edge of the leaf count but the ground around it does not.
+# A leaf with too little green left falls back to the largest connected patch of plant-coloured pixels.
+PLANT_HUE_RANGE = (10, 170)
+HEALTHY_HUE_RANGE = (70, 170)
+PLANT_MIN_SATURATION = 0.15
+HEALTHY_MIN_SATURATION = 0.2
+PLANT_MIN_VALUE = 0.1
+DARK_LESION_MAX_VALUE = 0.2
+MIN_LEAF_FRACTION = 0.05
+# Upper bounds (percent of leaf area) of each grade; anything above the last is "severe".
+SEVERITY_GRADES = [(5, "trace"), (15, "mild"), (35, "moderate")]
+
+
+def largest_component(mask: np.ndarray) -> np.ndarray:
+    """The largest 4-connected region of a boolean mask (all False if the mask is empty)."""
+    height, width = mask.shape
+    pixels = mask.tolist()
+    seen = [[False] * width for _ in range(height)]
+    best: List[Tuple[int, int]] = []
+    for start_y, start_x in zip(*np.nonzero(mask)):
+        if seen[start_y][start_x]:
+            continue
+        seen[start_y][start_x] = True
+        component = [(int(start_y), int(start_x))]
+        queue = deque(component)
+        while queue:
+            y, x = queue.popleft()
+            for ny, nx in ((y - 1, x), (y + 1, x), (y, x - 1), (y, x + 1)):
+                if 0 <= ny < height and 0 <= nx < width and pixels[ny][nx] and not seen[ny][nx]:
+                    seen[ny][nx] = True
+                    component.append((ny, nx))
+                    queue.append((ny, nx))
+        if len(component) > len(best):
+            best = component
+    result = np.zeros_like(mask, dtype=bool)
+    if best:
+        ys, xs = zip(*best)
+        result[list(ys), list(xs)] = True
+    return result
+
+
+def span(mask: np.ndarray, axis: int) -> np.ndarray:
+    """Pixels between the first and last True pixel of their row (axis=1) or column (axis=0)."""
+    forward = np.logical_or.accumulate(mask, axis=axis)
+    backward = np.flip(np.logical_or.accumulate(np.flip(mask, axis=axis), axis=axis), axis=axis)
+    return forward & backward
+
+
+def estimate_severity(img_array: np.ndarray) -> Optional[SeverityEstimate]:
+    """Segments leaf and lesion pixels in HSV space and grades the share of the leaf that is affected."""
+    rgb = img_array / 255.0
+    value = rgb.max(axis=2)
+    delta = value - rgb.min(axis=2)
+    saturation = np.where(value > 0, delta / np.maximum(value, 1e-6), 0)
+    r, g, b = rgb[..., 0], rgb[..., 1], rgb[..., 2]
+    safe_delta = np.maximum(delta, 1e-6)
+    hue = 60 * np.select(
+        [value == r, value == g],
+        [((g - b) / safe_delta) % 6, (b - r) / safe_delta + 2],
+        (r - g) / safe_delta + 4,
+    )
+
+    plant = (saturation >= PLANT_MIN_SATURATION) & (value >= PLANT_MIN_VALUE) & (hue >= PLANT_HUE_RANGE[0]) & (hue <= PLANT_HUE_RANGE[1])
+    healthy = plant & (saturation >= HEALTHY_MIN_SATURATION) & (hue >= HEALTHY_HUE_RANGE[0]) & (hue <= HEALTHY_HUE_RANGE[1])
+
+    anchor = largest_component(healthy)
+    if anchor.mean() < MIN_LEAF_FRACTION:
+        anchor = largest_component(plant)
+    enclosed = span(anchor, axis=0) | span(anchor, axis=1)
+    leaf = anchor | (enclosed & (plant | (value < DARK_LESION_MAX_VALUE)))
+    if leaf.mean() < MIN_LEAF_FRACTION:
+        return None
+
+    affected = float((leaf & ~healthy).sum() / leaf.sum() * 100)
+    grade = next((name for limit, name in SEVERITY_GRADES if affected < limit), "severe")
+    return SeverityEstimate(affected_percent=round(affected, 1), grade=grade)
+
+
+def get_disease_info(disease: str, language: str, severity: Optional[SeverityGrade] = None) -> DiseaseInfo:
+    key = (disease, language, severity)
+    cached = treatment_cache.get(key)
+    if cached and cached[0] > time.time() - TREATMENT_CACHE_SECONDS:
+        return cached[1]
+
+    prompt = disease + " in " + language
+    if severity:
+        prompt += f" (severity of the infection on the leaf: {severity}; adjust whether and how intensively to treat)"
+    messages = [{"role": "system", "content": system_prompt}] + [{"role": "user", "content": prompt}]
+    try:
+        response = gemini.beta.chat.completions.parse(model="gemini-2.0-flash", messages=messages, response_format=DiseaseInfo)
+    except Exception as e:
+        raise ApiError(503, ErrorCode.LLM_UNAVAILABLE, f"Could not get treatment details: {e}")
+    info = response.choices[0].message.parsed
+
+    # Re-insert so the oldest entries are first in line for eviction.
+    treatment_cache.pop(key, None)
+    treatment_cache[key] = (time.time(), info)
+    while len(treatment_cache) > TREATMENT_CACHE_MAX_ENTRIES:
+        del treatment_cache[next(iter(treatment_cache))]
+    return info
+
+
+def knowledge_base_treatment(entry: dict, disclaimer: dict, language: str) -> DiseaseInfo:
+    """Renders a knowledge base entry in the requested language (English as fallback), with dosages from its active ingredients."""
+    lang = LANGUAGE_CODES.get(language, "en")
+    content = entry["content"].get(lang) or entry["content"]["en"]
+    ingredients = {ingredient["id"]: ingredient for ingredient in entry["active_ingredients"]}
+    medicines = []
+    for medicine in content["medicines"]:
+        ingredient = ingredients[medicine["ingredient"]]
+        dosage = ingredient["dosage"]
+        medicines.append(MedicineInfo(
+            name=f"{ingredient['name']} {ingredient['formulation']}",
+            typical_dosage_or_application=f"{dosage['min']:g}–{dosage['max']:g} {dosage['unit']}. {medicine['application']}",
+            notes=medicine["notes"],
+        ))
+    return DiseaseInfo(
+        medicines=medicines,
+        precautions=content["precautions"],
+        causes=content["causes"],
+        summary=content["summary"],
+        disclaimer=disclaimer.get(lang) or disclaimer["en"],
+    )
+
+
+def get_treatment(
+    disease: str, language: str, knowledge_base: dict, severity: Optional[SeverityGrade] = None
+) -> Tuple[DiseaseInfo, TreatmentProvenance]:
+    """Serves the curated knowledge base entry for a class, falling back to the LLM only when there is none."""
+    entry = knowledge_base["entries"].get(disease)
+    if entry is None:
+        return get_disease_info(disease, language, severity), TreatmentProvenance(source="llm")
+    review = entry["review"]
+    return knowledge_base_treatment(entry, knowledge_base["disclaimer"], language), TreatmentProvenance(
+        source="knowledge_base",
+        version=entry["version"],
+        review_status=review["status"],
+        reviewed_by=review.get("reviewed_by"),
+        reviewed_at=review.get("reviewed_at"),
+        references=[KnowledgeSource(**source) for source in entry["sources"]],
+    )
 
 
 # ======================
@@ -137,73 +919,479 @@ async def root():
     }
 
 
+# Inference, the optional heatmap and a generated treatment all block, so the model endpoints are sync and run
+# in the thread pool instead of stalling every other request.
 @app.post("/detect_disease", response_model=ResponseFormat)
-async def detect_disease(
+def detect_disease(
     file: UploadFile = File(...),
     language: str = Query("English", description="Language for the response (e.g., 'Spanish', 'Hindi')"),
-    class_names: dict = Depends(get_class_names)
+    top_k: int = Query(3, ge=1, le=10, description="Number of ranked alternative predictions to return"),
+    crop: Optional[str] = Query(None, description="Crop the leaf is from, as named in class_names.json (e.g. 'Tomato'); limits predictions to its classes"),
+    heatmap: bool = Query(False, description="Also return an occlusion saliency map for the predicted class (about 50 extra inferences); apps request it from /heatmap on demand instead"),
+    class_names: dict = Depends(get_class_names),
+    catalog: dict = Depends(get_class_catalog),
+    knowledge_base: dict = Depends(get_knowledge_base)
 ):
     """
     Upload a plant leaf image → detect if it's a valid plant → predict the disease.
     """
+    candidate_indices = list(range(len(class_names)))
+    if crop:
+        candidate_indices = [i for i in candidate_indices if class_names[str(i)].split("___")[0] == crop]
+        if not candidate_indices:
+            raise ApiError(400, ErrorCode.INVALID_REQUEST, f"Unknown crop: {crop}")
+
     try:
-        image_bytes = await file.read()
+        image_bytes = file.file.read()
         img_array = load_and_prep_image(image_bytes, scale=False)
-        img_expanded = np.expand_dims(img_array, axis=0)
 
         # ========= GATEKEEPER MODEL =========
-        gatekeeper_interpreter.set_tensor(
-            gatekeeper_input_details[0]['index'], img_expanded
-        )
-        gatekeeper_interpreter.invoke()
-        gatekeeper_pred_prob = gatekeeper_interpreter.get_tensor(
-            gatekeeper_output_details[0]['index']
-        )
-
-        plant_prob = gatekeeper_pred_prob[0][0]
+        plant_prob = predict_plant_probability(img_array)
 
         if int(round(plant_prob)) == 0:
-            raise HTTPException(
-                status_code=400,
-                detail="No valid plant leaf detected. Please upload a clear image of a plant leaf."
+            raise ApiError(
+                400,
+                ErrorCode.NO_LEAF_DETECTED,
+                "No valid plant leaf detected. Please upload a clear image of a plant leaf."
             )
 
         # ========= DISEASE MODEL =========
-        disease_interpreter.set_tensor(disease_input_details[0]['index'], img_expanded)
-        disease_interpreter.invoke()
-        pred_prob = disease_interpreter.get_tensor(disease_output_details[0]['index'])
+        probs = predict_disease_probabilities(img_array)
 
-        predicted_index = int(np.argmax(pred_prob))
+        ranked = rank_predictions(probs, candidate_indices)
+        predicted_index, confidence_score = ranked[0]
         predicted_disease = class_names[str(predicted_index)]
-        confidence_score = float(np.max(pred_prob) * 100)
+
+        top_predictions = []
+        for index, score in ranked[:top_k]:
+            label = class_names[str(index)]
+            identity = describe_class(label, catalog, language)
+            top_predictions.append(TopPrediction(
+                disease=label,
+                confidence_score=score,
+                crop_name=identity.crop_name,
+                disease_name=identity.disease_name,
+            ))
+
+        unconstrained_prediction = None
+        overall_index = int(np.argmax(probs))
+        if crop and overall_index != predicted_index:
+            overall_identity = describe_class(class_names[str(overall_index)], catalog, language)
+            unconstrained_prediction = TopPrediction(
+                disease=overall_identity.class_name,
+                confidence_score=float(probs[overall_index] * 100),
+                crop_name=overall_identity.crop_name,
+                disease_name=overall_identity.disease_name,
+            )
+
+        saliency = SaliencyMap(grid=occlusion_saliency(img_array, predicted_index)) if heatmap else None
+        predicted_identity = describe_class(predicted_disease, catalog, language)
+        severity = None if predicted_identity.is_healthy else estimate_severity(img_array)
+
+        treatment_details, treatment_source = get_treatment(
+            predicted_disease, language, knowledge_base, severity.grade if severity else None
+        )
 
         return ResponseFormat(
             disease_info=DiseasePrediction(
                 predicted_disease=predicted_disease,
                 confidence_score=confidence_score
             ),
-            treatment_details=get_disease_info(predicted_disease, language)
+            top_predictions=top_predictions,
+            treatment_details=treatment_details,
+            treatment_source=treatment_source,
+            identity=predicted_identity,
+            crop=crop,
+            unconstrained_prediction=unconstrained_prediction,
+            heatmap=saliency,
+            severity=severity,
         )
 
     except HTTPException:
         raise
     except Exception as e:
-        raise HTTPException(status_code=500, detail=f"Internal error: {e}")
+        raise ApiError(500, ErrorCode.INTERNAL_ERROR, f"Internal error: {e}")
+
+
+@app.post("/heatmap", response_model=SaliencyMap)
+def heatmap(
+    file: UploadFile = File(...),
+    disease: str = Query(..., description="Class label to explain, as returned in disease_info.predicted_disease"),
+    class_names: dict = Depends(get_class_names),
+):
+    """
+    Occlusion saliency map of where the model saw `disease` in the image. Separate from /detect_disease because
+    it costs about 50 inferences, so the app only asks for it when the user wants to see it.
+    """
+    class_index = next((int(index) for index, label in class_names.items() if label == disease), None)
+    if class_index is None:
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, f"Unknown disease: {disease}")
+    img_array = load_and_prep_image(file.file.read(), scale=False)
+    return SaliencyMap(grid=occlusion_saliency(img_array, class_index))
+
+
+@app.get("/treatment", response_model=TreatmentResponse)
+def treatment(
+    disease: str = Query(..., description="Class label from class_names.json, as returned in disease_info.predicted_disease"),
+    language: str = Query("English", description="Language for the response (e.g., 'Spanish', 'Hindi')"),
+    related: List[str] = Query([], description="Other class labels to return localized names for, e.g. the other top predictions"),
+    severity: Optional[SeverityGrade] = Query(None, description="Severity grade from the original diagnosis, so generated advice stays the same"),
+    class_names: dict = Depends(get_class_names),
+    catalog: dict = Depends(get_class_catalog),
+    knowledge_base: dict = Depends(get_knowledge_base)
+):
+    """
+    Treatment details and localized names for an already known prediction, without running the models again.
+    Used when the app language changes after a diagnosis.
+    """
+    known = set(class_names.values())
+    for label in [disease, *related]:
+        if label not in known:
+            raise ApiError(404, ErrorCode.NOT_FOUND, f"Unknown class: {label}")
+
+    treatment_details, treatment_source = get_treatment(disease, language, knowledge_base, severity)
+    return TreatmentResponse(
+        identity=describe_class(disease, catalog, language),
+        treatment_details=treatment_details,
+        treatment_source=treatment_source,
+        related=[describe_class(label, catalog, language) for label in related],
+    )
+
+
+@app.get("/models/{filename}")
+async def download_model(filename: str):
+    """The TFLite models and class names, for running the same inference in the browser."""
+    if filename not in DOWNLOADABLE_MODEL_FILES:
+        raise ApiError(404, ErrorCode.NOT_FOUND, f"Unknown model file: {filename}")
+    path = os.path.join(MODELS_DIR, filename)
+    if not os.path.exists(path):
+        raise ApiError(404, ErrorCode.NOT_FOUND, f"Model file not available: {filename}")
+    return FileResponse(path)
+
+
+@app.post("/debug/inference", response_model=InferenceTrace)
+def debug_inference(file: UploadFile = File(...)):
+    """
+    Preprocessed input checksum and raw outputs of both models for one image, to compare on-device inference
+    with the server. Only available when ENABLE_DEBUG_ENDPOINTS=true.
+    """
+    if not ENABLE_DEBUG_ENDPOINTS:
+        raise ApiError(404, ErrorCode.NOT_FOUND, "Debug endpoints are disabled.")
+    img_array = load_and_prep_image(file.file.read(), scale=False)
+    return InferenceTrace(
+        input_shape=list(img_array.shape),
+        input_sha256=hashlib.sha256(img_array.astype(np.uint8).tobytes()).hexdigest(),
+        plant_probability=predict_plant_probability(img_array),
+        probabilities=[float(p) for p in predict_disease_probabilities(img_array)],
+    )
+
+
+@app.get("/weather", response_model=WeatherForecast, dependencies=[Depends(check_weather_rate_limit)])
+async def weather(
+    lat: float = Query(..., ge=-90, le=90),
+    lon: float = Query(..., ge=-180, le=180),
+    lang: str = Query("en", description="OpenWeather language code for condition descriptions"),
+):
+    """5-day / 3-hour forecast for a location, proxied from OpenWeather and cached."""
+    if not OPEN_WEATHER_API_KEY:
+        raise ApiError(503, ErrorCode.WEATHER_NOT_CONFIGURED, "Weather service is not configured.")
+
+    latitude, longitude = round(lat, 2), round(lon, 2)
+    bucket = int(time.time() // WEATHER_CACHE_SECONDS)
+    key = (latitude, longitude, lang, bucket)
+    if key in weather_cache:
+        return weather_cache[key]
+
+    try:
+        async with httpx.AsyncClient(timeout=10) as client:
+            response = await client.get(f"{OPEN_WEATHER_BASE_URL}/forecast", params={
+                "lat": latitude,
+                "lon": longitude,
+                "appid": OPEN_WEATHER_API_KEY,
+                "units": "metric",
+                "lang": lang,
+            })
+        response.raise_for_status()
+        forecast = normalize_forecast(response.json(), latitude, longitude)
+    except httpx.HTTPError as e:
+        raise ApiError(502, ErrorCode.WEATHER_UNAVAILABLE, f"Weather provider error: {e}")
+    except (KeyError, TypeError, ValueError) as e:
+        raise ApiError(502, ErrorCode.WEATHER_UNAVAILABLE, f"Unexpected weather provider response: {e}")
 
+    # Entries from earlier time buckets can never be hit again.
+    for stale in [k for k in weather_cache if k[3] != bucket]:
+        del weather_cache[stale]
+    weather_cache[key] = forecast
+    return forecast
+
+
+@app.get("/geocode", response_model=List[Place], dependencies=[Depends(check_weather_rate_limit)])
+async def geocode(
+    q: str = Query(..., min_length=2, description="Place name, e.g. 'Guntur' or 'Guntur, IN'"),
+    limit: int = Query(5, ge=1, le=5),
+):
+    """Looks up places by name with OpenWeather's geocoding API, for picking a farm location."""
+    if not OPEN_WEATHER_API_KEY:
+        raise ApiError(503, ErrorCode.WEATHER_NOT_CONFIGURED, "Weather service is not configured.")
+
+    try:
+        async with httpx.AsyncClient(timeout=10) as client:
+            response = await client.get(f"{OPEN_WEATHER_GEO_URL}/direct", params={
+                "q": q,
+                "limit": limit,
+                "appid": OPEN_WEATHER_API_KEY,
+            })
+        response.raise_for_status()
+        return [
+            Place(
+                name=item["name"],
+                state=item.get("state"),
+                country=item.get("country", ""),
+                latitude=item["lat"],
+                longitude=item["lon"],
+            )
+            for item in response.json()
+        ]
+    except httpx.HTTPError as e:
+        raise ApiError(502, ErrorCode.WEATHER_UNAVAILABLE, f"Weather provider error: {e}")
+    except (KeyError, TypeError, ValueError) as e:
+        raise ApiError(502, ErrorCode.WEATHER_UNAVAILABLE, f"Unexpected weather provider response: {e}")
 
 
 @app.post("/chat", response_model=Dict[str, str])
 async def chat(request: ChatRequest):
     """Have a conversation with the AgroAid assistant about a diagnosis."""
     try:
-        history_dicts = [{"role": msg.role, "content": msg.content} for msg in request.history]
-        messages = [{"role": "system", "content": chat_system_prompt}] + history_dicts + [{"role": "user", "content": request.message}]
-        
         response = gemini.chat.completions.create(
             model="gemini-2.0-flash",
-            messages=messages,
+            messages=build_chat_messages(request),
         )
 
         return {"response": response.choices[0].message.content}
     except Exception as e:
-        raise HTTPException(status_code=500, detail=f"Error during chat completion: {e}")
\ No newline at end of file
+        raise ApiError(503, ErrorCode.LLM_UNAVAILABLE, f"Error during chat completion: {e}")
+
+
+@app.post("/chat/stream")
+def chat_stream(request: ChatRequest):
+    """
+    Same conversation as /chat, streamed as Server-Sent Events:
+    `data: {"delta": "..."}` for each token chunk, then `data: {"done": true}`.
+    Failures after the stream has started are sent as an `error` event.
+    """
+    try:
+        stream = gemini.chat.completions.create(
+            model="gemini-2.0-flash",
+            messages=build_chat_messages(request),
+            stream=True,
+        )
+    except Exception as e:
+        raise ApiError(503, ErrorCode.LLM_UNAVAILABLE, f"Error during chat completion: {e}")
+
+    def event_stream():
+        try:
+            for chunk in stream:
+                if not chunk.choices:
+                    continue
+                delta = chunk.choices[0].delta.content
+                if delta:
+                    yield sse_event({"delta": delta})
+            yield sse_event({"done": True})
+        except Exception as e:
+            error = ErrorResponse(code=ErrorCode.LLM_UNAVAILABLE, detail=f"Error during chat completion: {e}")
+            yield sse_event(error.model_dump(mode="json"), event="error")
+        finally:
+            stream.close()
+
+    return StreamingResponse(
+        event_stream(),
+        media_type="text/event-stream",
+        headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"},
+    )
+
+
+@app.get("/chat_sessions/{diagnosis_id}", response_model=ChatSession)
+async def get_chat_session(
+    diagnosis_id: str,
+    user: Optional[sqlite3.Row] = Depends(get_optional_user),
+    db: sqlite3.Connection = Depends(get_db),
+    session_key: Optional[str] = Header(None, alias="X-Chat-Session-Key"),
+):
+    """Fetch the saved chat session for a diagnosis. Signed-in users only see their own sessions."""
+    if user is not None:
+        row = db.execute(
+            "SELECT session FROM chat_sessions WHERE user_id = ? AND diagnosis_id = ?", (user["id"], diagnosis_id)
+        ).fetchone()
+        if row is None:
+            raise ApiError(404, ErrorCode.NOT_FOUND, "Chat session not found.")
+        return ChatSession(**json.loads(row["session"]))
+    path = chat_session_path(diagnosis_id, session_key)
+    if not os.path.exists(path):
+        raise ApiError(404, ErrorCode.NOT_FOUND, "Chat session not found.")
+    with open(path, "r", encoding="utf-8") as f:
+        return ChatSession(**json.load(f))
+
+
+@app.put("/chat_sessions/{diagnosis_id}", response_model=ChatSession)
+async def save_chat_session(
+    diagnosis_id: str,
+    session: ChatSession,
+    user: Optional[sqlite3.Row] = Depends(get_optional_user),
+    db: sqlite3.Connection = Depends(get_db),
+    session_key: Optional[str] = Header(None, alias="X-Chat-Session-Key"),
+):
+    """Create or replace the chat session for a diagnosis."""
+    if session.diagnosis_id != diagnosis_id:
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, "diagnosis_id in the body does not match the URL.")
+    session.updated_at = time.time()
+    if user is not None:
+        with db:
+            db.execute(
+                "INSERT OR REPLACE INTO chat_sessions (user_id, diagnosis_id, session, updated_at) VALUES (?, ?, ?, ?)",
+                (user["id"], diagnosis_id, json.dumps(session.model_dump(), ensure_ascii=False), session.updated_at),
+            )
+        return session
+    path = chat_session_path(diagnosis_id, session_key)
+    os.makedirs(CHAT_SESSIONS_DIR, exist_ok=True)
+    with open(path, "w", encoding="utf-8") as f:
+        json.dump(session.model_dump(), f, ensure_ascii=False)
+    return session
+
+
+@app.delete("/chat_sessions/{diagnosis_id}", status_code=204)
+async def delete_chat_session(
+    diagnosis_id: str,
+    user: Optional[sqlite3.Row] = Depends(get_optional_user),
+    db: sqlite3.Connection = Depends(get_db),
+    session_key: Optional[str] = Header(None, alias="X-Chat-Session-Key"),
+):
+    """Delete the chat session for a diagnosis, if one exists."""
+    if user is not None:
+        with db:
+            db.execute("DELETE FROM chat_sessions WHERE user_id = ? AND diagnosis_id = ?", (user["id"], diagnosis_id))
+        return
+    path = chat_session_path(diagnosis_id, session_key)
+    if os.path.exists(path):
+        os.remove(path)
+
+
+def to_user_account(user: sqlite3.Row) -> UserAccount:
+    return UserAccount(id=user["id"], username=user["username"], created_at=user["created_at"])
+
+
+def issue_token(user: sqlite3.Row) -> AuthToken:
+    token, expires_at = create_access_token(user["id"])
+    return AuthToken(access_token=token, expires_at=expires_at, user=to_user_account(user))
+
+
+# Password hashing is deliberately slow, so the auth endpoints are sync and run in the thread pool.
+@app.post("/auth/register", response_model=AuthToken, status_code=201)
+def register(credentials: Credentials, db: sqlite3.Connection = Depends(get_db)):
+    """Create an account and sign it in."""
+    username = normalize_username(credentials.username)
+    user_id = secrets.token_hex(16)
+    try:
+        with db:
+            db.execute(
+                "INSERT INTO users (id, username, password_hash, created_at) VALUES (?, ?, ?, ?)",
+                (user_id, username, hash_password(credentials.password), time.time()),
+            )
+    except sqlite3.IntegrityError:
+        raise ApiError(409, ErrorCode.USERNAME_TAKEN, "An account with this username already exists.")
+    return issue_token(db.execute("SELECT * FROM users WHERE id = ?", (user_id,)).fetchone())
+
+
+@app.post("/auth/login", response_model=AuthToken)
+def login(credentials: Credentials, db: sqlite3.Connection = Depends(get_db)):
+    """Exchange a username and password for an access token."""
+    username = credentials.username.strip().lower()
+    user = db.execute("SELECT * FROM users WHERE username = ?", (username,)).fetchone()
+    stored_hash = user["password_hash"] if user is not None else UNKNOWN_USER_PASSWORD_HASH
+    if not verify_password(credentials.password, stored_hash) or user is None:
+        raise ApiError(401, ErrorCode.INVALID_CREDENTIALS, "Wrong username or password.")
+    return issue_token(user)
+
+
+@app.get("/me", response_model=UserAccount)
+async def get_me(user: sqlite3.Row = Depends(get_current_user)):
+    return to_user_account(user)
+
+
+@app.get("/me/profile", response_model=FarmProfile)
+async def get_farm_profile(user: sqlite3.Row = Depends(get_current_user), db: sqlite3.Connection = Depends(get_db)):
+    """The signed-in user's farm profile; empty until it is first saved."""
+    row = db.execute("SELECT * FROM farm_profiles WHERE user_id = ?", (user["id"],)).fetchone()
+    if row is None:
+        return FarmProfile()
+    profile = {key: row[key] for key in row.keys() if key != "user_id"}
+    profile["crops"] = json.loads(profile["crops"])
+    return FarmProfile(**profile)
+
+
+@app.put("/me/profile", response_model=FarmProfile)
+async def save_farm_profile(
+    profile: FarmProfile,
+    user: sqlite3.Row = Depends(get_current_user),
+    db: sqlite3.Connection = Depends(get_db),
+):
+    """Create or replace the signed-in user's farm profile."""
+    profile.updated_at = time.time()
+    with db:
+        db.execute(
+            """INSERT OR REPLACE INTO farm_profiles
+               (user_id, farmer_name, cooperative, location_name, latitude, longitude, crops, acreage, soil_type, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)""",
+            (
+                user["id"], profile.farmer_name, profile.cooperative, profile.location_name, profile.latitude,
+                profile.longitude, json.dumps(profile.crops), profile.acreage, profile.soil_type, profile.updated_at,
+            ),
+        )
+    return profile
+
+
+@app.get("/me/diagnoses", response_model=List[StoredDiagnosis])
+async def list_stored_diagnoses(user: sqlite3.Row = Depends(get_current_user), db: sqlite3.Connection = Depends(get_db)):
+    """All diagnoses the signed-in user has saved, newest first, so they can be restored on another device."""
+    rows = db.execute(
+        "SELECT id, created_at, record, updated_at FROM diagnoses WHERE user_id = ? ORDER BY created_at DESC", (user["id"],)
+    ).fetchall()
+    return [
+        StoredDiagnosis(id=row["id"], created_at=row["created_at"], record=json.loads(row["record"]), updated_at=row["updated_at"])
+        for row in rows
+    ]
+
+
+@app.put("/me/diagnoses/{diagnosis_id}", response_model=StoredDiagnosis)
+async def save_stored_diagnosis(
+    diagnosis_id: str,
+    diagnosis: StoredDiagnosis,
+    user: sqlite3.Row = Depends(get_current_user),
+    db: sqlite3.Connection = Depends(get_db),
+):
+    """Create or replace one of the signed-in user's diagnoses."""
+    if not DIAGNOSIS_ID_PATTERN.match(diagnosis_id):
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, "Invalid diagnosis ID.")
+    if diagnosis.id != diagnosis_id:
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, "id in the body does not match the URL.")
+    record = json.dumps(diagnosis.record, ensure_ascii=False)
+    if len(record.encode("utf-8")) > MAX_STORED_DIAGNOSIS_BYTES:
+        raise ApiError(400, ErrorCode.INVALID_REQUEST, "Diagnosis record is too large.")
+    diagnosis.updated_at = time.time()
+    with db:
+        db.execute(
+            "INSERT OR REPLACE INTO diagnoses (user_id, id, created_at, record, updated_at) VALUES (?, ?, ?, ?, ?)",
+            (user["id"], diagnosis_id, diagnosis.created_at, record, diagnosis.updated_at),
+        )
+    return diagnosis
+
+
+@app.delete("/me/diagnoses/{diagnosis_id}", status_code=204)
+async def delete_stored_diagnosis(
+    diagnosis_id: str,
+    user: sqlite3.Row = Depends(get_current_user),
+    db: sqlite3.Connection = Depends(get_db),
+):
+    """Delete one of the signed-in user's diagnoses and its chat session, if they exist."""
+    with db:
+        db.execute("DELETE FROM diagnoses WHERE user_id = ? AND id = ?", (user["id"], diagnosis_id))
+        db.execute("DELETE FROM chat_sessions WHERE user_id = ? AND diagnosis_id = ?", (user["id"], diagnosis_id))
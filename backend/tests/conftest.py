@@ -0,0 +1,30 @@
+"""Shared setup for the backend tests.
+
+Usage (from backend/): python -m pytest
+The server module loads the TFLite models on import, so models/ must contain them as for running the server.
+"""
+import os
+import sys
+
+BACKEND_DIR = os.path.dirname(os.path.dirname(os.path.abspath(__file__)))
+os.chdir(BACKEND_DIR)
+sys.path.insert(0, BACKEND_DIR)
+# The LLM client needs a key to be created; no test calls it.
+os.environ.setdefault("GOOGLE_API_KEY", "test-key")
+
+import pytest
+from fastapi.testclient import TestClient
+
+import server
+
+
+@pytest.fixture(autouse=True)
+def database(tmp_path, monkeypatch):
+    """A fresh SQLite database per test, so tests never touch data/agrolens.db."""
+    monkeypatch.setattr(server, "DATABASE_PATH", str(tmp_path / "agrolens.db"))
+    server.init_database()
+
+
+@pytest.fixture
+def client():
+    return TestClient(server.app)
@@ -0,0 +1,122 @@
+import time
+
+import jwt
+import pytest
+from fastapi.testclient import TestClient
+
+import server
+
+
+def register(client, username="farmer@example.com", password="correct horse"):
+    response = client.post("/auth/register", json={"username": username, "password": password})
+    assert response.status_code == 201
+    return response.json()
+
+
+def bearer(token):
+    return {"Authorization": f"Bearer {token}"}
+
+
+def test_password_hash_round_trip():
+    stored = server.hash_password("correct horse")
+    assert stored.startswith("pbkdf2_sha256$")
+    assert server.verify_password("correct horse", stored)
+    assert not server.verify_password("wrong horse", stored)
+    assert stored != server.hash_password("correct horse")
+
+
+@pytest.mark.parametrize("stored", ["", "not-a-hash", "pbkdf2_sha256$1000$zz$00"])
+def test_verify_password_rejects_malformed_hashes(stored):
+    assert not server.verify_password("correct horse", stored)
+
+
+@pytest.mark.parametrize("username, expected", [
+    ("  Farmer@Example.com ", "farmer@example.com"),
+    ("+919876543210", "+919876543210"),
+])
+def test_normalize_username(username, expected):
+    assert server.normalize_username(username) == expected
+
+
+@pytest.mark.parametrize("username", ["", "ab", "farmer name", "x" * 65])
+def test_normalize_username_rejects_other_names(username):
+    with pytest.raises(server.ApiError) as error:
+        server.normalize_username(username)
+    assert error.value.code == server.ErrorCode.INVALID_REQUEST
+
+
+def test_access_token_carries_user_and_expiry():
+    token, expires_at = server.create_access_token("user-1")
+    claims = jwt.decode(token, server.JWT_SECRET, algorithms=[server.JWT_ALGORITHM])
+    assert claims["sub"] == "user-1"
+    assert claims["exp"] == expires_at
+    assert expires_at > time.time()
+
+
+def test_register_and_login(client):
+    account = register(client)
+    assert account["user"]["username"] == "farmer@example.com"
+
+    response = client.post("/auth/login", json={"username": "FARMER@example.com", "password": "correct horse"})
+    assert response.status_code == 200
+    me = client.get("/me", headers=bearer(response.json()["access_token"]))
+    assert me.json()["id"] == account["user"]["id"]
+
+
+def test_register_rejects_taken_username(client):
+    register(client)
+    response = client.post("/auth/register", json={"username": "Farmer@example.com", "password": "another one"})
+    assert response.status_code == 409
+    assert response.json()["code"] == "USERNAME_TAKEN"
+
+
+@pytest.mark.parametrize("username, password", [
+    ("farmer@example.com", "wrong horse"),
+    ("nobody@example.com", "correct horse"),
+])
+def test_login_rejects_wrong_credentials(client, username, password):
+    register(client)
+    response = client.post("/auth/login", json={"username": username, "password": password})
+    assert response.status_code == 401
+    assert response.json()["code"] == "INVALID_CREDENTIALS"
+
+
+def test_account_endpoints_require_a_valid_token(client, monkeypatch):
+    assert client.get("/me").json()["code"] == "AUTH_REQUIRED"
+    assert client.get("/me", headers=bearer("garbage")).status_code == 401
+
+    monkeypatch.setattr(server, "JWT_EXPIRY_SECONDS", -60)
+    expired = register(client)["access_token"]
+    response = client.get("/me", headers=bearer(expired))
+    assert response.status_code == 401
+    assert response.headers["WWW-Authenticate"] == "Bearer"
+
+
+def test_token_of_a_deleted_user_is_rejected(client):
+    token = register(client)["access_token"]
+    with server.sqlite3.connect(server.DATABASE_PATH) as db:
+        db.execute("DELETE FROM users")
+    assert client.get("/me", headers=bearer(token)).status_code == 401
+
+
+def test_stored_diagnoses_are_per_user(client):
+    alice = bearer(register(client, "alice@example.com")["access_token"])
+    bob = bearer(register(client, "bob@example.com")["access_token"])
+    diagnosis = {"id": "scan-1", "created_at": 1000, "record": {"id": "scan-1", "tag": "Row 3"}}
+
+    assert client.put("/me/diagnoses/scan-1", json=diagnosis, headers=alice).status_code == 200
+    assert [item["id"] for item in client.get("/me/diagnoses", headers=alice).json()] == ["scan-1"]
+    assert client.get("/me/diagnoses", headers=bob).json() == []
+
+    assert client.delete("/me/diagnoses/scan-1", headers=bob).status_code == 204
+    assert len(client.get("/me/diagnoses", headers=alice).json()) == 1
+    assert client.delete("/me/diagnoses/scan-1", headers=alice).status_code == 204
+    assert client.get("/me/diagnoses", headers=alice).json() == []
+
+
+def test_database_is_created_on_startup(tmp_path, monkeypatch):
+    path = tmp_path / "startup" / "agrolens.db"
+    monkeypatch.setattr(server, "DATABASE_PATH", str(path))
+    assert not path.exists()
+    with TestClient(server.app):
+        assert path.exists()
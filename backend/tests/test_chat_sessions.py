@@ -0,0 +1,54 @@
+import pytest
+
+import server
+from test_auth import bearer, register
+
+KEY = "k" * 32
+OTHER_KEY = "o" * 32
+
+
+@pytest.fixture(autouse=True)
+def sessions_dir(tmp_path, monkeypatch):
+    monkeypatch.setattr(server, "CHAT_SESSIONS_DIR", str(tmp_path / "chat_sessions"))
+
+
+def session(diagnosis_id="diagnosis-1", messages=None):
+    return {"diagnosis_id": diagnosis_id, "messages": messages or [{"role": "user", "content": "Is it spreading?"}]}
+
+
+def save(client, headers, body=None):
+    return client.put("/chat_sessions/diagnosis-1", json=body or session(), headers=headers)
+
+
+def test_anonymous_sessions_need_a_key(client):
+    response = save(client, {})
+    assert response.status_code == 401
+    assert response.json()["code"] == "AUTH_REQUIRED"
+    assert save(client, {"X-Chat-Session-Key": "too-short"}).status_code == 400
+
+
+def test_anonymous_sessions_are_only_visible_with_their_key(client):
+    assert save(client, {"X-Chat-Session-Key": KEY}).status_code == 200
+
+    assert client.get("/chat_sessions/diagnosis-1", headers={"X-Chat-Session-Key": KEY}).status_code == 200
+    assert client.get("/chat_sessions/diagnosis-1", headers={"X-Chat-Session-Key": OTHER_KEY}).status_code == 404
+
+    client.delete("/chat_sessions/diagnosis-1", headers={"X-Chat-Session-Key": OTHER_KEY})
+    assert client.get("/chat_sessions/diagnosis-1", headers={"X-Chat-Session-Key": KEY}).status_code == 200
+
+
+def test_signed_in_sessions_ignore_the_key(client):
+    token = register(client)["access_token"]
+    assert save(client, bearer(token)).status_code == 200
+    assert client.get("/chat_sessions/diagnosis-1", headers={"X-Chat-Session-Key": KEY}).status_code == 404
+    assert client.get("/chat_sessions/diagnosis-1", headers=bearer(token)).status_code == 200
+
+
+@pytest.mark.parametrize("messages", [
+    [{"role": "user", "content": "hi"}] * (server.MAX_CHAT_SESSION_MESSAGES + 1),
+    [{"role": "user", "content": "x" * (server.MAX_CHAT_MESSAGE_LENGTH + 1)}],
+])
+def test_oversized_sessions_are_rejected(client, messages):
+    response = save(client, {"X-Chat-Session-Key": KEY}, session(messages=messages))
+    assert response.status_code == 422
+    assert response.json()["code"] == "VALIDATION_ERROR"
@@ -0,0 +1,41 @@
+import asyncio
+import io
+
+import numpy as np
+from PIL import Image
+
+import server
+
+
+def leaf_png():
+    image = Image.new("RGB", (300, 200), (60, 140, 50))
+    image.paste((120, 90, 40), (100, 60, 160, 120))
+    buffer = io.BytesIO()
+    image.save(buffer, format="PNG")
+    return buffer.getvalue()
+
+
+def first_label():
+    return server.get_class_names()["0"]
+
+
+def test_model_and_llm_endpoints_do_not_block_the_event_loop():
+    # Sync endpoints run in the thread pool; an async one would run ~50 inferences or a Gemini call on the event loop.
+    for endpoint in (server.detect_disease, server.heatmap, server.debug_inference, server.treatment):
+        assert not asyncio.iscoroutinefunction(endpoint)
+
+
+def test_heatmap_covers_the_image(client):
+    response = client.post("/heatmap", params={"disease": first_label()}, files={"file": ("leaf.png", leaf_png(), "image/png")})
+    assert response.status_code == 200
+    grid = np.array(response.json()["grid"])
+    cells = 224 // server.OCCLUSION_STRIDE
+    assert grid.shape == (cells, cells)
+    assert grid.min() >= 0 and grid.max() <= 1
+
+
+def test_heatmap_rejects_unknown_classes(client):
+    response = client.post("/heatmap", params={"disease": "Tomato___Not_a_disease"}, files={"file": ("leaf.png", leaf_png(), "image/png")})
+    assert response.status_code == 400
+    assert response.json()["code"] == "INVALID_REQUEST"
+
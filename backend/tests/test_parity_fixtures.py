@@ -0,0 +1,19 @@
+"""The frontend checks on-device diagnosis against these fixtures; they must still describe what the server does."""
+import json
+import os
+
+from scripts.generate_parity_fixtures import FIXTURES_DIR, ranking_fixtures, resize_fixtures
+
+
+def load(name):
+    with open(os.path.join(FIXTURES_DIR, name), encoding="utf-8") as f:
+        return json.load(f)
+
+
+def test_resize_fixtures_match_pillow():
+    assert resize_fixtures() == load("pillow_resize.json"), "Regenerate with scripts/generate_parity_fixtures.py"
+
+
+def test_ranking_fixtures_match_the_server():
+    assert ranking_fixtures() == load("ranking.json"), "Regenerate with scripts/generate_parity_fixtures.py"
+
@@ -0,0 +1,51 @@
+import numpy as np
+import pytest
+
+import server
+
+GREEN = (60, 140, 50)
+BROWN = (120, 90, 40)
+SOIL = (140, 100, 60)
+GREY = (128, 128, 128)
+BLACK = (20, 15, 10)
+
+
+def image(background, leaf=None, lesions=()):
+    """224x224 RGB with a 120x100 leaf at the centre; lesions are (colour, (top, left, bottom, right))."""
+    array = np.full((224, 224, 3), background, dtype=np.float32)
+    if leaf:
+        array[62:162, 52:172] = leaf
+    for colour, (top, left, bottom, right) in lesions:
+        array[top:bottom, left:right] = colour
+    return array
+
+
+@pytest.mark.parametrize("background", [GREY, SOIL])
+def test_lesion_share_is_measured_on_the_leaf_only(background):
+    # 40x30 lesion on a 120x100 leaf: 10% of the leaf, whatever the leaf lies on.
+    severity = server.estimate_severity(image(background, GREEN, [(BROWN, (90, 90, 120, 130))]))
+    assert severity.affected_percent == pytest.approx(10, abs=0.1)
+    assert severity.grade == "mild"
+
+
+def test_healthy_leaf_on_soil_is_trace():
+    severity = server.estimate_severity(image(SOIL, GREEN))
+    assert severity.affected_percent == 0
+    assert severity.grade == "trace"
+
+
+def test_lesions_at_the_leaf_edge_and_dark_lesions_count():
+    # A brown bite out of the leaf's left edge and a black rot spot, each 20x30 (5% of the leaf).
+    severity = server.estimate_severity(image(SOIL, GREEN, [(BROWN, (100, 52, 120, 82)), (BLACK, (130, 120, 150, 150))]))
+    assert severity.affected_percent == pytest.approx(10, abs=0.1)
+
+
+def test_leaf_without_green_tissue_falls_back_to_the_plant_mask():
+    severity = server.estimate_severity(image(GREY, BROWN))
+    assert severity.affected_percent == 100
+    assert severity.grade == "severe"
+
+
+def test_no_leaf_gives_no_estimate():
+    assert server.estimate_severity(image(GREY)) is None
+    assert server.estimate_severity(image(GREY, lesions=[(GREEN, (0, 0, 10, 10))])) is None
@@ -0,0 +1,120 @@
+import threading
+import time
+from collections import defaultdict, deque
+
+import pytest
+
+import server
+from scripts.openweather_stub import make_server
+
+
+@pytest.fixture
+def weather_stub(monkeypatch):
+    """Points the weather proxy at a local OpenWeather stub with empty caches and rate limits."""
+    stub = make_server(0)
+    thread = threading.Thread(target=stub.serve_forever, daemon=True)
+    thread.start()
+    base_url = f"http://127.0.0.1:{stub.server_address[1]}"
+    monkeypatch.setattr(server, "OPEN_WEATHER_API_KEY", "stub")
+    monkeypatch.setattr(server, "OPEN_WEATHER_BASE_URL", f"{base_url}/data/2.5")
+    monkeypatch.setattr(server, "OPEN_WEATHER_GEO_URL", f"{base_url}/geo/1.0")
+    monkeypatch.setattr(server, "weather_cache", {})
+    monkeypatch.setattr(server, "weather_requests", defaultdict(deque))
+    yield base_url
+    stub.shutdown()
+    stub.server_close()
+
+
+def test_forecast_is_normalized_from_the_provider(client, weather_stub):
+    response = client.get("/weather", params={"lat": 16.3067, "lon": 80.4365})
+
+    assert response.status_code == 200
+    forecast = response.json()
+    assert (forecast["latitude"], forecast["longitude"]) == (16.31, 80.44)
+    assert forecast["location_name"] == "Stub Farm"
+    assert len(forecast["hourly"]) == 40
+    first = forecast["hourly"][0]
+    assert first["wind_speed"] == pytest.approx(2.5 * server.MS_TO_KMH)
+    assert first["condition"] == "clear sky"
+    assert any(slot["rain"] > 0 for slot in forecast["hourly"])
+
+
+def test_forecast_is_cached_per_grid_cell(client, weather_stub):
+    first = client.get("/weather", params={"lat": 16.3067, "lon": 80.4365}).json()
+    second = client.get("/weather", params={"lat": 16.3071, "lon": 80.4402}).json()
+
+    assert second["fetched_at"] == first["fetched_at"]
+
+
+def test_geocode_returns_matching_places(client, weather_stub):
+    response = client.get("/geocode", params={"q": "gunt"})
+
+    assert response.status_code == 200
+    assert [place["name"] for place in response.json()] == ["Guntur"]
+
+
+def test_missing_key_is_reported(client, weather_stub, monkeypatch):
+    monkeypatch.setattr(server, "OPEN_WEATHER_API_KEY", None)
+
+    response = client.get("/weather", params={"lat": 16.3, "lon": 80.4})
+
+    assert response.status_code == 503
+    assert response.json()["code"] == "WEATHER_NOT_CONFIGURED"
+
+
+def test_unreachable_provider_is_reported(client, weather_stub, monkeypatch):
+    monkeypatch.setattr(server, "OPEN_WEATHER_BASE_URL", "http://127.0.0.1:9")
+
+    response = client.get("/weather", params={"lat": 16.3, "lon": 80.4})
+
+    assert response.status_code == 502
+    assert response.json()["code"] == "WEATHER_UNAVAILABLE"
+
+
+def test_rate_limit_is_per_forwarded_client(client, weather_stub, monkeypatch):
+    monkeypatch.setattr(server, "WEATHER_RATE_LIMIT_PER_MINUTE", 2)
+    monkeypatch.setattr(server, "TRUSTED_PROXY_COUNT", 1)
+    farmer = {"X-Forwarded-For": "203.0.113.7"}
+
+    assert client.get("/geocode", params={"q": "gunt"}, headers=farmer).status_code == 200
+    assert client.get("/weather", params={"lat": 16.3, "lon": 80.4}, headers=farmer).status_code == 200
+    limited = client.get("/geocode", params={"q": "gunt"}, headers=farmer)
+    other = client.get("/geocode", params={"q": "gunt"}, headers={"X-Forwarded-For": "198.51.100.2"})
+
+    assert limited.status_code == 429
+    assert limited.json()["code"] == "RATE_LIMITED"
+    assert int(limited.headers["Retry-After"]) > 0
+    assert other.status_code == 200
+
+
+def test_forwarded_for_is_ignored_without_trusted_proxies(client, weather_stub, monkeypatch):
+    monkeypatch.setattr(server, "WEATHER_RATE_LIMIT_PER_MINUTE", 1)
+    monkeypatch.setattr(server, "TRUSTED_PROXY_COUNT", 0)
+
+    assert client.get("/geocode", params={"q": "gunt"}, headers={"X-Forwarded-For": "203.0.113.7"}).status_code == 200
+    assert client.get("/geocode", params={"q": "gunt"}, headers={"X-Forwarded-For": "198.51.100.2"}).status_code == 429
+
+
+def test_client_is_read_from_the_right_of_forwarded_for(monkeypatch):
+    monkeypatch.setattr(server, "TRUSTED_PROXY_COUNT", 1)
+    request = server.Request({
+        "type": "http",
+        "headers": [(b"x-forwarded-for", b"10.0.0.1, 203.0.113.7")],
+        "client": ("172.16.0.2", 443),
+    })
+
+    # The left entry is whatever the caller sent; only the one the proxy appended can be trusted.
+    assert server.client_address(request) == "203.0.113.7"
+
+
+def test_idle_clients_are_forgotten(monkeypatch):
+    now = time.time()
+    monkeypatch.setattr(server, "weather_requests", defaultdict(deque, {
+        "idle": deque([now - 120]),
+        "active": deque([now - 5]),
+    }))
+    monkeypatch.setattr(server, "weather_requests_swept_at", 0.0)
+
+    server.sweep_weather_requests(now)
+
+    assert list(server.weather_requests) == ["active"]
@@ -1,26 +1,133 @@
-import React, { useState } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import Header from './components/Header';
 import DiseaseDetector from './components/DiseaseDetector';
 import WeatherForecast from './components/WeatherForecast';
+import DiagnosisHistory from './components/DiagnosisHistory';
+import DiseaseRiskPanel from './components/DiseaseRiskPanel';
 import { TRANSLATIONS } from './constants';
-import { Language } from './types';
+import { syncOutbox, syncPendingTreatments } from './services/outboxService';
+import { getSession, onSessionChange } from './services/authService';
+import { syncDiagnoses } from './services/diagnosisSyncService';
+import { syncChatSessions } from './services/chatSessionService';
+import { createPlot, deletePlot, getActivePlotId, listPlots, setActivePlotId, updatePlot } from './services/plotService';
+import { AuthSession, DiagnosisRecord, FarmPlot, GeoLocation, Language, WeatherInfo } from './types';
 
 const App: React.FC = () => {
   const [language, setLanguage] = useState<Language>('en');
+  const [openedRecord, setOpenedRecord] = useState<DiagnosisRecord | null>(null);
+  const [historyVersion, setHistoryVersion] = useState<number>(0);
+  const [forecast, setForecast] = useState<WeatherInfo[]>([]);
+  const [plots, setPlots] = useState<FarmPlot[]>([]);
+  const [activePlotId, setActivePlot] = useState<string | null>(getActivePlotId);
+  const [plotsLoaded, setPlotsLoaded] = useState<boolean>(false);
+  const [session, setSession] = useState<AuthSession | null>(getSession);
 
   const t = TRANSLATIONS[language];
 
+  const handleHistoryChange = useCallback(() => setHistoryVersion(v => v + 1), []);
+
+  // Switching accounts switches whose history is shown.
+  useEffect(() => onSessionChange(next => {
+    setSession(next);
+    handleHistoryChange();
+  }), [handleHistoryChange]);
+
+  // Send detections queued while offline, fetch treatments for on-device diagnoses, sync the account's
+  // history and resend chat sessions that did not reach the backend, on load, on sign-in and whenever the
+  // connection comes back.
+  useEffect(() => {
+    const syncAccount = async (): Promise<number> => {
+      try {
+        return await syncDiagnoses();
+      } catch (err) {
+        console.error('Could not sync diagnoses with the account:', err);
+        return 0;
+      }
+    };
+    const sync = async () => {
+      const changed = await syncOutbox() + await syncPendingTreatments() + await syncAccount();
+      if (changed > 0) handleHistoryChange();
+      await syncChatSessions();
+    };
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [handleHistoryChange, session]);
+
+  useEffect(() => {
+    listPlots()
+      .then(setPlots)
+      .catch(err => console.error('Could not load farm plots:', err))
+      .finally(() => setPlotsLoaded(true));
+  }, []);
+
+  const activePlot = plots.find(p => p.id === activePlotId) ?? null;
+
+  const handleSelectPlot = (id: string | null) => {
+    setActivePlot(id);
+    setActivePlotId(id);
+  };
+
+  const handleAddPlot = async (name: string, location: GeoLocation, crops: string[]) => {
+    try {
+      const plot = await createPlot(name, location, crops);
+      setPlots(prev => [...prev, plot].sort((a, b) => a.name.localeCompare(b.name)));
+      handleSelectPlot(plot.id);
+    } catch (err) {
+      console.error('Could not save farm plot:', err);
+    }
+  };
+
+  const handleUpdatePlot = async (plot: FarmPlot) => {
+    setPlots(prev => prev.map(p => (p.id === plot.id ? plot : p)));
+    try {
+      await updatePlot(plot);
+    } catch (err) {
+      console.error('Could not update farm plot:', err);
+    }
+  };
+
+  const handleDeletePlot = async (plot: FarmPlot) => {
+    if (!window.confirm(t.confirmDeletePlot.replace('{plot}', plot.name))) return;
+    try {
+      await deletePlot(plot.id);
+      setPlots(prev => prev.filter(p => p.id !== plot.id));
+      if (activePlotId === plot.id) handleSelectPlot(null);
+    } catch (err) {
+      console.error('Could not delete farm plot:', err);
+    }
+  };
+
+  const handleOpenRecord = (record: DiagnosisRecord) => {
+    // Copy so reopening the same entry twice still triggers the detector's effect.
+    setOpenedRecord({ ...record });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+
   return (
     <div className="min-h-screen bg-brand-background text-brand-text font-sans p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto">
-        <Header language={language} setLanguage={setLanguage} t={t} />
+        <Header language={language} setLanguage={setLanguage} t={t} session={session} />
         <main className="mt-8">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-2">
-              <DiseaseDetector t={t} language={language} />
+              <DiseaseDetector t={t} language={language} openedRecord={openedRecord} onHistoryChange={handleHistoryChange} forecast={forecast} />
             </div>
             <div className="flex flex-col gap-8">
-              <WeatherForecast t={t} language={language} />
+              {/* Wait for the saved plots so a selected plot's weather isn't preceded by a geolocation prompt. */}
+              {plotsLoaded && <WeatherForecast
+                t={t}
+                language={language}
+                onForecast={setForecast}
+                plots={plots}
+                activePlot={activePlot}
+                onSelectPlot={handleSelectPlot}
+                onAddPlot={handleAddPlot}
+                onDeletePlot={handleDeletePlot}
+              />}
+              <DiseaseRiskPanel t={t} forecast={forecast} plot={activePlot} onPlotChange={handleUpdatePlot} />
+              <DiagnosisHistory t={t} language={language} refreshKey={historyVersion} onOpen={handleOpenRecord} />
             </div>
           </div>
         </main>
@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import AlertTriangleIcon from './icons/AlertTriangleIcon';
+import { detectDisease } from '../services/geminiService';
+import { getErrorMessage } from '../services/apiClient';
+import { formatDiagnosisName, saveDiagnosis } from '../services/historyService';
+import { runWithConcurrency } from '../services/batchService';
+import { BATCH_CONCURRENCY } from '../constants';
+import { BatchItem, DiagnosisRecord, Language, WeatherSnapshot } from '../types';
+
+interface BatchDetectorProps {
+  t: Record<string, string>;
+  language: Language;
+  files: File[];
+  // Crop hint applied to every image in the batch.
+  crop?: string;
+  // Today's weather, saved with every scan of the batch.
+  weather?: WeatherSnapshot;
+  onClose: () => void;
+  onOpenRecord: (record: DiagnosisRecord) => void;
+  onHistoryChange?: () => void;
+}
+
+const BatchDetector: React.FC<BatchDetectorProps> = ({ t, language, files, crop, weather, onClose, onOpenRecord, onHistoryChange }) => {
+  const [items, setItems] = useState<BatchItem[]>(() => files.map(file => ({
+    id: crypto.randomUUID(),
+    file,
+    previewUrl: URL.createObjectURL(file),
+    status: 'queued',
+  })));
+  const [running, setRunning] = useState<boolean>(false);
+  const started = useRef(false);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const processItem = useCallback(async (item: BatchItem) => {
+    updateItem(item.id, { status: 'processing', error: undefined });
+    try {
+      const result = await detectDisease(item.file, language, t, crop);
+      let record: DiagnosisRecord | undefined;
+      try {
+        record = await saveDiagnosis(item.file, result, language, undefined, weather);
+      } catch (err) {
+        console.error('Could not save diagnosis to history:', err);
+      }
+      updateItem(item.id, { status: 'done', result, record });
+    } catch (err) {
+      updateItem(item.id, { status: 'failed', error: getErrorMessage(err, t) });
+    }
+  }, [language, t, crop, weather]);
+
+  const runQueue = useCallback(async (toRun: BatchItem[]) => {
+    setRunning(true);
+    try {
+      await runWithConcurrency(toRun, BATCH_CONCURRENCY, processItem);
+    } finally {
+      setRunning(false);
+      onHistoryChange?.();
+    }
+  }, [processItem, onHistoryChange]);
+
+  useEffect(() => {
+    // Guard against the double effect run in StrictMode so each image is only sent once.
+    if (started.current) return;
+    started.current = true;
+    runQueue(items);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const retryItem = (item: BatchItem) => runQueue([item]);
+  const retryFailed = () => runQueue(items.filter(item => item.status === 'failed'));
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+
+  const summary = useMemo(() => {
+    const diagnosed = items.filter(item => item.status === 'done' && item.result?.isCropDetected);
+    const healthy = diagnosed.filter(item => item.result!.isHealthy).length;
+    // Count by class label, but show the localized name.
+    const counts = new Map<string, number>();
+    const names = new Map<string, string>();
+    diagnosed.forEach(item => {
+      counts.set(item.result!.diseaseName, (counts.get(item.result!.diseaseName) || 0) + 1);
+      names.set(item.result!.diseaseName, formatDiagnosisName(item.result!));
+    });
+    return {
+      healthy,
+      infected: diagnosed.length - healthy,
+      total: diagnosed.length,
+      diseaseCounts: Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([label, count]): [string, number] => [names.get(label)!, count]),
+    };
+  }, [items]);
+
+  const statusLabel: Record<BatchItem['status'], string> = {
+    queued: t.statusQueued,
+    processing: t.statusProcessing,
+    done: t.statusDone,
+    failed: t.statusFailed,
+  };
+
+  const healthyPercent = summary.total > 0 ? (summary.healthy / summary.total) * 100 : 0;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <h3 className="text-2xl font-bold font-serif text-brand-green-dark">{t.batchResults}</h3>
+        <button onClick={onClose} disabled={running} className="text-sm font-semibold text-brand-green hover:text-brand-green-dark transition-colors disabled:opacity-50">{t.detectAnother}</button>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm mb-1">
+          <span className="text-brand-text-light">
+            {t.batchProgress.replace('{done}', String(finished)).replace('{total}', String(items.length))}
+          </span>
+          {failedCount > 0 && !running && (
+            <button onClick={retryFailed} className="text-sm font-semibold text-brand-green hover:text-brand-green-dark">{t.retryFailed}</button>
+          )}
+        </div>
+        <div className="w-full h-2 bg-brand-brown-light rounded-full overflow-hidden">
+          <div className="h-full bg-brand-green rounded-full transition-all duration-300" style={{ width: `${(finished / items.length) * 100}%` }} />
+        </div>
+      </div>
+
+      {summary.total > 0 && (
+        <div className="p-3 rounded-md bg-brand-brown-light space-y-3">
+          <h4 className="font-semibold text-brand-brown-dark font-serif">{t.batchSummary}</h4>
+          <div>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-brand-green-dark font-semibold">{t.healthy}: {summary.healthy}</span>
+              <span className="text-brand-brown-dark font-semibold">{t.infected}: {summary.infected}</span>
+            </div>
+            <div className="w-full h-2 bg-brand-brown rounded-full overflow-hidden" title={t.healthyRatio}>
+              <div className="h-full bg-brand-green" style={{ width: `${healthyPercent}%` }} />
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-semibold text-brand-text mb-1">{t.diseaseCounts}</p>
+            <ul className="text-sm text-brand-text-light space-y-1">
+              {summary.diseaseCounts.map(([disease, count]) => (
+                <li key={disease} className="flex justify-between gap-3">
+                  <span className="truncate">{disease}</span>
+                  <span className="font-semibold tabular-nums">{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-brand-text-light border-b border-brand-brown-light">
+              <th className="py-2 pr-2 font-semibold">{t.image}</th>
+              <th className="py-2 pr-2 font-semibold">{t.result}</th>
+              <th className="py-2 pr-2 font-semibold text-right">{t.confidence}</th>
+              <th className="py-2 font-semibold text-right">{t.status}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className="border-b border-brand-brown-light/60 align-middle">
+                <td className="py-2 pr-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <img src={item.previewUrl} alt={item.file.name} className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                    <span className="truncate max-w-[8rem] text-brand-text-light" title={item.file.name}>{item.file.name}</span>
+                  </div>
+                </td>
+                <td className="py-2 pr-2">
+                  {item.status === 'done' && item.result && (
+                    item.record ? (
+                      <button onClick={() => onOpenRecord(item.record!)} className="text-left font-semibold text-brand-green-dark hover:underline">
+                        {formatDiagnosisName(item.result)}
+                      </button>
+                    ) : (
+                      <span className="font-semibold text-brand-text">{formatDiagnosisName(item.result)}</span>
+                    )
+                  )}
+                  {item.status === 'failed' && (
+                    <span className="flex items-center gap-1 text-red-600" title={item.error}>
+                      <AlertTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                      <span className="truncate max-w-[12rem]">{item.error}</span>
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-2 text-right tabular-nums text-brand-text-light">
+                  {item.result ? `${item.result.confidence.toFixed(1)}%` : '–'}
+                </td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  {item.status === 'processing' && (
+                    <span className="inline-block w-4 h-4 mr-1 align-middle border-2 border-brand-green border-t-transparent rounded-full animate-spin"></span>
+                  )}
+                  {item.status === 'failed' && !running ? (
+                    <button onClick={() => retryItem(item)} className="font-semibold text-brand-green hover:text-brand-green-dark">{t.retry}</button>
+                  ) : (
+                    <span className={item.status === 'failed' ? 'text-red-600' : 'text-brand-text-light'}>{statusLabel[item.status]}</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchDetector;
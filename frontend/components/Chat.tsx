@@ -1,35 +1,93 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Language, ChatMessage, DiseaseDetectionResult } from '../types';
-import { sendMessageToChat } from '../services/geminiService';
+import { Language, ChatMessage, DiseaseDetectionResult, CropStage, GeoLocation } from '../types';
+import { streamChatMessage } from '../services/geminiService';
+import { getErrorMessage } from '../services/apiClient';
+import { formatDiagnosisName } from '../services/historyService';
+import { loadChatSession, saveChatSession, buildTranscript, downloadTextFile } from '../services/chatSessionService';
 import ChatIcon from './icons/ChatIcon';
 import SendIcon from './icons/SendIcon';
+import StopIcon from './icons/StopIcon';
+import FileTextIcon from './icons/FileTextIcon';
 
 interface ChatProps {
   t: Record<string, string>;
   language: Language;
   analysisResult: DiseaseDetectionResult;
+  // History entry the conversation belongs to; the session is saved under it and resumed when it is reopened.
+  diagnosisId?: string;
+  // Where the diagnosis was made, if known; passed to the assistant as context.
+  location?: GeoLocation;
 }
 
-const Chat: React.FC<ChatProps> = ({ t, language, analysisResult }) => {
+const CROP_STAGES: CropStage[] = ['seedling', 'vegetative', 'flowering', 'fruiting', 'harvest'];
+
+const hasUserMessages = (messages: ChatMessage[]) => messages.some(m => m.role === 'user');
+
+const Chat: React.FC<ChatProps> = ({ t, language, analysisResult, diagnosisId, location }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [cropStage, setCropStage] = useState<CropStage | ''>('');
+  // True once the first token of the current reply has arrived; until then the typing indicator is shown.
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Shown under the conversation but kept out of it, so it is neither saved nor sent to the assistant as history.
+  const [error, setError] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  
+  const abortRef = useRef<AbortController | null>(null);
+  const previousDiagnosisId = useRef<string | undefined>(diagnosisId);
+
+  const greeting = t.chatGreeting.replace('{diseaseName}', formatDiagnosisName(analysisResult));
+
+  // Resume the saved conversation for this diagnosis, or start with a greeting.
   useEffect(() => {
-    const greeting = t.chatGreeting.replace('{diseaseName}', analysisResult.diseaseName);
-    const initialMessage: ChatMessage = {
-      role: 'model',
-      text: greeting
-    };
-    setMessages([initialMessage]);
-  }, [language, analysisResult, t.chatGreeting]);
+    // The diagnosis we are already chatting about has just been saved to history: keep the conversation.
+    const justSaved = previousDiagnosisId.current === undefined && diagnosisId !== undefined;
+    previousDiagnosisId.current = diagnosisId;
+    if (justSaved) return;
+
+    abortRef.current?.abort();
+    setMessages([{ role: 'model', text: greeting }]);
+    setCropStage('');
+    setError(null);
+    if (!diagnosisId) return;
+
+    let cancelled = false;
+    loadChatSession(diagnosisId)
+      .then(session => {
+        if (cancelled || !session || !hasUserMessages(session.messages)) return;
+        setMessages(session.messages);
+        setCropStage(session.cropStage || '');
+      })
+      .catch(err => console.error('Could not load chat session:', err));
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [diagnosisId]);
+
+  // Keep the greeting in the current language until the user has said something.
+  useEffect(() => {
+    setMessages(prev => (hasUserMessages(prev) ? prev : [{ role: 'model', text: greeting }]));
+  }, [greeting]);
+
+  // Save once a reply has finished, rather than on every streamed token.
+  useEffect(() => {
+    if (!diagnosisId || isLoading || !hasUserMessages(messages)) return;
+    saveChatSession({ diagnosisId, messages, cropStage: cropStage || undefined, updatedAt: Date.now() })
+      .catch(err => console.error('Could not save chat session:', err));
+  }, [diagnosisId, messages, cropStage, isLoading]);
+
+  const handleExport = () => {
+    const transcript = buildTranscript(messages, analysisResult, language, t);
+    const date = new Date().toISOString().split('T')[0];
+    downloadTextFile(`agrolens-chat-${date}.txt`, transcript);
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  useEffect(scrollToBottom, [messages]);
+  useEffect(scrollToBottom, [messages, error]);
 
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isLoading) return;
@@ -39,28 +97,69 @@ const Chat: React.FC<ChatProps> = ({ t, language, analysisResult }) => {
     setMessages(newMessages);
     setInputValue('');
     setIsLoading(true);
+    setError(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let started = false;
 
     try {
       const history = newMessages.slice(0, -1);
-      const modelResponseText = await sendMessageToChat(userMessage.text, history, t);
-      const modelMessage: ChatMessage = { role: 'model', text: modelResponseText };
-      setMessages(prev => [...prev, modelMessage]);
-    } catch (error) {
-      console.error("Chat error:", error);
-      const errorMessageText = error instanceof Error ? error.message : t.chatError;
-      const errorMessage: ChatMessage = { role: 'model', text: errorMessageText };
-      setMessages(prev => [...prev, errorMessage]);
+      await streamChatMessage(userMessage.text, history, t, {
+        signal: controller.signal,
+        diagnosis: { result: analysisResult, language, cropStage: cropStage || undefined, location },
+        onToken: (token) => {
+          if (!started) {
+            started = true;
+            setIsStreaming(true);
+            setMessages(prev => [...prev, { role: 'model', text: token }]);
+            return;
+          }
+          setMessages(prev => {
+            const last = prev[prev.length - 1];
+            return [...prev.slice(0, -1), { ...last, text: last.text + token }];
+          });
+        },
+      });
+    } catch (err) {
+      console.error("Chat error:", err);
+      setError(getErrorMessage(err, t, 'chatError'));
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
   return (
     <div className="mt-6 border-t border-brand-brown-dark/20 pt-4 animate-fade-in">
       {/* Header */}
       <header className="flex items-center gap-2 mb-3">
           <ChatIcon className="h-6 w-6 text-brand-green-dark" />
           <h3 className="text-lg font-bold text-brand-green-dark font-serif">{t.agroChat}</h3>
+          <select
+            value={cropStage}
+            onChange={(e) => setCropStage(e.target.value as CropStage | '')}
+            aria-label={t.cropStage}
+            className="ml-auto text-xs bg-brand-green/10 text-brand-green-dark px-3 py-1 rounded-full focus:outline-none focus:ring-2 focus:ring-brand-green"
+          >
+            <option value="">{t.cropStage}</option>
+            {CROP_STAGES.map(stage => (
+              <option key={stage} value={stage}>{t[`cropStage_${stage}`]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={!hasUserMessages(messages)}
+            title={t.exportTranscript}
+            className="p-2 text-brand-green-dark rounded-full hover:bg-brand-green/10 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <FileTextIcon className="w-4 h-4" />
+          </button>
       </header>
 
       {/* Messages */}
@@ -73,7 +172,12 @@ const Chat: React.FC<ChatProps> = ({ t, language, analysisResult }) => {
               </div>
             </div>
           ))}
-          {isLoading && (
+          {error && (
+            <div className="flex justify-start">
+              <p className="max-w-[85%] p-3 rounded-2xl rounded-bl-none bg-red-50 text-red-700 text-sm" style={{ whiteSpace: 'pre-wrap' }}>{error}</p>
+            </div>
+          )}
+          {isLoading && !isStreaming && (
             <div className="flex justify-start items-end gap-2">
               <div className="w-8 h-8 rounded-full bg-brand-green-light flex items-center justify-center flex-shrink-0"><ChatIcon className="w-5 h-5 text-brand-green-dark"/></div>
               <div className="max-w-[85%] p-3 rounded-2xl bg-brand-surface text-brand-text shadow-sm rounded-bl-none">
@@ -100,13 +204,23 @@ const Chat: React.FC<ChatProps> = ({ t, language, analysisResult }) => {
             className="flex-grow px-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-brand-green"
             disabled={isLoading}
           />
-          <button
-            onClick={handleSendMessage}
-            disabled={isLoading || !inputValue.trim()}
-            className="bg-brand-green text-white p-3 rounded-full hover:bg-brand-green-dark disabled:bg-brand-green/50 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-lg hover:-translate-y-px"
-          >
-            <SendIcon className="w-5 h-5" />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              title={t.stopGenerating}
+              className="bg-brand-brown text-white p-3 rounded-full hover:bg-brand-brown-dark transition-all duration-200 hover:shadow-lg hover:-translate-y-px"
+            >
+              <StopIcon className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim()}
+              className="bg-brand-green text-white p-3 rounded-full hover:bg-brand-green-dark disabled:bg-brand-green/50 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-lg hover:-translate-y-px"
+            >
+              <SendIcon className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </footer>
     </div>
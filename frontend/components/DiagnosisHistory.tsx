@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Card from './shared/Card';
+import BookOpenIcon from './icons/BookOpenIcon';
+import XIcon from './icons/XIcon';
+import AlertTriangleIcon from './icons/AlertTriangleIcon';
+import TrendingUpIcon from './icons/TrendingUpIcon';
+import ProgressionTimeline from './ProgressionTimeline';
+import { DiagnosisRecord, Language, OutboxItem } from '../types';
+import { listDiagnoses, deleteDiagnosis, getDiagnosisNames, listTags, splitDiseaseLabel } from '../services/historyService';
+import { listOutbox, removeFromOutbox } from '../services/outboxService';
+
+interface DiagnosisHistoryProps {
+  t: Record<string, string>;
+  language: Language;
+  // Bumped by the parent whenever a diagnosis is saved or queued, so the list reloads.
+  refreshKey: number;
+  onOpen: (record: DiagnosisRecord) => void;
+}
+
+const DiagnosisHistory: React.FC<DiagnosisHistoryProps> = ({ t, language, refreshKey, onOpen }) => {
+  const [records, setRecords] = useState<DiagnosisRecord[]>([]);
+  const [pending, setPending] = useState<OutboxItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cropFilter, setCropFilter] = useState<string>('');
+  const [diseaseFilter, setDiseaseFilter] = useState<string>('');
+  const [tagFilter, setTagFilter] = useState<string>('');
+  const [progressTag, setProgressTag] = useState<string | null>(null);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      const [saved, queued] = await Promise.all([listDiagnoses(), listOutbox()]);
+      setRecords(saved);
+      setPending(queued);
+      setError(null);
+    } catch (err) {
+      console.error('Could not load diagnosis history:', err);
+      setError(t.historyError);
+    } finally {
+      setLoading(false);
+    }
+  }, [t.historyError]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords, refreshKey]);
+
+  const handleDelete = async (record: DiagnosisRecord) => {
+    if (!window.confirm(t.confirmDeleteDiagnosis)) return;
+    try {
+      await deleteDiagnosis(record.id);
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+    } catch (err) {
+      console.error('Could not delete diagnosis:', err);
+      setError(t.historyError);
+    }
+  };
+
+  const handleDiscardPending = async (item: OutboxItem) => {
+    if (!window.confirm(t.confirmDeleteDiagnosis)) return;
+    try {
+      await removeFromOutbox(item.id);
+      setPending(prev => prev.filter(p => p.id !== item.id));
+    } catch (err) {
+      console.error('Could not discard queued detection:', err);
+      setError(t.historyError);
+    }
+  };
+
+  const labelled = useMemo(
+    // Filters use the class label so records saved in different languages group together.
+    () => records.map(record => ({ record, names: getDiagnosisNames(record.result), ...splitDiseaseLabel(record.result.diseaseName) })),
+    [records]
+  );
+
+  const crops = useMemo(() => Array.from(new Set(labelled.map(l => l.crop))).sort(), [labelled]);
+  const diseases = useMemo(
+    () => Array.from(new Set(labelled.filter(l => !cropFilter || l.crop === cropFilter).map(l => l.disease))).sort(),
+    [labelled, cropFilter]
+  );
+
+  const tags = useMemo(() => listTags(records), [records]);
+
+  const visible = labelled.filter(l =>
+    (!cropFilter || l.crop === cropFilter) && (!diseaseFilter || l.disease === diseaseFilter) && (!tagFilter || l.record.tag === tagFilter)
+  );
+
+  const formatDate = (timestamp: number) =>
+    new Intl.DateTimeFormat(language, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(timestamp));
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex flex-col items-center justify-center min-h-[100px] gap-2">
+          <div className="w-8 h-8 border-4 border-brand-green border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-brand-text-light">{t.historyLoading}</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="flex flex-col items-center justify-center text-center gap-3 p-4 bg-red-50 rounded-lg">
+          <AlertTriangleIcon className="w-8 h-8 text-red-500" />
+          <p className="text-red-700 font-medium">{error}</p>
+        </div>
+      );
+    }
+
+    if (records.length === 0 && pending.length === 0) {
+      return <p className="text-brand-text-light text-sm text-center p-4">{t.historyEmpty}</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {pending.length > 0 && (
+          <ul className="space-y-2">
+            {pending.map(item => (
+              <li key={item.id} className="flex items-center gap-3 p-2 bg-brand-brown-light rounded-lg">
+                <img src={item.thumbnail} alt={t.pendingSync} className="w-12 h-12 rounded-md object-cover flex-shrink-0 opacity-75" />
+                <div className="min-w-0 flex-grow">
+                  <p className={`font-semibold text-sm truncate ${item.status === 'failed' ? 'text-red-700' : 'text-brand-brown-dark'}`}>
+                    {item.status === 'failed' ? t.syncFailed : t.pendingSync}
+                  </p>
+                  <p className="text-xs text-brand-text-light truncate" title={item.error}>
+                    {item.status === 'failed' && item.error ? item.error : formatDate(item.createdAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDiscardPending(item)}
+                  title={t.deleteDiagnosis}
+                  className="p-1 text-brand-text-light hover:text-red-600 transition-colors flex-shrink-0"
+                >
+                  <XIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <select
+            value={cropFilter}
+            onChange={(e) => { setCropFilter(e.target.value); setDiseaseFilter(''); }}
+            aria-label={t.filterByCrop}
+            className="flex-1 min-w-0 text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+          >
+            <option value="">{t.allCrops}</option>
+            {crops.map(crop => <option key={crop} value={crop}>{crop}</option>)}
+          </select>
+          <select
+            value={diseaseFilter}
+            onChange={(e) => setDiseaseFilter(e.target.value)}
+            aria-label={t.filterByDisease}
+            className="flex-1 min-w-0 text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+          >
+            <option value="">{t.allDiseases}</option>
+            {diseases.map(disease => <option key={disease} value={disease}>{disease}</option>)}
+          </select>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex gap-2">
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              aria-label={t.filterByTag}
+              className="flex-1 min-w-0 text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+            >
+              <option value="">{t.allTags}</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+            {tagFilter && (
+              <button
+                onClick={() => setProgressTag(tagFilter)}
+                className="flex items-center gap-1.5 text-sm bg-brand-green text-white px-3 py-2 rounded-md hover:bg-brand-green-dark transition-colors flex-shrink-0"
+              >
+                <TrendingUpIcon className="w-4 h-4" />
+                {t.viewProgress}
+              </button>
+            )}
+          </div>
+        )}
+
+        <ul className="space-y-2 max-h-96 overflow-y-auto custom-scrollbar">
+          {visible.map(({ record, names }) => (
+            <li key={record.id} className="flex items-center gap-3 p-2 bg-brand-green-light rounded-lg">
+              <button onClick={() => onOpen(record)} className="flex items-center gap-3 flex-grow min-w-0 text-left" title={t.openDiagnosis}>
+                <img src={record.thumbnail} alt={record.result.diseaseName} className="w-12 h-12 rounded-md object-cover flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-semibold text-brand-text text-sm truncate">{names.disease}</p>
+                  <p className="text-xs text-brand-text-light truncate">
+                    {names.crop} · {formatDate(record.createdAt)}{record.tag && <> · <span className="font-semibold">{record.tag}</span></>}
+                  </p>
+                </div>
+              </button>
+              <button
+                onClick={() => handleDelete(record)}
+                title={t.deleteDiagnosis}
+                className="p-1 text-brand-text-light hover:text-red-600 transition-colors flex-shrink-0"
+              >
+                <XIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <Card title={t.diagnosisHistory} icon={<BookOpenIcon className="w-6 h-6 text-brand-green" />}>
+      {renderContent()}
+      {progressTag && (
+        <ProgressionTimeline t={t} language={language} tag={progressTag} onOpen={onOpen} onClose={() => setProgressTag(null)} />
+      )}
+    </Card>
+  );
+};
+
+export default DiagnosisHistory;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { DiseaseDetectionResult, GeoLocation, Language, WeatherSnapshot } from '../types';
+import { formatDiagnosisName } from '../services/historyService';
+import { describeCondition } from '../services/weatherService';
+import { describeTreatmentSource } from './TreatmentSourceNote';
+
+export interface DiagnosisReportProps {
+  t: Record<string, string>;
+  language: Language;
+  result: DiseaseDetectionResult;
+  image: string;
+  createdAt: number;
+  location?: GeoLocation;
+  // Weather on the day of the scan; omitted for scans saved without it.
+  weather?: WeatherSnapshot;
+}
+
+// Fonts with proper shaping for every supported script; the browser renders the report, so Indic text comes out correctly.
+const REPORT_FONT_FAMILY = "'Inter', 'Noto Sans Devanagari', 'Noto Sans Telugu', 'Noto Sans Tamil', sans-serif";
+
+const ReportSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mt-5">
+    <h2 data-report-block="heading" className="text-lg font-semibold text-brand-green-dark border-b border-brand-brown-light pb-1 mb-2">{title}</h2>
+    {children}
+  </section>
+);
+
+// Static, print-oriented layout of a diagnosis. Rendered off-screen and rasterized into the PDF by reportService,
+// which only starts a new page between elements marked with `data-report-block`.
+const DiagnosisReport: React.FC<DiagnosisReportProps> = ({ t, language, result, image, createdAt, location, weather }) => {
+  const formattedDate = new Intl.DateTimeFormat(language, { dateStyle: 'long', timeStyle: 'short' }).format(new Date(createdAt));
+
+  return (
+    <div lang={language} className="bg-white text-brand-text p-10" style={{ width: '794px', fontFamily: REPORT_FONT_FAMILY }}>
+      <header data-report-block className="flex justify-between items-start border-b-2 border-brand-green pb-4">
+        <div>
+          <p className="text-sm text-brand-text-light">{t.title} – {t.diagnosisReport}</p>
+          <h1 className="text-3xl font-bold text-brand-green-dark mt-1">{formatDiagnosisName(result)}</h1>
+          <p className="text-sm mt-1">
+            <strong>{t.confidence}:</strong> {result.confidence.toFixed(1)}%
+            {result.isUncertain && <span className="text-amber-700"> · {t.uncertainDiagnosis}</span>}
+          </p>
+        </div>
+        <img src={image} alt={formatDiagnosisName(result)} className="w-40 h-40 object-cover rounded-lg border border-brand-brown-light" />
+      </header>
+
+      <table className="mt-4 text-sm">
+        <tbody>
+          <tr data-report-block>
+            <td className="pr-4 py-0.5 font-semibold">{t.reportDate}</td>
+            <td>{formattedDate}</td>
+          </tr>
+          <tr data-report-block>
+            <td className="pr-4 py-0.5 font-semibold">{t.reportLocation}</td>
+            <td>{location ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}` : t.notAvailable}</td>
+          </tr>
+          <tr data-report-block>
+            <td className="pr-4 py-0.5 font-semibold">{t.reportWeather}</td>
+            <td>{weather ? `${weather.temp}°C, ${describeCondition(weather, t)}` : t.notAvailable}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {result.summary && (
+        <ReportSection title={t.summary}>
+          <p data-report-block className="text-sm leading-relaxed">{result.summary}</p>
+        </ReportSection>
+      )}
+
+      {result.causes.length > 0 && (
+        <ReportSection title={t.causes}>
+          <ul className="list-disc pl-5 text-sm space-y-1">
+            {result.causes.map((cause, i) => <li key={i} data-report-block>{cause}</li>)}
+          </ul>
+        </ReportSection>
+      )}
+
+      {result.medicines.length > 0 && (
+        <ReportSection title={t.medicines}>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr data-report-block className="bg-brand-green-light text-left">
+                <th className="p-2 border border-brand-brown-light">{t.medicines}</th>
+                <th className="p-2 border border-brand-brown-light">{t.dosage}</th>
+                <th className="p-2 border border-brand-brown-light">{t.notes}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.medicines.map((med, i) => (
+                <tr key={i} data-report-block className="align-top">
+                  <td className="p-2 border border-brand-brown-light font-semibold">{med.name}</td>
+                  <td className="p-2 border border-brand-brown-light">{med.typical_dosage_or_application}</td>
+                  <td className="p-2 border border-brand-brown-light">{med.notes}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ReportSection>
+      )}
+
+      {result.precautions.length > 0 && (
+        <ReportSection title={t.precautions}>
+          <ul className="list-disc pl-5 text-sm space-y-1">
+            {result.precautions.map((p, i) => <li key={i} data-report-block>{p}</li>)}
+          </ul>
+        </ReportSection>
+      )}
+
+      {result.treatmentSource && (
+        <ReportSection title={t.treatmentSource}>
+          <p data-report-block className="text-sm">{describeTreatmentSource(result.treatmentSource, t)}</p>
+          {result.treatmentSource.references.length > 0 && (
+            <ul className="list-disc pl-5 text-xs text-brand-text-light mt-1 space-y-0.5">
+              {result.treatmentSource.references.map(ref => (
+                <li key={ref.title} data-report-block>{ref.title}{ref.publisher ? ` — ${ref.publisher}` : ''}</li>
+              ))}
+            </ul>
+          )}
+        </ReportSection>
+      )}
+
+      {result.disclaimer && (
+        <ReportSection title={t.disclaimer}>
+          <p data-report-block className="text-xs italic text-brand-text-light">{result.disclaimer}</p>
+        </ReportSection>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosisReport;
@@ -3,36 +3,116 @@ import Card from './shared/Card';
 import LeafIcon from './icons/LeafIcon';
 import UploadIcon from './icons/UploadIcon';
 import Chat from './Chat';
+import SprayWindowAdvisor from './SprayWindowAdvisor';
+import BatchDetector from './BatchDetector';
+import TreatmentSourceNote from './TreatmentSourceNote';
+import ImageQualityWarning from './ImageQualityWarning';
+import HeatmapOverlay from './HeatmapOverlay';
+import PlantTagInput from './PlantTagInput';
 import AlertTriangleIcon from './icons/AlertTriangleIcon';
-import { detectDisease } from '../services/geminiService';
-import { DiseaseDetectionResult, Language } from '../types';
+import { detectDisease, fetchHeatmap, fetchTreatment } from '../services/geminiService';
+import { ApiConnectionError, getErrorMessage } from '../services/apiClient';
+import {
+  formatDiagnosisName,
+  getDiagnosisNames,
+  listDiagnoses,
+  listTags,
+  saveDiagnosis,
+  splitDiseaseLabel,
+  toWeatherSnapshot,
+  updateDiagnosis,
+} from '../services/historyService';
+import { enqueueDetection } from '../services/outboxService';
+import { collectDroppedImages } from '../services/batchService';
+import { analyzeImageQuality } from '../services/imageQualityService';
+import { diagnoseOnDevice, getModelStatus, isOnDeviceInferenceEnabled } from '../services/onDeviceInference';
+import { downloadDiagnosisReport } from '../services/reportService';
+import { DiagnosisRecord, DiseaseDetectionResult, ImageQualityReport, Language, PathogenType, SeverityGrade, WeatherInfo } from '../types';
+import { CROPS } from '../constants';
 import FileTextIcon from './icons/FileTextIcon';
 import ActivityIcon from './icons/ActivityIcon';
 import PillIcon from './icons/PillIcon';
 import ShieldIcon from './icons/ShieldIcon';
 import CameraIcon from './icons/CameraIcon';
+import ListIcon from './icons/ListIcon';
+import CloudRainIcon from './icons/CloudRainIcon';
+
+const PATHOGEN_STYLES: Record<PathogenType, string> = {
+  fungal: 'bg-amber-100 text-amber-800',
+  bacterial: 'bg-sky-100 text-sky-800',
+  viral: 'bg-purple-100 text-purple-800',
+  pest: 'bg-red-100 text-red-700',
+};
+
+const SEVERITY_STYLES: Record<SeverityGrade, string> = {
+  trace: 'bg-brand-green-light text-brand-green-dark',
+  mild: 'bg-yellow-100 text-yellow-800',
+  moderate: 'bg-orange-100 text-orange-800',
+  severe: 'bg-red-100 text-red-700',
+};
 
 interface DiseaseDetectorProps {
   t: Record<string, string>;
   language: Language;
+  // A past diagnosis picked from the history panel to show in the result view.
+  openedRecord?: DiagnosisRecord | null;
+  onHistoryChange?: () => void;
+  // Daily forecast for the user's location; today's entry is saved with new scans and all of it goes into spray advice.
+  forecast?: WeatherInfo[];
 }
 
-const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
+const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language, openedRecord, onHistoryChange, forecast = [] }) => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [result, setResult] = useState<DiseaseDetectionResult | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [retranslating, setRetranslating] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [queued, setQueued] = useState<boolean>(false);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [downloadingReport, setDownloadingReport] = useState<boolean>(false);
   const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [cameraAvailable, setCameraAvailable] = useState<boolean>(false);
-  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
   const [cameraFacing, setCameraFacing] = useState<'environment' | 'user'>('environment');
+  // Kept across scans, since users usually diagnose several leaves of the same crop in a row.
+  const [cropHint, setCropHint] = useState<string>('');
+  // Quality check of the selected image, and where it came from so "retake" can go back there.
+  const [quality, setQuality] = useState<ImageQualityReport | null>(null);
+  const [imageSource, setImageSource] = useState<'file' | 'camera'>('file');
+  const qualityCheckRef = useRef(0);
+  // Natural size of the preview image, so the saliency overlay is cropped the same way; opacity is 0-100.
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [heatmapOpacity, setHeatmapOpacity] = useState<number>(50);
+  const [loadingHeatmap, setLoadingHeatmap] = useState<boolean>(false);
+  const heatmapRequestRef = useRef(0);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const isInitialMount = useRef(true);
+  // History entry for the image currently shown, so re-translations update it instead of adding a new one.
+  // Mirrored in state for rendering; the ref is read inside callbacks to avoid stale closures.
+  const recordRef = useRef<DiagnosisRecord | null>(null);
+  const [activeRecord, setActiveRecord] = useState<DiagnosisRecord | null>(null);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+
+  // Read when a scan is saved, so a forecast update does not recreate the detection callbacks.
+  const forecastRef = useRef<WeatherInfo[]>(forecast);
+  useEffect(() => {
+    forecastRef.current = forecast;
+  }, [forecast]);
+
+  const setRecord = (record: DiagnosisRecord | null) => {
+    recordRef.current = record;
+    setActiveRecord(record);
+  };
+
+  // A heatmap belongs to one image and class: a request for an image or class that has since changed is ignored.
+  useEffect(() => {
+    heatmapRequestRef.current++;
+    setLoadingHeatmap(false);
+  }, [file, result?.diseaseName]);
 
   useEffect(() => {
     const checkForCamera = async () => {
@@ -40,96 +120,208 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
         try {
           const devices = await navigator.mediaDevices.enumerateDevices();
           const videoInputs = devices.filter(device => device.kind === 'videoinput');
-          setVideoDevices(videoInputs);
           setCameraAvailable(videoInputs.length > 0);
         } catch (err) {
           console.error('Error checking for camera:', err);
-          setVideoDevices([]);
           setCameraAvailable(false);
         }
       } else {
-        setVideoDevices([]);
         setCameraAvailable(false);
       }
     };
     checkForCamera();
   }, []);
 
+  const showRecord = useCallback((record: DiagnosisRecord) => {
+    setRecord(record);
+    setBatchFiles(null);
+    setFile(null);
+    setSelectedImage(record.thumbnail);
+    setResult(record.result);
+    setError(null);
+    setQueued(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  }, []);
+
+  useEffect(() => {
+    if (openedRecord) showRecord(openedRecord);
+  }, [openedRecord, showRecord]);
+
+  const activeRecordId = activeRecord?.id;
+  useEffect(() => {
+    if (!activeRecordId) return;
+    listDiagnoses()
+      .then(records => setTagSuggestions(listTags(records)))
+      .catch(err => console.error('Could not load plant tags:', err));
+  }, [activeRecordId]);
+
+  const handleTagSave = async (tag: string) => {
+    if (!recordRef.current) return;
+    const updated = { ...recordRef.current, tag: tag || undefined };
+    try {
+      await updateDiagnosis(updated);
+      setRecord(updated);
+      onHistoryChange?.();
+    } catch (err) {
+      console.error('Could not save plant tag:', err);
+    }
+  };
+
+  // `image` is only needed for a new history entry; re-translations of an opened entry pass null.
+  const persistResult = useCallback(async (image: File | null, detectionResult: DiseaseDetectionResult, currentLanguage: Language) => {
+    try {
+      if (recordRef.current) {
+        const updated = { ...recordRef.current, result: detectionResult, language: currentLanguage };
+        await updateDiagnosis(updated);
+        setRecord(updated);
+      } else if (image) {
+        setRecord(await saveDiagnosis(image, detectionResult, currentLanguage, undefined, toWeatherSnapshot(forecastRef.current)));
+      }
+      onHistoryChange?.();
+    } catch (err) {
+      console.error('Could not save diagnosis to history:', err);
+    }
+  }, [onHistoryChange]);
+
+  // Runs the quality check in the background; a check for an image that has since been replaced is ignored.
+  const checkImageQuality = (image: File, source: 'file' | 'camera') => {
+    const check = ++qualityCheckRef.current;
+    setQuality(null);
+    setImageSource(source);
+    analyzeImageQuality(image)
+      .then(report => {
+        if (check === qualityCheckRef.current) setQuality(report);
+      })
+      .catch(err => console.error('Image quality check failed:', err));
+  };
+
   const handleDetectAnother = () => {
+    qualityCheckRef.current++;
+    setQuality(null);
+    setRecord(null);
+    setBatchFiles(null);
     setSelectedImage(null);
     setFile(null);
     setResult(null);
     setError(null);
+    setQueued(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files && files[0]) {
+  // A single image goes through the normal flow; several images start a batch run.
+  const handleSelectedFiles = (files: File[]) => {
+    if (files.length > 1) {
+      setRecord(null);
+      setBatchFiles(files);
+      setSelectedImage(null);
+      setFile(null);
+      setResult(null);
+      setError(null);
+      setQueued(false);
+      return;
+    }
+    if (files[0]) {
       const currentFile = files[0];
+      setRecord(null);
       setFile(currentFile);
       setSelectedImage(URL.createObjectURL(currentFile));
       setResult(null);
       setError(null);
+      setQueued(false);
+      checkImageQuality(currentFile, 'file');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) {
+      handleSelectedFiles(Array.from(event.target.files));
+    }
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    try {
+      handleSelectedFiles(await collectDroppedImages(event.dataTransfer));
+    } catch (err) {
+      console.error('Could not read dropped files:', err);
+      setError(t.errorApi);
     }
   };
 
-  const handleDetectDisease = useCallback(async (currentFile: File, currentLanguage: Language) => {
+  // Queues the scan in the offline outbox; it is analyzed automatically once the connection returns.
+  const queueOffline = useCallback(async (currentFile: File, currentLanguage: Language) => {
+    try {
+      await enqueueDetection(currentFile, currentLanguage, cropHint || undefined, toWeatherSnapshot(forecastRef.current));
+      setQueued(true);
+      onHistoryChange?.();
+      return true;
+    } catch (err) {
+      console.error('Could not queue detection for later:', err);
+      return false;
+    }
+  }, [onHistoryChange, cropHint]);
+
+  const handleDetectDisease = useCallback(async (currentFile: File, currentLanguage: Language, queueIfOffline: boolean = true) => {
     if (!currentFile) return;
     setError(null);
     setResult(null);
     try {
-      const detectionResult = await detectDisease(currentFile, currentLanguage, t);
+      // On-device mode only applies once the models are downloaded; until then the server is used.
+      const onDevice = isOnDeviceInferenceEnabled() && (await getModelStatus()).downloaded;
+      const detectionResult = onDevice
+        ? await diagnoseOnDevice(currentFile, currentLanguage, t, cropHint || undefined)
+        : await detectDisease(currentFile, currentLanguage, t, cropHint || undefined);
       setResult(detectionResult);
+      persistResult(currentFile, detectionResult, currentLanguage);
     } catch (err) {
-      // Try to extract structured server-side validation messages if present
-      let errorMessage = t.errorApi;
-      if (err instanceof Error) {
-        const raw = err.message || '';
-        // Attempt to find JSON substring in the error message
-        const jsonStart = raw.indexOf('{');
-        if (jsonStart !== -1) {
-          try {
-            const parsed = JSON.parse(raw.slice(jsonStart));
-            if (parsed) {
-              // backend may send { detail: '...' } or { detail: [...] }
-              if (parsed.detail) {
-                if (Array.isArray(parsed.detail)) {
-                  // join array items into a friendly string
-                  errorMessage = parsed.detail.map((d: any) => (typeof d === 'string' ? d : JSON.stringify(d))).join(' ');
-                } else if (typeof parsed.detail === 'string') {
-                  errorMessage = parsed.detail;
-                } else {
-                  errorMessage = JSON.stringify(parsed.detail);
-                }
-              } else if (parsed.message) {
-                errorMessage = parsed.message;
-              } else {
-                errorMessage = raw;
-              }
-            }
-          } catch (parseErr) {
-            // Not JSON or parse failed — fall back to raw message
-            errorMessage = raw;
-          }
-        } else {
-          // No JSON present — show raw error message
-          errorMessage = raw;
-        }
+      if (queueIfOffline && (!navigator.onLine || err instanceof ApiConnectionError) && await queueOffline(currentFile, currentLanguage)) {
+        return;
       }
 
-      // Map well-known backend validation messages to localized translations when possible
-      const backendLeafMsg = 'No valid plant leaf detected. Please upload a clear image of a plant leaf.';
-      if (errorMessage && errorMessage.includes(backendLeafMsg)) {
-        setError(t.noValidLeafDetected || backendLeafMsg);
-      } else {
-        setError(errorMessage);
-      }
+      setError(getErrorMessage(err, t));
       console.error('Detect error:', err);
     }
-  }, [t]);
+  }, [t, persistResult, queueOffline, cropHint]);
+
+  // A language switch only re-fetches the treatment text and names; the prediction itself does not change.
+  const handleRetranslate = useCallback(async (currentResult: DiseaseDetectionResult, currentLanguage: Language) => {
+    setError(null);
+    try {
+      const translated = await fetchTreatment(currentResult, currentLanguage, t);
+      setResult(translated);
+      persistResult(null, translated, currentLanguage);
+    } catch (err) {
+      setError(getErrorMessage(err, t));
+      console.error('Retranslate error:', err);
+    }
+  }, [t, persistResult]);
+
+  // The saliency map costs the backend about 50 inferences, so it is only fetched when asked for and then kept
+  // with the scan. A map that arrives after the user has moved on to another image is dropped.
+  const handleShowHeatmap = async () => {
+    if (!file || !result) return;
+    const request = ++heatmapRequestRef.current;
+    setLoadingHeatmap(true);
+    setError(null);
+    try {
+      const heatmap = await fetchHeatmap(file, result.diseaseName, t);
+      if (request !== heatmapRequestRef.current) return;
+      setResult(prev => (prev ? { ...prev, heatmap } : prev));
+      const record = recordRef.current;
+      if (record) persistResult(null, { ...record.result, heatmap }, record.language);
+    } catch (err) {
+      if (request !== heatmapRequestRef.current) return;
+      setError(getErrorMessage(err, t));
+      console.error('Heatmap error:', err);
+    } finally {
+      if (request === heatmapRequestRef.current) setLoadingHeatmap(false);
+    }
+  };
 
   const onDetectClick = () => {
     if (file) {
@@ -157,10 +349,13 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
         canvas.toBlob((blob) => {
           if (blob) {
             const capturedFile = new File([blob], `capture-${Date.now()}.jpg`, { type: 'image/jpeg' });
+            setRecord(null);
             setFile(capturedFile);
             setSelectedImage(URL.createObjectURL(capturedFile));
             setResult(null);
             setError(null);
+            setQueued(false);
+            checkImageQuality(capturedFile, 'camera');
             closeCamera();
           }
         }, 'image/jpeg');
@@ -195,7 +390,7 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
           // eslint-disable-next-line no-await-in-loop
           mediaStream = await navigator.mediaDevices.getUserMedia(constraints as MediaStreamConstraints);
           if (mediaStream) break;
-        } catch (e) {
+        } catch {
           // try next constraint
         }
       }
@@ -241,9 +436,9 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
       return;
     }
 
-    if (result && file) {
+    if (result) {
       setRetranslating(true);
-      handleDetectDisease(file, language).finally(() => setRetranslating(false));
+      handleRetranslate(result, language).finally(() => setRetranslating(false));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [language]);
@@ -263,6 +458,39 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
 
   const triggerFileSelect = () => fileInputRef.current?.click();
 
+  const handleRetake = () => {
+    const fromCamera = imageSource === 'camera';
+    handleDetectAnother();
+    if (fromCamera) openCamera();
+    else triggerFileSelect();
+  };
+
+  const handleDetectAnyway = () => {
+    setQuality(null);
+    onDetectClick();
+  };
+
+  const handleDownloadReport = async () => {
+    if (!result || !selectedImage) return;
+    setDownloadingReport(true);
+    try {
+      await downloadDiagnosisReport({
+        t,
+        language,
+        result,
+        image: selectedImage,
+        createdAt: activeRecord?.createdAt ?? Date.now(),
+        location: activeRecord?.location,
+        weather: activeRecord?.weather,
+      });
+    } catch (err) {
+      console.error('Could not create report:', err);
+      setError(t.reportError);
+    } finally {
+      setDownloadingReport(false);
+    }
+  };
+
   const ActionButton: React.FC<{
     onClick: () => void;
     icon: React.ReactNode;
@@ -292,13 +520,48 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
         <input
           type="file"
           accept="image/*"
+          multiple
           ref={fileInputRef}
           onChange={handleFileChange}
           className="hidden"
         />
 
-        {!selectedImage && !isCameraOpen && (
-          <div className="flex-grow flex flex-col items-center justify-center gap-4 p-8">
+        {batchFiles && (
+          <BatchDetector
+            key={batchFiles.map(f => f.name).join('|')}
+            t={t}
+            language={language}
+            files={batchFiles}
+            crop={cropHint || undefined}
+            weather={toWeatherSnapshot(forecast)}
+            onClose={handleDetectAnother}
+            onOpenRecord={showRecord}
+            onHistoryChange={onHistoryChange}
+          />
+        )}
+
+        {!result && !queued && !isCameraOpen && !batchFiles && (
+          <div className="flex items-center gap-2 mb-4">
+            <label htmlFor="crop-hint" className="text-sm font-semibold text-brand-text flex-shrink-0">{t.cropHint}</label>
+            <select
+              id="crop-hint"
+              value={cropHint}
+              onChange={(e) => setCropHint(e.target.value)}
+              className="flex-1 min-w-0 text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+            >
+              <option value="">{t.cropHintAuto}</option>
+              {CROPS.map(crop => <option key={crop} value={crop}>{splitDiseaseLabel(crop).crop}</option>)}
+            </select>
+          </div>
+        )}
+
+        {!selectedImage && !isCameraOpen && !batchFiles && (
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex-grow flex flex-col items-center justify-center gap-4 p-8 rounded-lg border-2 border-dashed transition-colors ${isDragging ? 'border-brand-green bg-brand-green-light' : 'border-transparent'}`}
+          >
             <ActionButton onClick={triggerFileSelect} icon={<UploadIcon className="w-8 h-8" />} text={t.uploadFromFile} />
             <ActionButton
               onClick={openCamera}
@@ -307,6 +570,7 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
               disabled={!cameraAvailable}
               title={!cameraAvailable ? t.errorNoCamera : ''}
             />
+            <p className="text-sm text-brand-text-light text-center">{t.dropImagesHint}</p>
           </div>
         )}
 
@@ -327,7 +591,21 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
 
         {selectedImage && !isCameraOpen && (
           <div className="relative mb-4 rounded-lg overflow-hidden h-64 sm:h-80 border border-gray-200">
-            <img src={selectedImage} alt="Uploaded crop" className="w-full h-full object-cover" />
+            <img
+              src={selectedImage}
+              alt="Uploaded crop"
+              className="w-full h-full object-cover"
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+            {result?.heatmap && imageSize && !loading && (
+              <HeatmapOverlay
+                grid={result.heatmap}
+                width={imageSize.width}
+                height={imageSize.height}
+                opacity={heatmapOpacity / 100}
+                className="absolute inset-0 w-full h-full object-cover"
+              />
+            )}
             {(loading || retranslating) && (
               <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
                 <div className="flex items-center gap-2 text-brand-green-dark font-semibold">
@@ -339,7 +617,39 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
           </div>
         )}
 
-        {selectedImage && !loading && !result && !isCameraOpen && (
+        {selectedImage && !isCameraOpen && result?.heatmap && (
+          <div className="-mt-2 mb-4 space-y-1">
+            <div className="flex items-center gap-3 text-sm">
+              <label htmlFor="heatmap-opacity" className="font-semibold text-brand-text flex-shrink-0">{t.heatmap}</label>
+              <input
+                id="heatmap-opacity"
+                type="range"
+                min={0}
+                max={100}
+                value={heatmapOpacity}
+                onChange={(e) => setHeatmapOpacity(Number(e.target.value))}
+                className="flex-1 accent-brand-green"
+              />
+            </div>
+            <p className="text-xs text-brand-text-light">{t.heatmapHint}</p>
+          </div>
+        )}
+
+        {selectedImage && !isCameraOpen && file && result && !result.heatmap && !loading && !retranslating && (
+          <button
+            onClick={handleShowHeatmap}
+            disabled={loadingHeatmap}
+            className="-mt-2 mb-4 text-sm text-brand-green-dark hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            {loadingHeatmap ? t.loadingHeatmap : t.showHeatmap}
+          </button>
+        )}
+
+        {file && quality && quality.issues.length > 0 && !loading && !result && !queued && !isCameraOpen && (
+          <ImageQualityWarning t={t} report={quality} onRetake={handleRetake} onContinue={handleDetectAnyway} />
+        )}
+
+        {selectedImage && !loading && !result && !queued && !isCameraOpen && !(file && quality && quality.issues.length > 0) && (
           <button
             onClick={onDetectClick}
             disabled={loading}
@@ -349,6 +659,15 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
           </button>
         )}
 
+        {queued && (
+          <div className="flex flex-col items-center gap-3 text-center bg-brand-green-light border border-brand-green/30 p-3 rounded-lg">
+            <p className="text-brand-green-dark">{t.savedOffline}</p>
+            <button onClick={handleDetectAnother} className="px-4 py-2 bg-brand-green text-white rounded-md hover:bg-brand-green-dark">
+              {t.detectAnother}
+            </button>
+          </div>
+        )}
+
         {error && (
           <div className="flex flex-col items-center gap-3 text-center bg-red-100 p-3 rounded-lg">
             <p className="text-red-600">{error}</p>
@@ -379,12 +698,75 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
         {result && (
           <div className="space-y-4 animate-fade-in">
             <div className="flex justify-between items-center">
-              <h3 className={`text-2xl font-bold font-serif ${!result.isCropDetected || !result.isHealthy ? 'text-brand-brown-dark' : 'text-brand-green-dark'}`}>
-                {result.diseaseName}
-              </h3>
-              <button onClick={handleDetectAnother} className="text-sm font-semibold text-brand-green hover:text-brand-green-dark transition-colors">{t.detectAnother}</button>
+              <div className="min-w-0">
+                <h3 className={`text-2xl font-bold font-serif ${!result.isCropDetected || !result.isHealthy || result.isUncertain ? 'text-brand-brown-dark' : 'text-brand-green-dark'}`}>
+                  {result.isUncertain ? t.possibly.replace('{diseaseName}', getDiagnosisNames(result).disease) : getDiagnosisNames(result).disease}
+                </h3>
+                {result.isCropDetected && (
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-brand-text-light">
+                    <span>{getDiagnosisNames(result).crop}</span>
+                    {result.identity?.pathogenType && (
+                      <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${PATHOGEN_STYLES[result.identity.pathogenType]}`}>
+                        {t[`pathogen_${result.identity.pathogenType}`]}
+                      </span>
+                    )}
+                    {result.severity && (
+                      <span
+                        className={`text-xs font-semibold px-2 py-0.5 rounded-full ${SEVERITY_STYLES[result.severity.grade]}`}
+                        title={t.severityHint}
+                      >
+                        {t.severityBadge
+                          .replace('{grade}', t[`severity_${result.severity.grade}`])
+                          .replace('{percent}', String(Math.round(result.severity.affectedPercent)))}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-4 flex-shrink-0">
+                {result.isCropDetected && (
+                  <button
+                    onClick={handleDownloadReport}
+                    disabled={downloadingReport}
+                    className="text-sm font-semibold text-brand-green hover:text-brand-green-dark transition-colors disabled:opacity-50"
+                  >
+                    {downloadingReport ? t.preparingReport : t.downloadReport}
+                  </button>
+                )}
+                <button onClick={handleDetectAnother} className="text-sm font-semibold text-brand-green hover:text-brand-green-dark transition-colors">{t.detectAnother}</button>
+              </div>
             </div>
 
+            {result.isCropDetected && (
+              <ConfidenceMeter label={t.confidence} confidence={result.confidence} uncertain={result.isUncertain} />
+            )}
+
+            {activeRecord && result.isCropDetected && (
+              <PlantTagInput t={t} tag={activeRecord.tag} suggestions={tagSuggestions} onSave={handleTagSave} />
+            )}
+
+            {result.unconstrainedPrediction && result.cropHint && (
+              <div className="p-4 rounded-lg flex items-start gap-4 bg-amber-50 border border-amber-200">
+                <AlertTriangleIcon className="w-8 h-8 text-amber-600 flex-shrink-0" />
+                <p className="text-amber-800 text-sm">
+                  {t.cropHintDisagrees
+                    .replace('{crop}', splitDiseaseLabel(result.cropHint).crop)
+                    .replace('{diseaseName}', formatDiagnosisName(result.unconstrainedPrediction))
+                    .replace('{confidence}', result.unconstrainedPrediction.confidence.toFixed(1))}
+                </p>
+              </div>
+            )}
+
+            {result.isCropDetected && result.isUncertain && (
+              <div className="p-4 rounded-lg flex items-start gap-4 bg-amber-50 border border-amber-200">
+                <AlertTriangleIcon className="w-8 h-8 text-amber-600 flex-shrink-0" />
+                <div>
+                  <p className="text-amber-800 font-semibold">{t.uncertainDiagnosis}</p>
+                  <p className="text-amber-800 text-sm mt-1">{t.uncertainDiagnosisHint}</p>
+                </div>
+              </div>
+            )}
+
             {!result.isCropDetected ? (
               <div className="p-4 rounded-lg flex items-center gap-4 bg-red-50">
                 <AlertTriangleIcon className="w-8 h-8 text-red-700 flex-shrink-0" />
@@ -392,6 +774,25 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
               </div>
             ) : (
               <>
+                {result.alternatives.length > 1 && (
+                  <ResultSection icon={<ListIcon />} title={t.alternativeDiagnoses}>
+                    <ol className="space-y-2">
+                      {result.alternatives.map((alt, i) => (
+                        <li key={alt.diseaseName} className="flex items-center gap-3 text-sm">
+                          <span className="w-5 text-brand-text-light font-semibold">{i + 1}.</span>
+                          <span className={`flex-grow ${i === 0 ? 'font-semibold text-brand-text' : 'text-brand-text-light'}`}>{formatDiagnosisName(alt)}</span>
+                          <span className="text-brand-text-light tabular-nums">{alt.confidence.toFixed(1)}%</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </ResultSection>
+                )}
+
+                {!result.isHealthy && result.treatmentSource && <TreatmentSourceNote t={t} source={result.treatmentSource} />}
+                {result.treatmentPending && (
+                  <p className="p-3 rounded-md text-xs bg-brand-green-light text-brand-green-dark">{t.treatmentPending}</p>
+                )}
+
                 <ResultSection icon={<FileTextIcon />} title={t.summary}>
                   <p className="text-brand-text-light text-sm">{result.summary}</p>
                 </ResultSection>
@@ -418,6 +819,12 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
                   </ResultSection>
                 )}
 
+                {!result.isHealthy && result.medicines?.length > 0 && forecast.length > 0 && (
+                  <ResultSection icon={<CloudRainIcon />} title={t.sprayWindows}>
+                    <SprayWindowAdvisor t={t} language={language} forecast={forecast} />
+                  </ResultSection>
+                )}
+
                 {!result.isHealthy && result.precautions?.length > 0 && (
                   <ResultSection icon={<ShieldIcon />} title={t.precautions}>
                     <ul className="list-disc list-inside space-y-1 text-brand-text-light text-sm">
@@ -434,7 +841,7 @@ const DiseaseDetector: React.FC<DiseaseDetectorProps> = ({ t, language }) => {
               </>
             )}
             {result.isCropDetected && !result.isHealthy && (
-              <Chat t={t} language={language} analysisResult={result} />
+              <Chat t={t} language={language} analysisResult={result} diagnosisId={activeRecord?.id} location={activeRecord?.location} />
             )}
           </div>
         )}
@@ -453,4 +860,22 @@ const ResultSection: React.FC<{ title: string; icon: React.ReactNode; children:
   </div>
 );
 
+const ConfidenceMeter: React.FC<{ label: string; confidence: number; uncertain: boolean; }> = ({ label, confidence, uncertain }) => {
+  const clamped = Math.max(0, Math.min(100, confidence));
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="font-semibold text-brand-text">{label}</span>
+        <span className={`font-semibold tabular-nums ${uncertain ? 'text-amber-700' : 'text-brand-green-dark'}`}>{clamped.toFixed(1)}%</span>
+      </div>
+      <div className="w-full h-2 bg-brand-brown-light rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${uncertain ? 'bg-amber-500' : 'bg-brand-green'}`}
+          style={{ width: `${clamped}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
 export default DiseaseDetector;
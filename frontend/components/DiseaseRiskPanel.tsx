@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Card from './shared/Card';
+import ShieldIcon from './icons/ShieldIcon';
+import { FarmPlot, RiskLevel, WeatherInfo } from '../types';
+import { getDiseaseRisks, getRiskCropName, loadMyCrops, RISK_CROPS, saveMyCrops } from '../services/diseaseRiskService';
+
+interface DiseaseRiskPanelProps {
+  t: Record<string, string>;
+  forecast: WeatherInfo[];
+  // When a farm plot is selected its crops are used and edited; otherwise the crops saved on this device.
+  plot: FarmPlot | null;
+  onPlotChange: (plot: FarmPlot) => void;
+}
+
+const LEVEL_STYLES: Record<RiskLevel, { bar: string; badge: string }> = {
+  low: { bar: 'bg-brand-green', badge: 'bg-brand-green/10 text-brand-green-dark' },
+  moderate: { bar: 'bg-amber-400', badge: 'bg-amber-100 text-amber-800' },
+  high: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-700' },
+};
+
+const DiseaseRiskPanel: React.FC<DiseaseRiskPanelProps> = ({ t, forecast, plot, onPlotChange }) => {
+  const [deviceCrops, setDeviceCrops] = useState<string[]>(loadMyCrops);
+
+  useEffect(() => {
+    saveMyCrops(deviceCrops);
+  }, [deviceCrops]);
+
+  const myCrops = plot ? plot.crops : deviceCrops;
+  const risks = useMemo(() => getDiseaseRisks(forecast, myCrops), [forecast, myCrops]);
+
+  const toggleCrop = (crop: string) => {
+    const crops = myCrops.includes(crop) ? myCrops.filter(c => c !== crop) : [...myCrops, crop];
+    if (plot) {
+      onPlotChange({ ...plot, crops });
+    } else {
+      setDeviceCrops(crops);
+    }
+  };
+
+  const renderRisks = () => {
+    if (myCrops.length === 0) {
+      return <p className="text-brand-text-light text-sm text-center p-2">{t.riskSelectCrops}</p>;
+    }
+    if (forecast.length === 0 || risks.length === 0) {
+      return <p className="text-brand-text-light text-sm text-center p-2">{t.riskNoForecast}</p>;
+    }
+    return (
+      <ul className="space-y-3">
+        {risks.map(risk => (
+          <li key={risk.className}>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="min-w-0 truncate">
+                <span className="font-semibold text-brand-text">{t[`disease_${risk.diseaseId}`]}</span>
+                <span className="text-brand-text-light"> · {t[`crop_${risk.cropId}`]}</span>
+              </span>
+              <span className={`text-xs font-semibold px-2 py-0.5 rounded-full flex-shrink-0 ${LEVEL_STYLES[risk.level].badge}`}>
+                {t[`risk_${risk.level}`]}
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 rounded-full bg-brand-brown-light overflow-hidden">
+              <div className={`h-full ${LEVEL_STYLES[risk.level].bar}`} style={{ width: `${Math.max(4, risk.score * 100)}%` }} />
+            </div>
+            <p className="text-[11px] text-brand-text-light mt-0.5">
+              {t.riskFavorableHours.replace('{hours}', String(risk.favorableHours))}
+            </p>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <Card title={t.diseaseRisk} icon={<ShieldIcon className="w-6 h-6 text-brand-green" />}>
+      <div className="space-y-4">
+        <div>
+          <p className="text-xs font-semibold text-brand-text-light mb-2">
+            {plot ? t.cropsOnPlot.replace('{plot}', plot.name) : t.myCrops}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {RISK_CROPS.map(crop => {
+              const selected = myCrops.includes(crop);
+              return (
+                <button
+                  key={crop}
+                  onClick={() => toggleCrop(crop)}
+                  aria-pressed={selected}
+                  className={`text-xs px-3 py-1 rounded-full transition-colors ${
+                    selected ? 'bg-brand-green text-white' : 'bg-brand-green/10 text-brand-green-dark hover:bg-brand-green/20'
+                  }`}
+                >
+                  {getRiskCropName(crop, t)}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        {renderRisks()}
+        <p className="text-[11px] text-brand-text-light">{t.riskDisclaimer}</p>
+      </div>
+    </Card>
+  );
+};
+
+export default DiseaseRiskPanel;
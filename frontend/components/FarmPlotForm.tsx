@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { GeoLocation, Place } from '../types';
+import { searchPlaces } from '../services/weatherService';
+import { getCurrentLocation, splitDiseaseLabel } from '../services/historyService';
+import { RISK_CROPS } from '../services/diseaseRiskService';
+
+interface FarmPlotFormProps {
+  t: Record<string, string>;
+  onSave: (name: string, location: GeoLocation, crops: string[]) => void;
+  onCancel: () => void;
+}
+
+const INPUT_CLASS = 'w-full text-sm bg-white border border-brand-green/30 px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green';
+
+const formatPlace = (place: Place) => [place.name, place.state, place.country].filter(Boolean).join(', ');
+
+const FarmPlotForm: React.FC<FarmPlotFormProps> = ({ t, onSave, onCancel }) => {
+  const [name, setName] = useState<string>('');
+  const [query, setQuery] = useState<string>('');
+  const [places, setPlaces] = useState<Place[] | null>(null);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [latitude, setLatitude] = useState<string>('');
+  const [longitude, setLongitude] = useState<string>('');
+  const [crops, setCrops] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim().length < 2) return;
+    setSearching(true);
+    setError(null);
+    try {
+      setPlaces(await searchPlaces(query.trim()));
+    } catch (err) {
+      console.error('Place search failed:', err);
+      setError(t.placeSearchError);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handlePickPlace = (place: Place) => {
+    setLatitude(place.latitude.toFixed(4));
+    setLongitude(place.longitude.toFixed(4));
+    if (!name) setName(place.name);
+    setPlaces(null);
+  };
+
+  const handleUseCurrentLocation = async () => {
+    const location = await getCurrentLocation();
+    if (!location) {
+      setError(t.weatherErrorLocation);
+      return;
+    }
+    setLatitude(location.latitude.toFixed(4));
+    setLongitude(location.longitude.toFixed(4));
+  };
+
+  const handleSave = () => {
+    const lat = parseFloat(latitude);
+    const lon = parseFloat(longitude);
+    if (!name.trim()) {
+      setError(t.plotNameRequired);
+      return;
+    }
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      setError(t.invalidCoordinates);
+      return;
+    }
+    onSave(name.trim(), { latitude: lat, longitude: lon }, crops);
+  };
+
+  const toggleCrop = (crop: string) =>
+    setCrops(prev => (prev.includes(crop) ? prev.filter(c => c !== crop) : [...prev, crop]));
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-brand-green-light mb-4">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder={t.plotName} aria-label={t.plotName} className={INPUT_CLASS} />
+
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t.searchPlace} aria-label={t.searchPlace} className={INPUT_CLASS} />
+        <button type="submit" disabled={searching} className="text-sm bg-brand-green text-white px-3 py-2 rounded-md hover:bg-brand-green-dark transition-colors disabled:opacity-50 flex-shrink-0">
+          {searching ? '…' : t.search}
+        </button>
+      </form>
+      {places && (
+        places.length === 0
+          ? <p className="text-xs text-brand-text-light">{t.noPlacesFound}</p>
+          : (
+            <ul className="text-sm divide-y divide-brand-green-light border border-brand-green-light rounded-md">
+              {places.map(place => (
+                <li key={`${place.latitude},${place.longitude}`}>
+                  <button onClick={() => handlePickPlace(place)} className="w-full text-left px-3 py-2 hover:bg-brand-green-light">
+                    {formatPlace(place)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+      )}
+
+      <div className="flex gap-2">
+        <input value={latitude} onChange={(e) => setLatitude(e.target.value)} inputMode="decimal" placeholder={t.latitude} aria-label={t.latitude} className={INPUT_CLASS} />
+        <input value={longitude} onChange={(e) => setLongitude(e.target.value)} inputMode="decimal" placeholder={t.longitude} aria-label={t.longitude} className={INPUT_CLASS} />
+      </div>
+      <button onClick={handleUseCurrentLocation} className="text-xs text-brand-green-dark hover:underline">
+        {t.useCurrentLocation}
+      </button>
+
+      <div>
+        <p className="text-xs font-semibold text-brand-text-light mb-2">{t.plotCrops}</p>
+        <div className="flex flex-wrap gap-2">
+          {RISK_CROPS.map(crop => (
+            <button
+              key={crop}
+              onClick={() => toggleCrop(crop)}
+              aria-pressed={crops.includes(crop)}
+              className={`text-xs px-3 py-1 rounded-full transition-colors ${
+                crops.includes(crop) ? 'bg-brand-green text-white' : 'bg-brand-green/10 text-brand-green-dark hover:bg-brand-green/20'
+              }`}
+            >
+              {splitDiseaseLabel(crop).crop}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-700">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="text-sm px-3 py-2 rounded-md text-brand-text-light hover:bg-brand-brown-light">
+          {t.cancel}
+        </button>
+        <button onClick={handleSave} className="text-sm bg-brand-green text-white px-3 py-2 rounded-md hover:bg-brand-green-dark transition-colors">
+          {t.savePlot}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FarmPlotForm;
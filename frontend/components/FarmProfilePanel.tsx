@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import XIcon from './icons/XIcon';
+import { CROPS } from '../constants';
+import { AuthSession, FarmProfile, SoilType } from '../types';
+import { getErrorMessage } from '../services/apiClient';
+import { signOut } from '../services/authService';
+import { SOIL_TYPES, fetchFarmProfile, saveFarmProfile } from '../services/farmProfileService';
+import { getCurrentLocation, splitDiseaseLabel } from '../services/historyService';
+
+interface FarmProfilePanelProps {
+  t: Record<string, string>;
+  session: AuthSession;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full text-sm bg-white border border-brand-green/30 px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green';
+
+const FarmProfilePanel: React.FC<FarmProfilePanelProps> = ({ t, session, onClose }) => {
+  const [profile, setProfile] = useState<FarmProfile | null>(null);
+  const [acreage, setAcreage] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [saved, setSaved] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchFarmProfile()
+      .then(loaded => {
+        setProfile(loaded);
+        setAcreage(loaded.acreage !== undefined ? String(loaded.acreage) : '');
+      })
+      .catch(err => {
+        console.error('Could not load farm profile:', err);
+        setError(getErrorMessage(err, t));
+      });
+  }, [t]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<FarmProfile>) => {
+    setProfile(prev => (prev ? { ...prev, ...changes } : prev));
+    setSaved(false);
+  };
+
+  const toggleCrop = (crop: string) => {
+    if (!profile) return;
+    update({ crops: profile.crops.includes(crop) ? profile.crops.filter(c => c !== crop) : [...profile.crops, crop] });
+  };
+
+  const handleUseCurrentLocation = async () => {
+    const location = await getCurrentLocation();
+    if (!location) {
+      setError(t.weatherErrorLocation);
+      return;
+    }
+    setError(null);
+    update({ location });
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+    const acres = acreage.trim() ? parseFloat(acreage) : undefined;
+    if (acres !== undefined && (!Number.isFinite(acres) || acres <= 0)) {
+      setError(t.invalidAcreage);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      setProfile(await saveFarmProfile({ ...profile, acreage: acres }));
+      setSaved(true);
+    } catch (err) {
+      console.error('Could not save farm profile:', err);
+      setError(getErrorMessage(err, t));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    signOut();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="profile-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-brand-surface rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="profile-title" className="text-xl font-semibold text-brand-green-dark font-serif">{t.farmProfile}</h2>
+          <button onClick={onClose} title={t.close} className="p-1 text-brand-text-light hover:text-brand-text">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-brand-text-light">{t.signedInAs.replace('{username}', session.user.username)}</p>
+
+        {!profile ? (
+          !error && <p className="text-sm text-brand-text-light">{t.loadingProfile}</p>
+        ) : (
+          <div className="space-y-3">
+            <input value={profile.farmerName} onChange={(e) => update({ farmerName: e.target.value })} placeholder={t.farmerName} aria-label={t.farmerName} className={INPUT_CLASS} />
+            <input value={profile.cooperative} onChange={(e) => update({ cooperative: e.target.value })} placeholder={t.cooperative} aria-label={t.cooperative} className={INPUT_CLASS} />
+            <input value={profile.locationName} onChange={(e) => update({ locationName: e.target.value })} placeholder={t.farmLocation} aria-label={t.farmLocation} className={INPUT_CLASS} />
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-brand-text-light">
+                {profile.location ? `${profile.location.latitude.toFixed(4)}, ${profile.location.longitude.toFixed(4)}` : ''}
+              </span>
+              <button onClick={handleUseCurrentLocation} className="text-brand-green-dark hover:underline">{t.useCurrentLocation}</button>
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                value={acreage}
+                onChange={(e) => { setAcreage(e.target.value); setSaved(false); }}
+                inputMode="decimal"
+                placeholder={t.acreage}
+                aria-label={t.acreage}
+                className={INPUT_CLASS}
+              />
+              <select
+                value={profile.soilType ?? ''}
+                onChange={(e) => update({ soilType: (e.target.value || undefined) as SoilType | undefined })}
+                aria-label={t.soilType}
+                className={INPUT_CLASS}
+              >
+                <option value="">{t.soilType}</option>
+                {SOIL_TYPES.map(soil => (
+                  <option key={soil} value={soil}>{t[`soil_${soil}`]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-brand-text-light mb-2">{t.cropsGrown}</p>
+              <div className="flex flex-wrap gap-2">
+                {CROPS.map(crop => (
+                  <button
+                    key={crop}
+                    onClick={() => toggleCrop(crop)}
+                    aria-pressed={profile.crops.includes(crop)}
+                    className={`text-xs px-3 py-1 rounded-full transition-colors ${
+                      profile.crops.includes(crop) ? 'bg-brand-green text-white' : 'bg-brand-green/10 text-brand-green-dark hover:bg-brand-green/20'
+                    }`}
+                  >
+                    {splitDiseaseLabel(crop).crop}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-700">{error}</p>}
+
+        <div className="flex flex-wrap justify-between gap-2">
+          <button onClick={handleSignOut} className="text-sm px-3 py-2 rounded-md text-brand-text-light hover:bg-brand-brown-light">
+            {t.signOut}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!profile || saving}
+            className="text-sm bg-brand-green text-white px-3 py-2 rounded-md hover:bg-brand-green-dark transition-colors disabled:opacity-50"
+          >
+            {saved ? t.saved : t.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FarmProfilePanel;
@@ -0,0 +1,61 @@
+import React, { useEffect, useRef } from 'react';
+
+interface HeatmapOverlayProps {
+  grid: number[][];
+  // Natural size of the image underneath; the overlay gets the same aspect ratio so `object-cover` crops both alike.
+  width: number;
+  height: number;
+  opacity: number;
+  className?: string;
+}
+
+const MAX_SIZE = 256;
+
+// Draws the saliency grid smoothly scaled over the image: transparent where it did not matter, red where it mattered most.
+const HeatmapOverlay: React.FC<HeatmapOverlayProps> = ({ grid, width, height, opacity, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const rows = grid.length;
+    const cols = grid[0]?.length ?? 0;
+    if (!canvas || rows === 0 || cols === 0) return;
+
+    const cells = document.createElement('canvas');
+    cells.width = cols;
+    cells.height = rows;
+    const cellContext = cells.getContext('2d');
+    const context = canvas.getContext('2d');
+    if (!cellContext || !context) return;
+
+    const pixels = cellContext.createImageData(cols, rows);
+    grid.forEach((row, y) => row.forEach((value, x) => {
+      const i = (y * cols + x) * 4;
+      pixels.data[i] = 255;
+      pixels.data[i + 1] = Math.round(220 * (1 - value));
+      pixels.data[i + 2] = 0;
+      pixels.data[i + 3] = Math.round(255 * value);
+    }));
+    cellContext.putImageData(pixels, 0, 0);
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(cells, 0, 0, canvas.width, canvas.height);
+  }, [grid, width, height]);
+
+  const scale = Math.min(1, MAX_SIZE / Math.max(width, height, 1));
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.max(1, Math.round(width * scale))}
+      height={Math.max(1, Math.round(height * scale))}
+      style={{ opacity }}
+      className={`pointer-events-none ${className}`}
+      aria-hidden="true"
+    />
+  );
+};
+
+export default HeatmapOverlay;
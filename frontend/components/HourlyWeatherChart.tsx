@@ -0,0 +1,76 @@
+import React from 'react';
+import { HourlyWeather, Language } from '../types';
+
+interface HourlyWeatherChartProps {
+  t: Record<string, string>;
+  language: Language;
+  slots: HourlyWeather[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING = { top: 18, right: 12, bottom: 22, left: 12 };
+// Rain bars are scaled against at least this many mm, so a drizzle does not look like a downpour.
+const MIN_RAIN_SCALE_MM = 5;
+
+// Temperature line over rainfall bars for the 3-hour slots of one day, followed by wind and humidity per slot.
+const HourlyWeatherChart: React.FC<HourlyWeatherChartProps> = ({ t, language, slots }) => {
+  if (slots.length === 0) return null;
+
+  const formatHour = (time: number) => new Intl.DateTimeFormat(language, { hour: 'numeric' }).format(new Date(time));
+
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const step = innerWidth / slots.length;
+  const x = (i: number) => PADDING.left + step * i + step / 2;
+
+  const temps = slots.map(s => s.temp);
+  const minTemp = Math.min(...temps);
+  const tempRange = Math.max(Math.max(...temps) - minTemp, 1);
+  const yTemp = (temp: number) => PADDING.top + innerHeight - ((temp - minTemp) / tempRange) * innerHeight * 0.8;
+
+  const rainScale = Math.max(MIN_RAIN_SCALE_MM, ...slots.map(s => s.rain));
+  const barHeight = (rain: number) => (rain / rainScale) * innerHeight;
+
+  const linePath = slots.map((s, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${yTemp(s.temp).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="mt-3 animate-fade-in">
+      <p className="text-xs font-semibold text-brand-text mb-1">{t.hourlyForecast}</p>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t.hourlyForecast}>
+        {slots.map((s, i) => (
+          <rect
+            key={`rain-${s.time}`}
+            x={x(i) - step * 0.3}
+            y={PADDING.top + innerHeight - barHeight(s.rain)}
+            width={step * 0.6}
+            height={barHeight(s.rain)}
+            className="fill-sky-300"
+          >
+            <title>{`${t.rainfall}: ${s.rain.toFixed(1)} mm`}</title>
+          </rect>
+        ))}
+        <path d={linePath} fill="none" stroke="#6A994E" strokeWidth={2} />
+        {slots.map((s, i) => (
+          <g key={`temp-${s.time}`}>
+            <circle cx={x(i)} cy={yTemp(s.temp)} r={3} fill="#415A42" />
+            <text x={x(i)} y={yTemp(s.temp) - 6} textAnchor="middle" fontSize={9} fill="#3D403A">{Math.round(s.temp)}°</text>
+            <text x={x(i)} y={HEIGHT - 6} textAnchor="middle" fontSize={9} fill="#70665F">{formatHour(s.time)}</text>
+          </g>
+        ))}
+      </svg>
+      <div className="grid gap-1 text-[10px] text-brand-text-light text-center" style={{ gridTemplateColumns: `repeat(${slots.length}, minmax(0, 1fr))` }}>
+        {slots.map(s => (
+          <div key={`details-${s.time}`} title={`${t.wind}: ${Math.round(s.windSpeed)} km/h, ${t.gust}: ${Math.round(s.windGust)} km/h`}>
+            <p className="font-semibold text-brand-text">{Math.round(s.windSpeed)}<span className="font-normal">/{Math.round(s.windGust)}</span></p>
+            <p>{s.humidity}%</p>
+            {s.rain > 0 && <p className="text-sky-700">{s.rain.toFixed(1)}</p>}
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-brand-text-light mt-1">{t.hourlyLegend}</p>
+    </div>
+  );
+};
+
+export default HourlyWeatherChart;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ImageQualityReport } from '../types';
+import AlertTriangleIcon from './icons/AlertTriangleIcon';
+
+interface ImageQualityWarningProps {
+  t: Record<string, string>;
+  report: ImageQualityReport;
+  onRetake: () => void;
+  onContinue: () => void;
+}
+
+const ImageQualityWarning: React.FC<ImageQualityWarningProps> = ({ t, report, onRetake, onContinue }) => (
+  <div className="p-3 rounded-lg bg-amber-50 border border-amber-300 text-amber-900 space-y-3">
+    <div className="flex items-start gap-2">
+      <AlertTriangleIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+      <div>
+        <p className="font-semibold">{t.qualityWarningTitle}</p>
+        <ul className="list-disc list-inside mt-1 text-sm space-y-0.5">
+          {report.issues.map(issue => <li key={issue}>{t[`quality_${issue}`]}</li>)}
+        </ul>
+      </div>
+    </div>
+    <div className="flex gap-3">
+      <button onClick={onRetake} className="flex-1 px-4 py-2 bg-brand-green text-white font-semibold rounded-md hover:bg-brand-green-dark">
+        {t.retakePhoto}
+      </button>
+      <button onClick={onContinue} className="flex-1 px-4 py-2 border border-amber-400 rounded-md hover:bg-amber-100">
+        {t.detectAnyway}
+      </button>
+    </div>
+  </div>
+);
+
+export default ImageQualityWarning;
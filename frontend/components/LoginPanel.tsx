@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import XIcon from './icons/XIcon';
+import { getErrorMessage } from '../services/apiClient';
+import { register, signIn } from '../services/authService';
+
+interface LoginPanelProps {
+  t: Record<string, string>;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full text-sm bg-white border border-brand-green/30 px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green';
+const MIN_PASSWORD_LENGTH = 8;
+
+const LoginPanel: React.FC<LoginPanelProps> = ({ t, onClose }) => {
+  const [mode, setMode] = useState<'signIn' | 'register'>('signIn');
+  const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) {
+      setError(t.usernameRequired);
+      return;
+    }
+    if (mode === 'register' && password.length < MIN_PASSWORD_LENGTH) {
+      setError(t.passwordTooShort.replace('{count}', String(MIN_PASSWORD_LENGTH)));
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await (mode === 'register' ? register : signIn)(username.trim(), password, t);
+      onClose();
+    } catch (err) {
+      console.error('Authentication failed:', err);
+      setError(getErrorMessage(err, t));
+      setSubmitting(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'signIn' ? 'register' : 'signIn');
+    setError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="login-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm bg-brand-surface rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="login-title" className="text-xl font-semibold text-brand-green-dark font-serif">
+            {mode === 'signIn' ? t.signIn : t.createAccount}
+          </h2>
+          <button onClick={onClose} title={t.close} className="p-1 text-brand-text-light hover:text-brand-text">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-brand-text-light">{t.accountHelp}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <label htmlFor="login-username" className="block text-sm font-semibold text-brand-text">{t.username}</label>
+            <input
+              id="login-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              placeholder={t.usernamePlaceholder}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="login-password" className="block text-sm font-semibold text-brand-text">{t.password}</label>
+            <input
+              id="login-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+              className={INPUT_CLASS}
+            />
+          </div>
+          {error && <p className="text-xs text-red-700">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full text-sm bg-brand-green text-white px-3 py-2 rounded-md hover:bg-brand-green-dark transition-colors disabled:opacity-50"
+          >
+            {submitting ? '…' : mode === 'signIn' ? t.signIn : t.createAccount}
+          </button>
+        </form>
+
+        <button onClick={switchMode} className="w-full text-xs text-brand-green-dark hover:underline">
+          {mode === 'signIn' ? t.noAccountYet : t.haveAccount}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LoginPanel;
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+
+interface PlantTagInputProps {
+  t: Record<string, string>;
+  tag?: string;
+  // Tags already used in the history, offered as suggestions so repeated scans get the same tag.
+  suggestions: string[];
+  onSave: (tag: string) => void;
+}
+
+// Saves when the field loses focus or on Enter, and only if the tag changed.
+const PlantTagInput: React.FC<PlantTagInputProps> = ({ t, tag = '', suggestions, onSave }) => {
+  const [draft, setDraft] = useState<string>(tag);
+
+  useEffect(() => {
+    setDraft(tag);
+  }, [tag]);
+
+  const save = () => {
+    const trimmed = draft.trim();
+    if (trimmed !== tag) onSave(trimmed);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="plant-tag" className="text-sm font-semibold text-brand-text flex-shrink-0">{t.plantTag}</label>
+      <input
+        id="plant-tag"
+        list="plant-tag-suggestions"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        placeholder={t.plantTagPlaceholder}
+        maxLength={60}
+        className="flex-1 min-w-0 text-sm bg-white border border-brand-green/30 px-3 py-1.5 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+      />
+      <datalist id="plant-tag-suggestions">
+        {suggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default PlantTagInput;
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import XIcon from './icons/XIcon';
+import TrendingUpIcon from './icons/TrendingUpIcon';
+import AlertTriangleIcon from './icons/AlertTriangleIcon';
+import { DiagnosisRecord, Language, ProgressionTrend } from '../types';
+import { formatDiagnosisName, listDiagnosesByTag } from '../services/historyService';
+import { assessProgression } from '../services/progressionService';
+
+interface ProgressionTimelineProps {
+  t: Record<string, string>;
+  language: Language;
+  tag: string;
+  onOpen: (record: DiagnosisRecord) => void;
+  onClose: () => void;
+}
+
+const TREND_STYLES: Record<ProgressionTrend, string> = {
+  resolved: 'bg-brand-green-light text-brand-green-dark border-brand-green/30',
+  improving: 'bg-brand-green-light text-brand-green-dark border-brand-green/30',
+  stable: 'bg-gray-50 text-brand-text border-gray-200',
+  worsening: 'bg-red-50 text-red-700 border-red-200',
+  insufficient: 'bg-gray-50 text-brand-text-light border-gray-200',
+};
+
+// All scans of one plant or plot: whether the treatment appears to work, a before/after comparison and the timeline.
+const ProgressionTimeline: React.FC<ProgressionTimelineProps> = ({ t, language, tag, onOpen, onClose }) => {
+  const [scans, setScans] = useState<DiagnosisRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [beforeId, setBeforeId] = useState<string>('');
+  const [afterId, setAfterId] = useState<string>('');
+
+  useEffect(() => {
+    listDiagnosesByTag(tag)
+      .then(records => {
+        setScans(records);
+        setBeforeId(records[0]?.id ?? '');
+        setAfterId(records[records.length - 1]?.id ?? '');
+      })
+      .catch(err => {
+        console.error('Could not load scans for tag:', err);
+        setError(t.historyError);
+      })
+      .finally(() => setLoading(false));
+  }, [tag, t.historyError]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const assessment = useMemo(() => assessProgression(scans), [scans]);
+  const maxSeverity = Math.max(1, ...scans.map(scan => scan.result.severity?.affectedPercent ?? 0));
+
+  const formatDate = (timestamp: number) =>
+    new Intl.DateTimeFormat(language, { dateStyle: 'medium' }).format(new Date(timestamp));
+
+  const describeSeverity = (record: DiagnosisRecord) => {
+    const { severity, isHealthy } = record.result;
+    if (isHealthy) return t.healthy;
+    if (!severity) return '—';
+    return t.severityBadge
+      .replace('{grade}', t[`severity_${severity.grade}`])
+      .replace('{percent}', String(Math.round(severity.affectedPercent)));
+  };
+
+  const trendMessage = () => {
+    const change = String(Math.abs(Math.round(assessment.severityChange ?? 0)));
+    return t[`trend_${assessment.trend}`].replace('{change}', change);
+  };
+
+  const renderComparisonSide = (id: string, setId: (id: string) => void, label: string) => {
+    const record = scans.find(scan => scan.id === id);
+    return (
+      <div className="flex-1 min-w-0 space-y-2">
+        <select
+          value={id}
+          onChange={(e) => setId(e.target.value)}
+          aria-label={label}
+          className="w-full text-sm bg-brand-green/10 text-brand-green-dark px-2 py-1.5 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+        >
+          {scans.map(scan => <option key={scan.id} value={scan.id}>{label} · {formatDate(scan.createdAt)}</option>)}
+        </select>
+        {record && (
+          <>
+            <img src={record.thumbnail} alt={formatDiagnosisName(record.result)} className="w-full aspect-square object-cover rounded-md border border-gray-200" />
+            <p className="text-sm font-semibold text-brand-text truncate">{formatDiagnosisName(record.result)}</p>
+            <p className="text-xs text-brand-text-light">{describeSeverity(record)}</p>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center p-6">
+          <div className="w-8 h-8 border-4 border-brand-green border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      );
+    }
+    if (error) {
+      return <p className="text-sm text-red-700">{error}</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className={`flex items-start gap-2 p-3 rounded-md border text-sm ${TREND_STYLES[assessment.trend]}`}>
+          {assessment.trend === 'worsening'
+            ? <AlertTriangleIcon className="w-5 h-5 flex-shrink-0" />
+            : <TrendingUpIcon className="w-5 h-5 flex-shrink-0" />}
+          <p className="font-semibold">{trendMessage()}</p>
+        </div>
+
+        {scans.length >= 2 && (
+          <div className="flex gap-3">
+            {renderComparisonSide(beforeId, setBeforeId, t.progressBefore)}
+            {renderComparisonSide(afterId, setAfterId, t.progressAfter)}
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-semibold text-brand-text mb-2">{t.progressTimeline}</h3>
+          <ol className="space-y-2">
+            {scans.map(scan => (
+              <li key={scan.id}>
+                <button
+                  onClick={() => { onOpen(scan); onClose(); }}
+                  title={t.openDiagnosis}
+                  className="w-full flex items-center gap-3 p-2 bg-brand-green-light rounded-lg text-left hover:bg-brand-green/10"
+                >
+                  <img src={scan.thumbnail} alt="" className="w-10 h-10 rounded-md object-cover flex-shrink-0" />
+                  <div className="min-w-0 flex-grow">
+                    <p className="text-sm font-semibold text-brand-text truncate">{formatDiagnosisName(scan.result)}</p>
+                    <p className="text-xs text-brand-text-light">
+                      {formatDate(scan.createdAt)} · {t.progressConfidence.replace('{confidence}', scan.result.confidence.toFixed(0))}
+                    </p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <div className="flex-grow h-1.5 bg-white rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-red-400"
+                          style={{ width: `${((scan.result.severity?.affectedPercent ?? 0) / maxSeverity) * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-brand-text-light flex-shrink-0">{describeSeverity(scan)}</span>
+                    </div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="progress-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-brand-surface rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="progress-title" className="text-xl font-semibold text-brand-green-dark font-serif truncate">
+            {t.progressTitle.replace('{tag}', tag)}
+          </h2>
+          <button onClick={onClose} title={t.close} className="p-1 text-brand-text-light hover:text-brand-text">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressionTimeline;
@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import XIcon from './icons/XIcon';
+import { DEFAULT_API_BASE_URL } from '../constants';
+import { InferenceParityReport, OnDeviceModelStatus } from '../types';
+import { getErrorMessage } from '../services/apiClient';
+import {
+  BackendHealth,
+  checkBackendHealth,
+  getApiBaseUrl,
+  getApiBaseUrlOverride,
+  isValidBaseUrl,
+  normalizeBaseUrl,
+  setApiBaseUrlOverride,
+} from '../services/apiConfig';
+import {
+  checkInferenceParity,
+  downloadModels,
+  getModelStatus,
+  isOnDeviceInferenceEnabled,
+  setOnDeviceInferenceEnabled,
+} from '../services/onDeviceInference';
+import { notifyServiceWorkerOfApiBaseUrl } from '../services/serviceWorker';
+
+interface SettingsPanelProps {
+  t: Record<string, string>;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ t, onClose }) => {
+  const [url, setUrl] = useState<string>(getApiBaseUrlOverride() || '');
+  const [health, setHealth] = useState<BackendHealth | null>(null);
+  const [checking, setChecking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<boolean>(false);
+  const [onDevice, setOnDevice] = useState<boolean>(isOnDeviceInferenceEnabled);
+  const [modelStatus, setModelStatus] = useState<OnDeviceModelStatus | null>(null);
+  const [downloading, setDownloading] = useState<boolean>(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [parity, setParity] = useState<InferenceParityReport | null>(null);
+  const [checkingParity, setCheckingParity] = useState<boolean>(false);
+  const parityInputRef = useRef<HTMLInputElement>(null);
+
+  const runHealthCheck = useCallback(async (baseUrl: string) => {
+    setChecking(true);
+    setHealth(null);
+    setHealth(await checkBackendHealth(baseUrl));
+    setChecking(false);
+  }, []);
+
+  // Show straight away whether the backend currently in use is reachable.
+  useEffect(() => {
+    runHealthCheck(getApiBaseUrl());
+  }, [runHealthCheck]);
+
+  useEffect(() => {
+    getModelStatus()
+      .then(setModelStatus)
+      .catch(err => console.error('Could not read on-device model status:', err));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // An empty field means "use the default".
+  const candidate = normalizeBaseUrl(url) || DEFAULT_API_BASE_URL;
+
+  const handleTest = () => {
+    if (!isValidBaseUrl(candidate)) {
+      setError(t.invalidBackendUrl);
+      return;
+    }
+    setError(null);
+    runHealthCheck(candidate);
+  };
+
+  const handleSave = () => {
+    if (url.trim() && !isValidBaseUrl(candidate)) {
+      setError(t.invalidBackendUrl);
+      return;
+    }
+    setError(null);
+    setApiBaseUrlOverride(url.trim() ? candidate : null);
+    notifyServiceWorkerOfApiBaseUrl();
+    setSaved(true);
+    runHealthCheck(candidate);
+  };
+
+  const handleReset = () => {
+    setUrl('');
+    setApiBaseUrlOverride(null);
+    notifyServiceWorkerOfApiBaseUrl();
+    setError(null);
+    setSaved(true);
+    runHealthCheck(DEFAULT_API_BASE_URL);
+  };
+
+  const handleToggleOnDevice = (enabled: boolean) => {
+    setOnDevice(enabled);
+    setOnDeviceInferenceEnabled(enabled);
+  };
+
+  const handleDownloadModels = async () => {
+    setDownloading(true);
+    setModelError(null);
+    try {
+      setModelStatus(await downloadModels());
+    } catch (err) {
+      console.error('Could not download models:', err);
+      setModelError(t.modelDownloadFailed);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // Developer check: runs the chosen image on both sides. Needs ENABLE_DEBUG_ENDPOINTS on the backend.
+  const handleParityFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const image = event.target.files?.[0];
+    event.target.value = '';
+    if (!image) return;
+    setCheckingParity(true);
+    setParity(null);
+    setModelError(null);
+    try {
+      setParity(await checkInferenceParity(image));
+    } catch (err) {
+      console.error('Parity check failed:', err);
+      setModelError(getErrorMessage(err, t, 'parityFailed'));
+    } finally {
+      setCheckingParity(false);
+    }
+  };
+
+  const renderStatus = () => {
+    if (checking) {
+      return (
+        <span className="flex items-center gap-2 text-brand-text-light">
+          <span className="w-3 h-3 border-2 border-brand-green border-t-transparent rounded-full animate-spin" />
+          {t.backendChecking}
+        </span>
+      );
+    }
+    if (!health) return null;
+    return health.reachable ? (
+      <span className="flex items-center gap-2 text-brand-green-dark">
+        <span className="w-2.5 h-2.5 rounded-full bg-brand-green" />
+        {t.backendReachable.replace('{ms}', String(health.latencyMs))}
+      </span>
+    ) : (
+      <span className="flex items-center gap-2 text-red-700" title={health.error}>
+        <span className="w-2.5 h-2.5 rounded-full bg-red-500" />
+        {t.backendUnreachable}
+      </span>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-brand-surface rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="settings-title" className="text-xl font-semibold text-brand-green-dark font-serif">{t.settings}</h2>
+          <button onClick={onClose} title={t.close} className="p-1 text-brand-text-light hover:text-brand-text">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="backend-url" className="block text-sm font-semibold text-brand-text">{t.backendUrl}</label>
+          <input
+            id="backend-url"
+            type="url"
+            value={url}
+            onChange={(e) => { setUrl(e.target.value); setSaved(false); }}
+            placeholder={DEFAULT_API_BASE_URL}
+            className="w-full text-sm bg-white border border-brand-green/30 px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+          />
+          <p className="text-xs text-brand-text-light">{t.backendUrlHelp}</p>
+          {error && <p className="text-xs text-red-700">{error}</p>}
+        </div>
+
+        <div className="text-sm min-h-[1.5rem]">{renderStatus()}</div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button onClick={handleReset} className="text-sm px-3 py-2 rounded-md text-brand-text-light hover:bg-brand-brown-light">
+            {t.resetToDefault}
+          </button>
+          <button onClick={handleTest} disabled={checking} className="text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md hover:bg-brand-green/20 transition-colors disabled:opacity-50">
+            {t.testConnection}
+          </button>
+          <button onClick={handleSave} className="text-sm bg-brand-green text-white px-3 py-2 rounded-md hover:bg-brand-green-dark transition-colors">
+            {saved ? t.saved : t.save}
+          </button>
+        </div>
+
+        <div className="pt-4 border-t border-brand-green/20 space-y-2">
+          <label className="flex items-center gap-2 text-sm font-semibold text-brand-text">
+            <input type="checkbox" checked={onDevice} onChange={(e) => handleToggleOnDevice(e.target.checked)} className="accent-brand-green" />
+            {t.onDeviceInference}
+          </label>
+          <p className="text-xs text-brand-text-light">{t.onDeviceInferenceHelp}</p>
+          <p className="text-xs text-brand-text">
+            {modelStatus?.downloaded && modelStatus.downloadedAt
+              ? t.modelsDownloaded.replace('{date}', new Date(modelStatus.downloadedAt).toLocaleDateString())
+              : t.modelsNotDownloaded}
+          </p>
+          {modelError && <p className="text-xs text-red-700">{modelError}</p>}
+          {parity && (
+            <ul className="text-xs text-brand-text space-y-0.5">
+              <li>{parity.inputMatches ? t.parityInputMatch : t.parityInputMismatch}</li>
+              <li>{t.parityProbabilityDiff.replace('{diff}', Math.max(parity.maxProbabilityDiff, parity.plantProbabilityDiff).toExponential(2))}</li>
+              <li>
+                {parity.localTopClass === parity.serverTopClass
+                  ? t.paritySameClass
+                  : t.parityDifferentClass.replace('{local}', parity.localTopClass).replace('{server}', parity.serverTopClass)}
+              </li>
+            </ul>
+          )}
+          <input ref={parityInputRef} type="file" accept="image/*" onChange={handleParityFile} className="hidden" />
+          <div className="flex flex-wrap justify-end gap-2">
+            {modelStatus?.downloaded && (
+              <button
+                onClick={() => parityInputRef.current?.click()}
+                disabled={checkingParity}
+                className="text-sm px-3 py-2 rounded-md text-brand-text-light hover:bg-brand-brown-light disabled:opacity-50"
+              >
+                {checkingParity ? t.parityChecking : t.parityCheck}
+              </button>
+            )}
+            <button
+              onClick={handleDownloadModels}
+              disabled={downloading}
+              className="text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md hover:bg-brand-green/20 transition-colors disabled:opacity-50"
+            >
+              {downloading ? t.downloadingModels : modelStatus?.downloaded ? t.updateModels : t.downloadModels}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { Language, SprayRating, SprayWindow, WeatherInfo } from '../types';
+import { getSprayWindows } from '../services/sprayAdvisor';
+
+interface SprayWindowAdvisorProps {
+  t: Record<string, string>;
+  language: Language;
+  forecast: WeatherInfo[];
+  // Compact mode shows only the day timelines, for the weather card.
+  compact?: boolean;
+}
+
+const RATING_STYLES: Record<SprayRating, string> = {
+  good: 'bg-brand-green',
+  marginal: 'bg-amber-400',
+  poor: 'bg-red-400',
+};
+
+const MAX_LISTED_WINDOWS = 6;
+
+const SprayWindowAdvisor: React.FC<SprayWindowAdvisorProps> = ({ t, language, forecast, compact = false }) => {
+  // Night slots are never recommended, so leave them out of the timeline entirely.
+  const windows = useMemo(() => getSprayWindows(forecast).filter(w => !w.reasons.includes('night')), [forecast]);
+
+  if (windows.length === 0) return null;
+
+  const formatTime = (time: number) => new Intl.DateTimeFormat(language, { hour: 'numeric', minute: '2-digit' }).format(new Date(time));
+  const formatDay = (time: number) => new Intl.DateTimeFormat(language, { weekday: 'short' }).format(new Date(time));
+  const describe = (w: SprayWindow) =>
+    `${formatDay(w.start)} ${formatTime(w.start)}–${formatTime(w.end)}: ${t[`spray_${w.rating}`]}` +
+    (w.reasons.length > 0 ? ` (${w.reasons.map(r => t[`sprayReason_${r}`]).join(', ')})` : '');
+
+  const byDay = new Map<string, SprayWindow[]>();
+  windows.forEach(w => {
+    const key = new Date(w.start).toDateString();
+    byDay.set(key, [...(byDay.get(key) || []), w]);
+  });
+
+  const nextGood = windows.find(w => w.rating === 'good');
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-brand-text">
+        {nextGood
+          ? t.sprayNextWindow.replace('{window}', `${formatDay(nextGood.start)} ${formatTime(nextGood.start)}–${formatTime(nextGood.end)}`)
+          : t.sprayNoWindow}
+      </p>
+
+      <div className="space-y-1">
+        {Array.from(byDay.values()).map(dayWindows => {
+          const dayStart = dayWindows[0].start;
+          const total = dayWindows[dayWindows.length - 1].end - dayStart;
+          return (
+            <div key={dayStart} className="flex items-center gap-2">
+              <span className="w-10 text-xs text-brand-text-light flex-shrink-0">{formatDay(dayStart)}</span>
+              <div className="flex flex-grow h-3 rounded-full overflow-hidden bg-brand-brown-light">
+                {dayWindows.map(w => (
+                  <div
+                    key={w.start}
+                    className={`${RATING_STYLES[w.rating]} border-r border-white/60 last:border-r-0`}
+                    style={{ width: `${((w.end - w.start) / total) * 100}%` }}
+                    title={describe(w)}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3 text-[10px] text-brand-text-light">
+        {(['good', 'marginal', 'poor'] as SprayRating[]).map(rating => (
+          <span key={rating} className="flex items-center gap-1">
+            <span className={`w-2 h-2 rounded-full ${RATING_STYLES[rating]}`} />
+            {t[`spray_${rating}`]}
+          </span>
+        ))}
+      </div>
+
+      {!compact && (
+        <ul className="text-xs text-brand-text-light space-y-1 pt-1">
+          {windows.slice(0, MAX_LISTED_WINDOWS).map(w => (
+            <li key={w.start} className="flex items-start gap-2">
+              <span className={`mt-1 w-2 h-2 rounded-full flex-shrink-0 ${RATING_STYLES[w.rating]}`} />
+              <span>{describe(w)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SprayWindowAdvisor;
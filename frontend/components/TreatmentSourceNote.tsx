@@ -0,0 +1,52 @@
+import React from 'react';
+import { TreatmentSource } from '../types';
+import BookOpenIcon from './icons/BookOpenIcon';
+import AlertTriangleIcon from './icons/AlertTriangleIcon';
+
+interface TreatmentSourceNoteProps {
+  t: Record<string, string>;
+  source: TreatmentSource;
+}
+
+// One-line description of where the treatment advice came from; also used in the printable report.
+export const describeTreatmentSource = (source: TreatmentSource, t: Record<string, string>): string => {
+  if (source.source === 'llm') return t.treatmentSourceLlm;
+  const version = String(source.version ?? 1);
+  if (source.reviewStatus === 'approved') {
+    return t.treatmentSourceApproved
+      .replace('{reviewer}', source.reviewedBy || '')
+      .replace('{date}', source.reviewedAt || '')
+      .replace('{version}', version);
+  }
+  return t.treatmentSourceDraft.replace('{version}', version);
+};
+
+const TreatmentSourceNote: React.FC<TreatmentSourceNoteProps> = ({ t, source }) => {
+  const isLlm = source.source === 'llm';
+
+  return (
+    <div className={`p-3 rounded-md text-xs ${isLlm ? 'bg-amber-50 border border-amber-300 text-amber-900' : 'bg-brand-green-light text-brand-green-dark'}`}>
+      <div className="flex items-start gap-2">
+        {isLlm
+          ? <AlertTriangleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          : <BookOpenIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />}
+        <p className={isLlm ? 'font-semibold' : ''}>{describeTreatmentSource(source, t)}</p>
+      </div>
+      {source.references.length > 0 && (
+        <details className="mt-2 ml-6">
+          <summary className="cursor-pointer font-semibold">{t.treatmentReferences}</summary>
+          <ul className="list-disc list-inside mt-1 space-y-0.5">
+            {source.references.map(ref => (
+              <li key={ref.title}>
+                {ref.url ? <a href={ref.url} target="_blank" rel="noopener noreferrer" className="underline">{ref.title}</a> : ref.title}
+                {ref.publisher && <span className="opacity-75"> — {ref.publisher}</span>}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default TreatmentSourceNote;
@@ -1,17 +1,31 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Card from './shared/Card';
 import SunIcon from './icons/SunIcon';
 import CloudIcon from './icons/CloudIcon';
 import CloudRainIcon from './icons/CloudRainIcon';
 import ThermometerIcon from './icons/ThermometerIcon';
 import AlertTriangleIcon from './icons/AlertTriangleIcon';
-import { Language, WeatherInfo } from '../types';
-import { WEATHER_API_KEY } from '../constants';
+import HourlyWeatherChart from './HourlyWeatherChart';
+import SprayWindowAdvisor from './SprayWindowAdvisor';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+import XIcon from './icons/XIcon';
+import FarmPlotForm from './FarmPlotForm';
+import { FarmPlot, GeoLocation, Language, WeatherInfo } from '../types';
+import { fetchHourlyForecast, groupForecastByDay } from '../services/weatherService';
+import { getErrorMessage } from '../services/apiClient';
 
 
 interface WeatherForecastProps {
   t: Record<string, string>;
   language: Language;
+  // Receives the forecast whenever it is (re)loaded, so other parts of the app can use the current weather.
+  onForecast?: (forecast: WeatherInfo[]) => void;
+  plots: FarmPlot[];
+  // The plot whose weather is shown; null means the device's current position.
+  activePlot: FarmPlot | null;
+  onSelectPlot: (id: string | null) => void;
+  onAddPlot: (name: string, location: GeoLocation, crops: string[]) => void;
+  onDeletePlot: (plot: FarmPlot) => void;
 }
 
 const WeatherIcon: React.FC<{ iconCode: string }> = ({ iconCode }) => {
@@ -28,113 +42,48 @@ const WeatherIcon: React.FC<{ iconCode: string }> = ({ iconCode }) => {
   }
 };
 
-const WeatherForecast: React.FC<WeatherForecastProps> = ({ t, language }) => {
+const WeatherForecast: React.FC<WeatherForecastProps> = ({ t, language, onForecast, plots, activePlot, onSelectPlot, onAddPlot, onDeletePlot }) => {
   const [weatherData, setWeatherData] = useState<WeatherInfo[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [expandedDate, setExpandedDate] = useState<string | null>(null);
+  const [addingPlot, setAddingPlot] = useState<boolean>(false);
+  // Incremented for every load, so a late response for a plot that is no longer selected is dropped.
+  const requestIdRef = useRef(0);
 
-
-  const fetchWeatherData = useCallback(async (latitude: number, longitude: number) => {
+  const fetchWeatherData = useCallback(async (latitude: number, longitude: number, requestId: number) => {
     setLoading(true);
     setError(null);
 
-    // FIX: Removed check for placeholder API key as a real key is provided.
-    if (!WEATHER_API_KEY) {
-      setError(t.weatherErrorNoKey);
-      setLoading(false);
-      return;
-    }
-
     try {
-      const response = await fetch(`https://api.openweathermap.org/data/2.5/forecast?lat=${latitude}&lon=${longitude}&appid=${WEATHER_API_KEY}&units=metric&lang=${language}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch weather data from OpenWeather API.');
-      }
-      const data = await response.json();
-
-      const dailyForecasts: { [key: string]: any } = {};
-      data.list.forEach((item: any) => {
-        const date = item.dt_txt.split(' ')[0];
-        // Only store the first forecast for each day.
-        if (!dailyForecasts[date]) {
-          dailyForecasts[date] = item;
-        }
-      });
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(today.getDate() + 1);
-      const dayAfter = new Date(today);
-      dayAfter.setDate(today.getDate() + 2);
-
-      const toKey = (d: Date) => d.toISOString().split('T')[0];
-      const targetKeys = [toKey(today), toKey(tomorrow), toKey(dayAfter)];
-
-      const availableKeys = Object.keys(dailyForecasts).sort();
-      const picked: any[] = [];
-      const usedKeys = new Set<string>();
-
-      // For each target day, prefer exact key; otherwise pick the next available future key not used.
-      for (const tk of targetKeys) {
-        if (dailyForecasts[tk] && !usedKeys.has(tk)) {
-          picked.push(dailyForecasts[tk]);
-          usedKeys.add(tk);
-          continue;
-        }
-
-        // find next available key greater than tk
-        const candidateKey = availableKeys.find(k => k >= tk && !usedKeys.has(k));
-        if (candidateKey) {
-          picked.push(dailyForecasts[candidateKey]);
-          usedKeys.add(candidateKey);
-          continue;
-        }
-
-        // fall back: any unused key
-        const anyKey = availableKeys.find(k => !usedKeys.has(k));
-        if (anyKey) {
-          picked.push(dailyForecasts[anyKey]);
-          usedKeys.add(anyKey);
-          continue;
-        }
-
-        picked.push(null);
-      }
-
-      const dayDates = [today, tomorrow, dayAfter];
-
-      const formattedData = picked.map((item: any, idx: number): WeatherInfo => {
-        const dayLabelFallback = new Intl.DateTimeFormat(language, { weekday: 'long' }).format(dayDates[idx]);
-        const dayLabel = idx === 0 ? t.today : idx === 1 ? t.tomorrow : (t.dayAfterTomorrow || dayLabelFallback);
-
-        if (!item) {
-          return {
-            day: dayLabel,
-            temp: 0,
-            condition: '',
-            icon: '01d',
-          };
-        }
-
-        return {
-          day: dayLabel,
-          temp: Math.round(item.main.temp),
-          condition: item.weather[0].description,
-          icon: item.weather[0].icon,
-        };
-      });
-
-      setWeatherData(formattedData.slice(0, 3));
+      const hourly = await fetchHourlyForecast(latitude, longitude, language);
+      if (requestId !== requestIdRef.current) return;
+      const daily = groupForecastByDay(hourly, language, t);
+      setWeatherData(daily);
+      onForecast?.(daily);
     } catch (err) {
-      setError(t.weatherErrorApi);
+      if (requestId !== requestIdRef.current) return;
+      setWeatherData([]);
+      setError(getErrorMessage(err, t, 'weatherErrorApi'));
       console.error(err);
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) setLoading(false);
     }
-  }, [language, t.today, t.tomorrow, t.dayAfterTomorrow, t.weatherErrorApi, t.weatherErrorNoKey]);
+  }, [language, onForecast, t]);
+
+  // Depend on the coordinates rather than the plot object, so editing a plot's crops doesn't refetch the weather.
+  const plotLatitude = activePlot?.location.latitude;
+  const plotLongitude = activePlot?.location.longitude;
 
   useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    // Until the new forecast arrives, the risk panel and spray advisor must not show the previous place's weather.
+    onForecast?.([]);
+
+    if (plotLatitude !== undefined && plotLongitude !== undefined) {
+      fetchWeatherData(plotLatitude, plotLongitude, requestId);
+      return;
+    }
 
     if (!navigator.geolocation) {
       setError(t.weatherErrorLocation);
@@ -144,9 +93,11 @@ const WeatherForecast: React.FC<WeatherForecastProps> = ({ t, language }) => {
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        fetchWeatherData(position.coords.latitude, position.coords.longitude);
+        if (requestId !== requestIdRef.current) return;
+        fetchWeatherData(position.coords.latitude, position.coords.longitude, requestId);
       },
       (err) => {
+        if (requestId !== requestIdRef.current) return;
         console.error(`Geolocation error: Code ${err.code} - ${err.message}`);
         let errorMessage = t.weatherErrorLocation;
         switch (err.code) {
@@ -165,7 +116,7 @@ const WeatherForecast: React.FC<WeatherForecastProps> = ({ t, language }) => {
       },
       { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
     );
-  }, [fetchWeatherData, t.weatherErrorLocation, t.weatherErrorPermissionDenied, t.weatherErrorPositionUnavailable, t.weatherErrorTimeout]);
+  }, [fetchWeatherData, onForecast, plotLatitude, plotLongitude, t.weatherErrorLocation, t.weatherErrorPermissionDenied, t.weatherErrorPositionUnavailable, t.weatherErrorTimeout]);
 
   const renderContent = () => {
     if (loading) {
@@ -182,6 +133,7 @@ const WeatherForecast: React.FC<WeatherForecastProps> = ({ t, language }) => {
         <div className="flex flex-col items-center justify-center text-center h-full min-h-[150px] gap-3 p-4 bg-red-50 rounded-lg">
           <AlertTriangleIcon className="w-8 h-8 text-red-500" />
           <p className="text-red-700 font-medium">{error}</p>
+          {!activePlot && <p className="text-sm text-brand-text-light">{t.weatherAddPlotHint}</p>}
         </div>
       );
     }
@@ -196,24 +148,85 @@ const WeatherForecast: React.FC<WeatherForecastProps> = ({ t, language }) => {
 
     return (
       <div className="space-y-3 animate-fade-in">
-        {weatherData.map((weather) => (
-          <div key={weather.day} className="flex justify-between items-center p-3 bg-brand-green-light rounded-lg">
-            <div className="flex items-center gap-3">
-              <WeatherIcon iconCode={weather.icon} />
-              <div>
-                <p className="font-semibold text-brand-text">{weather.day}</p>
-                <p className="text-sm text-brand-text-light capitalize">{weather.condition}</p>
+        {weatherData.map((weather) => {
+          const expanded = expandedDate === weather.date;
+          return (
+            <div key={weather.date} className="p-3 bg-brand-green-light rounded-lg">
+              <button
+                onClick={() => setExpandedDate(expanded ? null : weather.date)}
+                aria-expanded={expanded}
+                className="w-full flex justify-between items-center text-left"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <WeatherIcon iconCode={weather.icon} />
+                  <div className="min-w-0">
+                    <p className="font-semibold text-brand-text">{weather.day}</p>
+                    <p className="text-sm text-brand-text-light capitalize truncate">{weather.condition}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <p className="text-lg font-bold text-brand-green-dark">
+                    {weather.tempMax}°<span className="text-sm font-normal text-brand-text-light"> / {weather.tempMin}°</span>
+                  </p>
+                  <ChevronDownIcon className={`w-4 h-4 text-brand-green-dark transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                </div>
+              </button>
+              <div className="grid grid-cols-3 gap-2 mt-2 text-xs text-brand-text-light">
+                <p><span className="font-semibold text-brand-text">{t.humidity}</span> {weather.humidity}%</p>
+                <p><span className="font-semibold text-brand-text">{t.rainfall}</span> {weather.rain} mm ({Math.round(weather.pop * 100)}%)</p>
+                <p><span className="font-semibold text-brand-text">{t.wind}</span> {weather.windSpeed}–{weather.windGust} km/h</p>
               </div>
+              {expanded && <HourlyWeatherChart t={t} language={language} slots={weather.hourly} />}
             </div>
-            <p className="text-lg font-bold text-brand-green-dark">{weather.temp}°C</p>
-          </div>
-        ))}
+          );
+        })}
+        <div className="p-3 rounded-lg border border-brand-green-light">
+          <p className="font-semibold text-brand-text text-sm mb-2">{t.sprayWindows}</p>
+          <SprayWindowAdvisor t={t} language={language} forecast={weatherData} compact />
+        </div>
       </div>
     );
   }
 
   return (
     <Card title={t.weatherForecast} icon={<ThermometerIcon className="w-6 h-6 text-brand-green" />}>
+      <div className="flex gap-2 mb-4">
+        <select
+          value={activePlot?.id ?? ''}
+          onChange={(e) => onSelectPlot(e.target.value || null)}
+          aria-label={t.farmPlot}
+          className="flex-1 min-w-0 text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-green"
+        >
+          <option value="">{t.currentLocation}</option>
+          {plots.map(plot => <option key={plot.id} value={plot.id}>{plot.name}</option>)}
+        </select>
+        {activePlot && (
+          <button
+            onClick={() => onDeletePlot(activePlot)}
+            title={t.deletePlot}
+            className="p-2 text-brand-text-light hover:text-red-600 transition-colors flex-shrink-0"
+          >
+            <XIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setAddingPlot(adding => !adding)}
+          aria-expanded={addingPlot}
+          className="text-sm bg-brand-green/10 text-brand-green-dark px-3 py-2 rounded-md hover:bg-brand-green/20 transition-colors flex-shrink-0"
+        >
+          {t.addPlot}
+        </button>
+      </div>
+      {addingPlot && (
+        <FarmPlotForm
+          t={t}
+          onSave={(name, location, crops) => {
+            onAddPlot(name, location, crops);
+            setAddingPlot(false);
+          }}
+          onCancel={() => setAddingPlot(false)}
+        />
+      )}
       {renderContent()}
     </Card>
   );
@@ -0,0 +1,9 @@
+import React from 'react';
+
+const StopIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <rect x="6" y="6" width="12" height="12" rx="1"></rect>
+  </svg>
+);
+
+export default StopIcon;
@@ -1,11 +1,18 @@
 import { Language } from './types';
 
-// Default backend URL for local development. Replace with your actual backend URL for production.
-export const API_BASE_URL = 'https://anandvelpuri-team-bahubali-backend.hf.space';
-// Read the OpenWeather API key from Vite environment variables.
-// NOTE: This still exposes the key to client-side bundles. For full security,
-// proxy requests through your backend and keep the key server-side.
-export const WEATHER_API_KEY = import.meta.env.VITE_OPEN_WEATHER_API_KEY as string | undefined;
+// Backend used unless VITE_API_BASE_URL is set at build time or a URL is saved in the settings panel.
+export const DEFAULT_API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://anandvelpuri-team-bahubali-backend.hf.space';
+// Crops the disease model knows, named as in the backend's class_names.json; used for the crop hint.
+export const CROPS = [
+  'Apple', 'Blueberry', 'Cherry_(including_sour)', 'Corn_(maize)', 'Grape', 'Orange', 'Peach',
+  'Pepper,_bell', 'Potato', 'Raspberry', 'Soybean', 'Squash', 'Strawberry', 'Tomato',
+];
+// Predictions below this confidence (in percent) are shown as uncertain rather than as a firm diagnosis.
+export const LOW_CONFIDENCE_THRESHOLD = 60;
+// Maximum number of /detect_disease requests in flight during a batch upload.
+export const BATCH_CONCURRENCY = 3;
+// When enabled, chat sessions are mirrored to the backend in addition to this device.
+export const SYNC_CHAT_SESSIONS = import.meta.env.VITE_SYNC_CHAT_SESSIONS === 'true';
 
 export const TRANSLATIONS: Record<Language, Record<string, string>> = {
   en: {
@@ -53,6 +60,256 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     noValidLeafDetected: 'No valid plant leaf detected. Please upload a clear image of a plant leaf.',
     tryAgain: 'Try again',
     tryAnother: 'Try another',
+    confidence: 'Confidence',
+    alternativeDiagnoses: 'Other Possibilities',
+    uncertainDiagnosis: 'Uncertain result',
+    uncertainDiagnosisHint: 'The model is not confident about this result. Compare the possibilities below, retake a clearer photo, or consult an agronomist before treating.',
+    possibly: 'Possibly: {diseaseName}',
+    diagnosisHistory: 'Diagnosis History',
+    historyLoading: 'Loading history...',
+    historyEmpty: 'No past scans yet. Your diagnoses will appear here.',
+    historyError: 'Could not access the diagnosis history on this device.',
+    allCrops: 'All crops',
+    allDiseases: 'All diseases',
+    filterByCrop: 'Filter by crop',
+    filterByDisease: 'Filter by disease',
+    openDiagnosis: 'Open this diagnosis',
+    deleteDiagnosis: 'Delete',
+    confirmDeleteDiagnosis: 'Delete this diagnosis from your history?',
+    savedOffline: 'You are offline. This scan has been saved and will be analyzed automatically when the connection returns.',
+    pendingSync: 'Waiting for connection',
+    syncFailed: 'Analysis failed',
+    dropImagesHint: 'Or drop several leaf photos, or a whole folder, here to diagnose them together.',
+    batchResults: 'Batch Diagnosis',
+    batchProgress: '{done} of {total} images analyzed',
+    batchSummary: 'Summary',
+    healthy: 'Healthy',
+    infected: 'Infected',
+    healthyRatio: 'Healthy vs infected',
+    diseaseCounts: 'Cases per disease',
+    image: 'Image',
+    result: 'Result',
+    status: 'Status',
+    statusQueued: 'Queued',
+    statusProcessing: 'Analyzing',
+    statusDone: 'Done',
+    statusFailed: 'Failed',
+    retry: 'Retry',
+    retryFailed: 'Retry failed images',
+    stopGenerating: 'Stop generating',
+    cropStage: 'Crop stage',
+    cropStage_seedling: 'Seedling',
+    cropStage_vegetative: 'Vegetative',
+    cropStage_flowering: 'Flowering',
+    cropStage_fruiting: 'Fruiting',
+    cropStage_harvest: 'Near harvest',
+    exportTranscript: 'Export chat transcript',
+    diagnosis: 'Diagnosis',
+    exportedOn: 'Exported on',
+    you: 'You',
+    downloadReport: 'Download report',
+    preparingReport: 'Preparing report...',
+    reportError: 'Could not create the report. Please try again.',
+    diagnosisReport: 'Diagnosis Report',
+    reportDate: 'Date',
+    reportLocation: 'Location',
+    reportWeather: 'Weather',
+    notAvailable: 'Not available',
+    weatherIcon_01: 'Clear sky',
+    weatherIcon_02: 'Few clouds',
+    weatherIcon_03: 'Scattered clouds',
+    weatherIcon_04: 'Cloudy',
+    weatherIcon_09: 'Showers',
+    weatherIcon_10: 'Rain',
+    weatherIcon_11: 'Thunderstorm',
+    weatherIcon_13: 'Snow',
+    weatherIcon_50: 'Mist',
+    humidity: 'Humidity',
+    rainfall: 'Rain',
+    wind: 'Wind',
+    gust: 'Gust',
+    hourlyForecast: '3-hourly forecast',
+    hourlyLegend: 'Bars: rain (mm). Below: wind/gust (km/h), humidity, rain (mm).',
+    sprayWindows: 'Spray Windows',
+    sprayNextWindow: 'Next good time to spray: {window}',
+    sprayNoWindow: 'No good spraying window in the forecast. Wait for calmer, drier weather if you can.',
+    spray_good: 'Good',
+    spray_marginal: 'Use caution',
+    spray_poor: 'Avoid',
+    sprayReason_night: 'night',
+    sprayReason_raining: 'rain expected',
+    sprayReason_rainSoon: 'rain within 6 hours',
+    sprayReason_windTooStrong: 'too windy',
+    sprayReason_windTooCalm: 'too calm, drift risk',
+    sprayReason_tooHot: 'too hot',
+    sprayReason_tooCold: 'too cold',
+    sprayReason_lowHumidity: 'dry air, fast evaporation',
+    sprayReason_highHumidity: 'very humid, wet leaves',
+    diseaseRisk: 'Disease Risk (Next 72 Hours)',
+    myCrops: 'My crops',
+    riskSelectCrops: 'Select the crops you grow to see which diseases the coming weather favors.',
+    riskNoForecast: 'The disease-risk outlook needs the weather forecast for your location.',
+    riskFavorableHours: '{hours} h of favorable weather',
+    risk_low: 'Low',
+    risk_moderate: 'Moderate',
+    risk_high: 'High',
+    riskDisclaimer: 'Estimated from forecast temperature, humidity and rain as a stand-in for leaf wetness. Scout your fields before treating.',
+    crop_apple: 'Apple',
+    crop_cherry: 'Cherry',
+    crop_corn: 'Corn (maize)',
+    crop_grape: 'Grape',
+    crop_peach: 'Peach',
+    crop_bell_pepper: 'Bell pepper',
+    crop_potato: 'Potato',
+    crop_squash: 'Squash',
+    crop_strawberry: 'Strawberry',
+    crop_tomato: 'Tomato',
+    disease_apple_scab: 'Apple scab',
+    disease_black_rot: 'Black rot',
+    disease_cedar_apple_rust: 'Cedar apple rust',
+    disease_powdery_mildew: 'Powdery mildew',
+    disease_gray_leaf_spot: 'Cercospora leaf spot (gray leaf spot)',
+    disease_common_rust: 'Common rust',
+    disease_northern_leaf_blight: 'Northern leaf blight',
+    disease_isariopsis_leaf_spot: 'Leaf blight (Isariopsis leaf spot)',
+    disease_bacterial_spot: 'Bacterial spot',
+    disease_early_blight: 'Early blight',
+    disease_late_blight: 'Late blight',
+    disease_leaf_scorch: 'Leaf scorch',
+    disease_leaf_mold: 'Leaf mold',
+    disease_septoria_leaf_spot: 'Septoria leaf spot',
+    disease_spider_mites: 'Two-spotted spider mite',
+    disease_target_spot: 'Target spot',
+    farmPlot: 'Farm plot',
+    currentLocation: 'My current location',
+    addPlot: '+ Plot',
+    deletePlot: 'Delete plot',
+    confirmDeletePlot: 'Delete the plot "{plot}"?',
+    plotName: 'Plot name',
+    searchPlace: 'Search for a village or town',
+    search: 'Search',
+    noPlacesFound: 'No places found.',
+    placeSearchError: 'Place search failed. Enter the coordinates instead.',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    useCurrentLocation: 'Use my current location',
+    plotCrops: 'Crops grown here',
+    savePlot: 'Save plot',
+    plotNameRequired: 'Please give the plot a name.',
+    invalidCoordinates: 'Enter a latitude between -90 and 90 and a longitude between -180 and 180.',
+    weatherAddPlotHint: 'You can also add a farm plot by searching for a place or entering its coordinates.',
+    cropsOnPlot: 'Crops on {plot}',
+    settings: 'Settings',
+    close: 'Close',
+    backendUrl: 'Backend URL',
+    backendUrlHelp: 'Leave empty to use the default server. Use e.g. http://127.0.0.1:8000 for a local backend.',
+    invalidBackendUrl: 'Enter a full http:// or https:// URL.',
+    backendChecking: 'Checking connection…',
+    backendReachable: 'Backend reachable ({ms} ms)',
+    backendUnreachable: 'Backend not reachable',
+    resetToDefault: 'Reset to default',
+    testConnection: 'Test connection',
+    save: 'Save',
+    saved: 'Saved',
+    errorApi: 'Could not get a response from the server. Please try again.',
+    errorInvalidImage: 'This file could not be read as an image. Please upload a JPG or PNG photo.',
+    errorLlmUnavailable: 'The AI assistant is temporarily unavailable. Please try again in a few minutes.',
+    errorInvalidRequest: 'The request was not valid. Please check your input and try again.',
+    errorNotFound: 'The requested item was not found.',
+    errorRateLimited: 'Too many requests. Please try again in a minute.',
+    cropHint: 'Crop',
+    cropHintAuto: 'Not sure – detect automatically',
+    cropHintDisagrees: 'Limited to {crop} as you selected. Across all crops the model\'s top guess was {diseaseName} ({confidence}%) – check that the right crop is selected.',
+    pathogen_fungal: 'Fungal',
+    pathogen_bacterial: 'Bacterial',
+    pathogen_viral: 'Viral',
+    pathogen_pest: 'Pest',
+    treatmentSource: 'Source of advice',
+    treatmentSourceApproved: 'Reviewed by {reviewer} on {date} · knowledge base v{version}',
+    treatmentSourceDraft: 'From the curated knowledge base (v{version}) · awaiting agronomist review',
+    treatmentSourceLlm: 'AI-generated: this disease is not in the reviewed knowledge base yet. Check the advice with a local agronomist before acting on it.',
+    treatmentReferences: 'References',
+    qualityWarningTitle: 'This photo may give an unreliable result',
+    quality_blurry: 'The photo is blurry. Hold the phone steady and tap the leaf on screen to focus.',
+    quality_tooDark: 'The photo is too dark. Move into daylight or face the light source.',
+    quality_tooBright: 'The photo is overexposed. Avoid direct sunlight on the leaf; shade it with your hand or body.',
+    quality_lowCoverage: 'The leaf fills too little of the frame. Move closer so one leaf fills most of the photo.',
+    quality_lowResolution: 'The image resolution is too low. Use the camera directly instead of a screenshot or forwarded image.',
+    retakePhoto: 'Retake photo',
+    detectAnyway: 'Detect anyway',
+    heatmap: 'Disease heatmap',
+    heatmapHint: 'Red areas influenced the diagnosis most. If they are on the background rather than the leaf, retake the photo against a plain background.',
+    onDeviceInference: 'Diagnose on this device',
+    onDeviceInferenceHelp: 'Runs the disease models in the browser so leaves can be diagnosed without a connection. Treatment advice is added when you are back online.',
+    modelsDownloaded: 'Models downloaded on {date}',
+    modelsNotDownloaded: 'Models not downloaded yet; diagnoses use the server until they are.',
+    downloadModels: 'Download models',
+    updateModels: 'Update models',
+    downloadingModels: 'Downloading…',
+    modelDownloadFailed: 'Could not download the models. Check the backend connection and try again.',
+    parityCheck: 'Compare with server',
+    parityChecking: 'Comparing…',
+    parityFailed: 'The comparison failed. The backend needs ENABLE_DEBUG_ENDPOINTS=true.',
+    parityInputMatch: 'Preprocessed image: identical',
+    parityInputMismatch: 'Preprocessed image: differs from the server',
+    parityProbabilityDiff: 'Largest probability difference: {diff}',
+    paritySameClass: 'Same top class on both sides',
+    parityDifferentClass: 'Top class differs: {local} on device, {server} on server',
+    treatmentPending: 'Diagnosed on this device. Treatment advice will be added when you are back online.',
+    severityBadge: '{grade} · {percent}% of leaf',
+    severityHint: 'Estimated share of the leaf area with lesions or discolouration',
+    severity_trace: 'Trace',
+    severity_mild: 'Mild',
+    severity_moderate: 'Moderate',
+    severity_severe: 'Severe',
+    plantTag: 'Plant / plot',
+    plantTagPlaceholder: 'e.g. Row 3, plant 2',
+    filterByTag: 'Filter by plant or plot',
+    allTags: 'All plants and plots',
+    viewProgress: 'View progress',
+    progressTitle: 'Progress: {tag}',
+    progressBefore: 'Before',
+    progressAfter: 'After',
+    progressTimeline: 'All scans',
+    progressConfidence: '{confidence}% confidence',
+    trend_resolved: 'The latest scan looks healthy. The treatment appears to have worked.',
+    trend_improving: 'The treatment appears to be working: the affected area is down {change} percentage points.',
+    trend_stable: 'No clear change in the affected area yet.',
+    trend_worsening: 'Getting worse: the affected area is up {change} percentage points. Review the treatment with an agronomist.',
+    trend_insufficient: 'Scan this plant again after treatment to see whether it is working.',
+    errorAuthRequired: 'Your session has ended. Please sign in again.',
+    errorInvalidCredentials: 'Wrong phone number, email or password.',
+    errorUsernameTaken: 'An account with this phone number or email already exists.',
+    signIn: 'Sign in',
+    createAccount: 'Create account',
+    accountHelp: 'Sign in to keep your farm profile, scans and chats in your account and see them on any device.',
+    username: 'Phone number or email',
+    usernamePlaceholder: 'e.g. 9876543210',
+    password: 'Password',
+    usernameRequired: 'Enter your phone number or email.',
+    passwordTooShort: 'The password must have at least {count} characters.',
+    noAccountYet: 'No account yet? Create one',
+    haveAccount: 'Already have an account? Sign in',
+    farmProfile: 'Farm profile',
+    signedInAs: 'Signed in as {username}',
+    loadingProfile: 'Loading profile…',
+    farmerName: 'Your name',
+    cooperative: 'Cooperative',
+    farmLocation: 'Village or location',
+    acreage: 'Farm size (acres)',
+    soilType: 'Soil type',
+    soil_alluvial: 'Alluvial',
+    soil_black: 'Black',
+    soil_red: 'Red',
+    soil_laterite: 'Laterite',
+    soil_clay: 'Clay',
+    soil_loam: 'Loam',
+    soil_sandy: 'Sandy',
+    cropsGrown: 'Crops grown',
+    invalidAcreage: 'Enter the farm size as a number of acres.',
+    signOut: 'Sign out',
+    showHeatmap: 'Show where the disease was seen',
+    loadingHeatmap: 'Computing heatmap…',
   },
   te: {
     title: 'అగ్రోలెన్స్',
@@ -100,6 +357,255 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     noValidLeafDetected: 'సరైన మొక్క ఆకును గుర్తించలేకపోయాం. దయచేసి మొక్క ఆకును స్పష్టంగా అప్‌లోడ్ చేయండి.',
     tryAgain: 'మళ్లీ ప్రయత్నించండి',
     tryAnother: 'ఇంకొకదాన్ని ప్రయత్నించండి',
+    confidence: 'విశ్వసనీయత',
+    alternativeDiagnoses: 'ఇతర అవకాశాలు',
+    uncertainDiagnosis: 'అనిశ్చిత ఫలితం',
+    uncertainDiagnosisHint: 'ఈ ఫలితంపై మోడల్‌కు నమ్మకం తక్కువగా ఉంది. చికిత్స చేసే ముందు క్రింది అవకాశాలను పోల్చండి, స్పష్టమైన ఫోటో మళ్లీ తీయండి లేదా వ్యవసాయ నిపుణుడిని సంప్రదించండి.',
+    possibly: 'బహుశా: {diseaseName}',
+    diagnosisHistory: 'నిర్ధారణ చరిత్ర',
+    historyLoading: 'చరిత్ర లోడ్ అవుతోంది...',
+    historyEmpty: 'ఇంకా గత స్కాన్‌లు లేవు. మీ నిర్ధారణలు ఇక్కడ కనిపిస్తాయి.',
+    historyError: 'ఈ పరికరంలో నిర్ధారణ చరిత్రను యాక్సెస్ చేయడం సాధ్యం కాలేదు.',
+    allCrops: 'అన్ని పంటలు',
+    allDiseases: 'అన్ని వ్యాధులు',
+    filterByCrop: 'పంట ద్వారా ఫిల్టర్ చేయండి',
+    filterByDisease: 'వ్యాధి ద్వారా ఫిల్టర్ చేయండి',
+    openDiagnosis: 'ఈ నిర్ధారణను తెరవండి',
+    deleteDiagnosis: 'తొలగించు',
+    confirmDeleteDiagnosis: 'ఈ నిర్ధారణను మీ చరిత్ర నుండి తొలగించాలా?',
+    savedOffline: 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు. ఈ స్కాన్ సేవ్ చేయబడింది, కనెక్షన్ తిరిగి వచ్చినప్పుడు స్వయంచాలకంగా విశ్లేషించబడుతుంది.',
+    pendingSync: 'కనెక్షన్ కోసం వేచి ఉంది',
+    syncFailed: 'విశ్లేషణ విఫలమైంది',
+    dropImagesHint: 'లేదా అనేక ఆకు ఫోటోలను లేదా మొత్తం ఫోల్డర్‌ను ఇక్కడ వదలండి, అన్నింటినీ కలిపి నిర్ధారించండి.',
+    batchResults: 'సమూహ నిర్ధారణ',
+    batchProgress: '{total} చిత్రాలలో {done} విశ్లేషించబడ్డాయి',
+    batchSummary: 'సారాంశం',
+    healthy: 'ఆరోగ్యకరమైనవి',
+    infected: 'వ్యాధి సోకినవి',
+    healthyRatio: 'ఆరోగ్యకరమైనవి vs వ్యాధి సోకినవి',
+    diseaseCounts: 'ప్రతి వ్యాధికి కేసులు',
+    image: 'చిత్రం',
+    result: 'ఫలితం',
+    status: 'స్థితి',
+    statusQueued: 'వరుసలో ఉంది',
+    statusProcessing: 'విశ్లేషిస్తోంది',
+    statusDone: 'పూర్తయింది',
+    statusFailed: 'విఫలమైంది',
+    retry: 'మళ్లీ ప్రయత్నించు',
+    retryFailed: 'విఫలమైన చిత్రాలను మళ్లీ ప్రయత్నించండి',
+    stopGenerating: 'సమాధానాన్ని ఆపండి',
+    cropStage: 'పంట దశ',
+    cropStage_seedling: 'మొలక',
+    cropStage_vegetative: 'ఎదుగుదల దశ',
+    cropStage_flowering: 'పూత',
+    cropStage_fruiting: 'కాయ దశ',
+    cropStage_harvest: 'కోతకు దగ్గర',
+    exportTranscript: 'చాట్ ట్రాన్స్‌క్రిప్ట్‌ను ఎగుమతి చేయండి',
+    diagnosis: 'నిర్ధారణ',
+    exportedOn: 'ఎగుమతి చేసిన తేదీ',
+    you: 'మీరు',
+    downloadReport: 'నివేదికను డౌన్‌లోడ్ చేయండి',
+    preparingReport: 'నివేదిక సిద్ధమవుతోంది...',
+    reportError: 'నివేదికను సృష్టించడం సాధ్యం కాలేదు. దయచేసి మళ్ళీ ప్రయత్నించండి.',
+    diagnosisReport: 'నిర్ధారణ నివేదిక',
+    reportDate: 'తేదీ',
+    reportLocation: 'స్థానం',
+    reportWeather: 'వాతావరణం',
+    notAvailable: 'అందుబాటులో లేదు',
+    weatherIcon_01: 'నిర్మలమైన ఆకాశం',
+    weatherIcon_02: 'కొద్దిపాటి మేఘాలు',
+    weatherIcon_03: 'చెదురుమదురు మేఘాలు',
+    weatherIcon_04: 'మేఘావృతం',
+    weatherIcon_09: 'జల్లులు',
+    weatherIcon_10: 'వర్షం',
+    weatherIcon_11: 'ఉరుములతో కూడిన వర్షం',
+    weatherIcon_13: 'మంచు',
+    weatherIcon_50: 'పొగమంచు',
+    humidity: 'తేమ',
+    rainfall: 'వర్షం',
+    wind: 'గాలి',
+    gust: 'గాలి దెబ్బ',
+    hourlyForecast: '3 గంటల వారీ సూచన',
+    hourlyLegend: 'బార్లు: వర్షం (మి.మీ). క్రింద: గాలి/గాలి దెబ్బ (కి.మీ/గం), తేమ, వర్షం (మి.మీ).',
+    sprayWindows: 'పిచికారీ సమయాలు',
+    sprayNextWindow: 'పిచికారీకి తదుపరి మంచి సమయం: {window}',
+    sprayNoWindow: 'సూచనలో పిచికారీకి మంచి సమయం లేదు. వీలైతే ప్రశాంతమైన, పొడి వాతావరణం కోసం వేచి ఉండండి.',
+    spray_good: 'మంచిది',
+    spray_marginal: 'జాగ్రత్త',
+    spray_poor: 'వద్దు',
+    sprayReason_night: 'రాత్రి',
+    sprayReason_raining: 'వర్షం అంచనా',
+    sprayReason_rainSoon: '6 గంటల్లో వర్షం',
+    sprayReason_windTooStrong: 'గాలి ఎక్కువ',
+    sprayReason_windTooCalm: 'గాలి లేదు, మందు చెదిరే ప్రమాదం',
+    sprayReason_tooHot: 'అధిక వేడి',
+    sprayReason_tooCold: 'అధిక చలి',
+    sprayReason_lowHumidity: 'పొడి గాలి, త్వరగా ఆవిరి',
+    sprayReason_highHumidity: 'అధిక తేమ, తడి ఆకులు',
+    diseaseRisk: 'వ్యాధి ప్రమాదం (రాబోయే 72 గంటలు)',
+    myCrops: 'నా పంటలు',
+    riskSelectCrops: 'రాబోయే వాతావరణం ఏ వ్యాధులకు అనుకూలమో చూడటానికి మీరు పండించే పంటలను ఎంచుకోండి.',
+    riskNoForecast: 'వ్యాధి ప్రమాద అంచనాకు మీ ప్రాంత వాతావరణ సూచన అవసరం.',
+    riskFavorableHours: '{hours} గంటల అనుకూల వాతావరణం',
+    risk_low: 'తక్కువ',
+    risk_moderate: 'మధ్యస్థం',
+    risk_high: 'ఎక్కువ',
+    riskDisclaimer: 'సూచనలోని ఉష్ణోగ్రత, తేమ మరియు వర్షాన్ని ఆకు తడికి బదులుగా ఉపయోగించి అంచనా వేయబడింది. చికిత్సకు ముందు మీ పొలాన్ని పరిశీలించండి.',
+    crop_apple: 'ఆపిల్',
+    crop_cherry: 'చెర్రీ',
+    crop_corn: 'మొక్కజొన్న',
+    crop_grape: 'ద్రాక్ష',
+    crop_peach: 'పీచ్',
+    crop_bell_pepper: 'క్యాప్సికమ్',
+    crop_potato: 'బంగాళాదుంప',
+    crop_squash: 'గుమ్మడి',
+    crop_strawberry: 'స్ట్రాబెర్రీ',
+    crop_tomato: 'టమాటా',
+    disease_apple_scab: 'ఆపిల్ స్కాబ్',
+    disease_black_rot: 'నల్ల కుళ్ళు తెగులు',
+    disease_cedar_apple_rust: 'సెడార్ ఆపిల్ తుప్పు తెగులు',
+    disease_powdery_mildew: 'బూడిద తెగులు',
+    disease_gray_leaf_spot: 'సెర్కోస్పోరా ఆకు మచ్చ తెగులు',
+    disease_common_rust: 'సాధారణ తుప్పు తెగులు',
+    disease_northern_leaf_blight: 'ఉత్తర ఆకు ఎండు తెగులు',
+    disease_isariopsis_leaf_spot: 'ఆకు ఎండు తెగులు (ఇసారియోప్సిస్ ఆకు మచ్చ)',
+    disease_bacterial_spot: 'బాక్టీరియా మచ్చ తెగులు',
+    disease_early_blight: 'ముందస్తు ఆకు ఎండు తెగులు',
+    disease_late_blight: 'ఆలస్య ఆకు ఎండు తెగులు',
+    disease_leaf_scorch: 'ఆకు మాడు తెగులు',
+    disease_leaf_mold: 'ఆకు బూజు తెగులు',
+    disease_septoria_leaf_spot: 'సెప్టోరియా ఆకు మచ్చ తెగులు',
+    disease_spider_mites: 'రెండు మచ్చల సాలీడు పురుగు (ఎర్ర నల్లి)',
+    disease_target_spot: 'టార్గెట్ మచ్చ తెగులు',
+    farmPlot: 'పొలం',
+    currentLocation: 'నా ప్రస్తుత స్థానం',
+    addPlot: '+ పొలం',
+    deletePlot: 'పొలాన్ని తొలగించు',
+    confirmDeletePlot: '"{plot}" పొలాన్ని తొలగించాలా?',
+    plotName: 'పొలం పేరు',
+    searchPlace: 'గ్రామం లేదా పట్టణం కోసం వెతకండి',
+    search: 'వెతుకు',
+    noPlacesFound: 'ప్రదేశాలు ఏవీ కనుగొనబడలేదు.',
+    placeSearchError: 'ప్రదేశ శోధన విఫలమైంది. బదులుగా నిర్దేశాంకాలను నమోదు చేయండి.',
+    latitude: 'అక్షాంశం',
+    longitude: 'రేఖాంశం',
+    useCurrentLocation: 'నా ప్రస్తుత స్థానాన్ని ఉపయోగించు',
+    plotCrops: 'ఇక్కడ పండించే పంటలు',
+    savePlot: 'పొలాన్ని సేవ్ చేయి',
+    plotNameRequired: 'దయచేసి పొలానికి ఒక పేరు ఇవ్వండి.',
+    invalidCoordinates: '-90 నుండి 90 మధ్య అక్షాంశం మరియు -180 నుండి 180 మధ్య రేఖాంశం నమోదు చేయండి.',
+    weatherAddPlotHint: 'ప్రదేశం కోసం వెతికి లేదా నిర్దేశాంకాలను నమోదు చేసి కూడా పొలాన్ని జోడించవచ్చు.',
+    cropsOnPlot: '{plot}లోని పంటలు',
+    settings: 'సెట్టింగ్‌లు',
+    close: 'మూసివేయి',
+    backendUrl: 'బ్యాకెండ్ URL',
+    backendUrlHelp: 'డిఫాల్ట్ సర్వర్‌ను ఉపయోగించడానికి ఖాళీగా ఉంచండి. స్థానిక బ్యాకెండ్ కోసం ఉదా. http://127.0.0.1:8000 ఉపయోగించండి.',
+    invalidBackendUrl: 'పూర్తి http:// లేదా https:// URL నమోదు చేయండి.',
+    backendChecking: 'కనెక్షన్ తనిఖీ చేస్తోంది…',
+    backendReachable: 'బ్యాకెండ్ అందుబాటులో ఉంది ({ms} ms)',
+    backendUnreachable: 'బ్యాకెండ్ అందుబాటులో లేదు',
+    resetToDefault: 'డిఫాల్ట్‌కు రీసెట్ చేయి',
+    testConnection: 'కనెక్షన్ పరీక్షించు',
+    save: 'సేవ్ చేయి',
+    saved: 'సేవ్ చేయబడింది',
+    errorInvalidImage: 'ఈ ఫైల్‌ను చిత్రంగా చదవడం సాధ్యం కాలేదు. దయచేసి JPG లేదా PNG ఫోటోను అప్‌లోడ్ చేయండి.',
+    errorLlmUnavailable: 'AI సహాయకుడు తాత్కాలికంగా అందుబాటులో లేదు. దయచేసి కొన్ని నిమిషాల తర్వాత మళ్లీ ప్రయత్నించండి.',
+    errorInvalidRequest: 'అభ్యర్థన చెల్లదు. దయచేసి మీ ఇన్‌పుట్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+    errorNotFound: 'అభ్యర్థించిన అంశం కనుగొనబడలేదు.',
+    errorRateLimited: 'అభ్యర్థనలు చాలా ఎక్కువయ్యాయి. దయచేసి ఒక నిమిషం తర్వాత మళ్లీ ప్రయత్నించండి.',
+    cropHint: 'పంట',
+    cropHintAuto: 'తెలియదు – స్వయంచాలకంగా గుర్తించు',
+    cropHintDisagrees: 'మీరు ఎంచుకున్నట్లు {crop}కి పరిమితం చేయబడింది. అన్ని పంటలలో మోడల్ యొక్క అగ్ర అంచనా {diseaseName} ({confidence}%) – సరైన పంట ఎంచుకున్నారో లేదో తనిఖీ చేయండి.',
+    pathogen_fungal: 'శిలీంధ్ర',
+    pathogen_bacterial: 'బ్యాక్టీరియా',
+    pathogen_viral: 'వైరల్',
+    pathogen_pest: 'తెగులు కీటకం',
+    treatmentSource: 'సలహా మూలం',
+    treatmentSourceApproved: '{reviewer} {date}న సమీక్షించారు · నాలెడ్జ్ బేస్ v{version}',
+    treatmentSourceDraft: 'నిర్వహించిన నాలెడ్జ్ బేస్ నుండి (v{version}) · వ్యవసాయ నిపుణుల సమీక్ష పెండింగ్‌లో ఉంది',
+    treatmentSourceLlm: 'AI రూపొందించినది: ఈ వ్యాధి ఇంకా సమీక్షించిన నాలెడ్జ్ బేస్‌లో లేదు. పాటించే ముందు స్థానిక వ్యవసాయ నిపుణుడితో సలహాను సరిచూసుకోండి.',
+    treatmentReferences: 'ఆధారాలు',
+    qualityWarningTitle: 'ఈ ఫోటో నమ్మదగని ఫలితం ఇవ్వవచ్చు',
+    quality_blurry: 'ఫోటో అస్పష్టంగా ఉంది. ఫోన్‌ను స్థిరంగా పట్టుకుని, ఫోకస్ కోసం తెరపై ఆకును తాకండి.',
+    quality_tooDark: 'ఫోటో చాలా చీకటిగా ఉంది. పగటి వెలుతురులోకి వెళ్లండి లేదా వెలుగు వైపు తిరగండి.',
+    quality_tooBright: 'ఫోటోలో వెలుతురు ఎక్కువైంది. ఆకుపై నేరుగా ఎండ పడకుండా చేతితో లేదా శరీరంతో నీడ ఇవ్వండి.',
+    quality_lowCoverage: 'ఫ్రేమ్‌లో ఆకు చాలా చిన్నగా ఉంది. ఒక ఆకు ఫోటోలో ఎక్కువ భాగం నిండేలా దగ్గరకు వెళ్లండి.',
+    quality_lowResolution: 'చిత్ర రిజల్యూషన్ చాలా తక్కువగా ఉంది. స్క్రీన్‌షాట్ లేదా ఫార్వర్డ్ చేసిన చిత్రం కాకుండా నేరుగా కెమెరాను ఉపయోగించండి.',
+    retakePhoto: 'మళ్లీ ఫోటో తీయండి',
+    detectAnyway: 'అయినా గుర్తించండి',
+    heatmap: 'వ్యాధి హీట్‌మ్యాప్',
+    heatmapHint: 'ఎరుపు ప్రాంతాలు నిర్ధారణను ఎక్కువగా ప్రభావితం చేశాయి. అవి ఆకుపై కాకుండా నేపథ్యంపై ఉంటే, సాదా నేపథ్యంతో మళ్లీ ఫోటో తీయండి.',
+    onDeviceInference: 'ఈ పరికరంలోనే నిర్ధారించండి',
+    onDeviceInferenceHelp: 'కనెక్షన్ లేకుండా ఆకులను నిర్ధారించేందుకు వ్యాధి మోడళ్లను బ్రౌజర్‌లో నడుపుతుంది. మీరు మళ్లీ ఆన్‌లైన్‌కి వచ్చినప్పుడు చికిత్స సలహా జోడించబడుతుంది.',
+    modelsDownloaded: 'మోడళ్లు {date}న డౌన్‌లోడ్ అయ్యాయి',
+    modelsNotDownloaded: 'మోడళ్లు ఇంకా డౌన్‌లోడ్ కాలేదు; అప్పటి వరకు నిర్ధారణలు సర్వర్‌ను ఉపయోగిస్తాయి.',
+    downloadModels: 'మోడళ్లను డౌన్‌లోడ్ చేయండి',
+    updateModels: 'మోడళ్లను నవీకరించండి',
+    downloadingModels: 'డౌన్‌లోడ్ అవుతోంది…',
+    modelDownloadFailed: 'మోడళ్లను డౌన్‌లోడ్ చేయలేకపోయాము. బ్యాకెండ్ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+    parityCheck: 'సర్వర్‌తో పోల్చండి',
+    parityChecking: 'పోలుస్తోంది…',
+    parityFailed: 'పోలిక విఫలమైంది. బ్యాకెండ్‌లో ENABLE_DEBUG_ENDPOINTS=true ఉండాలి.',
+    parityInputMatch: 'ముందస్తు ప్రాసెస్ చేసిన చిత్రం: ఒకేలా ఉంది',
+    parityInputMismatch: 'ముందస్తు ప్రాసెస్ చేసిన చిత్రం: సర్వర్‌తో తేడా ఉంది',
+    parityProbabilityDiff: 'అత్యధిక సంభావ్యత తేడా: {diff}',
+    paritySameClass: 'రెండు వైపులా ఒకే ప్రధాన తరగతి',
+    parityDifferentClass: 'ప్రధాన తరగతి వేరు: పరికరంలో {local}, సర్వర్‌లో {server}',
+    treatmentPending: 'ఈ పరికరంలో నిర్ధారించబడింది. మీరు మళ్లీ ఆన్‌లైన్‌కి వచ్చినప్పుడు చికిత్స సలహా జోడించబడుతుంది.',
+    severityBadge: '{grade} · ఆకులో {percent}%',
+    severityHint: 'మచ్చలు లేదా రంగు మారిన ఆకు విస్తీర్ణం యొక్క అంచనా శాతం',
+    severity_trace: 'అతి స్వల్పం',
+    severity_mild: 'స్వల్పం',
+    severity_moderate: 'మధ్యస్థం',
+    severity_severe: 'తీవ్రం',
+    plantTag: 'మొక్క / ప్లాట్',
+    plantTagPlaceholder: 'ఉదా. వరుస 3, మొక్క 2',
+    filterByTag: 'మొక్క లేదా ప్లాట్ వారీగా ఫిల్టర్ చేయండి',
+    allTags: 'అన్ని మొక్కలు మరియు ప్లాట్లు',
+    viewProgress: 'పురోగతిని చూడండి',
+    progressTitle: 'పురోగతి: {tag}',
+    progressBefore: 'ముందు',
+    progressAfter: 'తర్వాత',
+    progressTimeline: 'అన్ని స్కాన్‌లు',
+    progressConfidence: '{confidence}% నమ్మకం',
+    trend_resolved: 'తాజా స్కాన్ ఆరోగ్యంగా కనిపిస్తోంది. చికిత్స పనిచేసినట్లు ఉంది.',
+    trend_improving: 'చికిత్స పనిచేస్తున్నట్లు ఉంది: ప్రభావిత విస్తీర్ణం {change} శాతం పాయింట్లు తగ్గింది.',
+    trend_stable: 'ప్రభావిత విస్తీర్ణంలో ఇంకా స్పష్టమైన మార్పు లేదు.',
+    trend_worsening: 'పరిస్థితి దిగజారుతోంది: ప్రభావిత విస్తీర్ణం {change} శాతం పాయింట్లు పెరిగింది. వ్యవసాయ నిపుణుడితో చికిత్సను సమీక్షించండి.',
+    trend_insufficient: 'చికిత్స పనిచేస్తోందో లేదో చూడటానికి చికిత్స తర్వాత ఈ మొక్కను మళ్లీ స్కాన్ చేయండి.',
+    errorAuthRequired: 'మీ సెషన్ ముగిసింది. దయచేసి మళ్లీ సైన్ ఇన్ చేయండి.',
+    errorInvalidCredentials: 'ఫోన్ నంబర్, ఇమెయిల్ లేదా పాస్‌వర్డ్ తప్పు.',
+    errorUsernameTaken: 'ఈ ఫోన్ నంబర్ లేదా ఇమెయిల్‌తో ఇప్పటికే ఖాతా ఉంది.',
+    signIn: 'సైన్ ఇన్',
+    createAccount: 'ఖాతా సృష్టించండి',
+    accountHelp: 'మీ పొలం ప్రొఫైల్, స్కాన్‌లు మరియు చాట్‌లను మీ ఖాతాలో ఉంచి ఏ పరికరంలోనైనా చూడటానికి సైన్ ఇన్ చేయండి.',
+    username: 'ఫోన్ నంబర్ లేదా ఇమెయిల్',
+    usernamePlaceholder: 'ఉదా. 9876543210',
+    password: 'పాస్‌వర్డ్',
+    usernameRequired: 'మీ ఫోన్ నంబర్ లేదా ఇమెయిల్ నమోదు చేయండి.',
+    passwordTooShort: 'పాస్‌వర్డ్‌లో కనీసం {count} అక్షరాలు ఉండాలి.',
+    noAccountYet: 'ఖాతా లేదా? ఒకటి సృష్టించండి',
+    haveAccount: 'ఇప్పటికే ఖాతా ఉందా? సైన్ ఇన్ చేయండి',
+    farmProfile: 'పొలం ప్రొఫైల్',
+    signedInAs: '{username}గా సైన్ ఇన్ అయ్యారు',
+    loadingProfile: 'ప్రొఫైల్ లోడ్ అవుతోంది…',
+    farmerName: 'మీ పేరు',
+    cooperative: 'సహకార సంఘం',
+    farmLocation: 'గ్రామం లేదా ప్రాంతం',
+    acreage: 'పొలం విస్తీర్ణం (ఎకరాలు)',
+    soilType: 'నేల రకం',
+    soil_alluvial: 'ఒండ్రు నేల',
+    soil_black: 'నల్ల నేల',
+    soil_red: 'ఎర్ర నేల',
+    soil_laterite: 'లాటరైట్ నేల',
+    soil_clay: 'బంకమట్టి',
+    soil_loam: 'లోమ్ నేల',
+    soil_sandy: 'ఇసుక నేల',
+    cropsGrown: 'పండించే పంటలు',
+    invalidAcreage: 'పొలం విస్తీర్ణాన్ని ఎకరాల సంఖ్యగా నమోదు చేయండి.',
+    signOut: 'సైన్ అవుట్',
+    showHeatmap: 'వ్యాధి ఎక్కడ కనిపించిందో చూపించు',
+    loadingHeatmap: 'హీట్‌మ్యాప్ లెక్కిస్తోంది…',
   },
   hi: {
     title: 'एग्रोलेंस',
@@ -147,6 +653,255 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     noValidLeafDetected: 'कोई मान्य पौधे की पत्ती नहीं मिली। कृपया पत्ते की एक स्पष्ट छवि अपलोड करें।',
     tryAgain: 'फिर से कोशिश करें',
     tryAnother: 'दूसरा कोशिश करें',
+    confidence: 'विश्वास स्तर',
+    alternativeDiagnoses: 'अन्य संभावनाएं',
+    uncertainDiagnosis: 'अनिश्चित परिणाम',
+    uncertainDiagnosisHint: 'मॉडल इस परिणाम को लेकर आश्वस्त नहीं है। उपचार से पहले नीचे दी गई संभावनाओं की तुलना करें, एक स्पष्ट फोटो फिर से लें, या किसी कृषि विशेषज्ञ से परामर्श करें।',
+    possibly: 'संभवतः: {diseaseName}',
+    diagnosisHistory: 'निदान इतिहास',
+    historyLoading: 'इतिहास लोड हो रहा है...',
+    historyEmpty: 'अभी तक कोई पिछला स्कैन नहीं। आपके निदान यहां दिखाई देंगे।',
+    historyError: 'इस डिवाइस पर निदान इतिहास तक नहीं पहुंच सका।',
+    allCrops: 'सभी फसलें',
+    allDiseases: 'सभी रोग',
+    filterByCrop: 'फसल के अनुसार फ़िल्टर करें',
+    filterByDisease: 'रोग के अनुसार फ़िल्टर करें',
+    openDiagnosis: 'यह निदान खोलें',
+    deleteDiagnosis: 'हटाएं',
+    confirmDeleteDiagnosis: 'क्या इस निदान को अपने इतिहास से हटाना है?',
+    savedOffline: 'आप ऑफ़लाइन हैं। यह स्कैन सहेज लिया गया है और कनेक्शन लौटने पर अपने आप विश्लेषित किया जाएगा।',
+    pendingSync: 'कनेक्शन की प्रतीक्षा में',
+    syncFailed: 'विश्लेषण विफल रहा',
+    dropImagesHint: 'या कई पत्तियों की फ़ोटो, या पूरा फ़ोल्डर, यहां छोड़ें ताकि सबका एक साथ निदान हो सके।',
+    batchResults: 'सामूहिक निदान',
+    batchProgress: '{total} में से {done} छवियों का विश्लेषण हुआ',
+    batchSummary: 'सारांश',
+    healthy: 'स्वस्थ',
+    infected: 'संक्रमित',
+    healthyRatio: 'स्वस्थ बनाम संक्रमित',
+    diseaseCounts: 'प्रति रोग मामले',
+    image: 'छवि',
+    result: 'परिणाम',
+    status: 'स्थिति',
+    statusQueued: 'कतार में',
+    statusProcessing: 'विश्लेषण हो रहा है',
+    statusDone: 'पूर्ण',
+    statusFailed: 'विफल',
+    retry: 'फिर से करें',
+    retryFailed: 'विफल छवियों को फिर से आज़माएं',
+    stopGenerating: 'जवाब रोकें',
+    cropStage: 'फसल अवस्था',
+    cropStage_seedling: 'अंकुर',
+    cropStage_vegetative: 'वानस्पतिक',
+    cropStage_flowering: 'फूल आना',
+    cropStage_fruiting: 'फल लगना',
+    cropStage_harvest: 'कटाई के पास',
+    exportTranscript: 'चैट प्रतिलेख निर्यात करें',
+    diagnosis: 'निदान',
+    exportedOn: 'निर्यात की तारीख',
+    you: 'आप',
+    downloadReport: 'रिपोर्ट डाउनलोड करें',
+    preparingReport: 'रिपोर्ट तैयार हो रही है...',
+    reportError: 'रिपोर्ट नहीं बन सकी। कृपया पुन: प्रयास करें।',
+    diagnosisReport: 'निदान रिपोर्ट',
+    reportDate: 'तारीख',
+    reportLocation: 'स्थान',
+    reportWeather: 'मौसम',
+    notAvailable: 'उपलब्ध नहीं',
+    weatherIcon_01: 'साफ आसमान',
+    weatherIcon_02: 'हल्के बादल',
+    weatherIcon_03: 'छितरे बादल',
+    weatherIcon_04: 'बादल छाए',
+    weatherIcon_09: 'बौछारें',
+    weatherIcon_10: 'बारिश',
+    weatherIcon_11: 'आंधी-तूफान',
+    weatherIcon_13: 'बर्फबारी',
+    weatherIcon_50: 'धुंध',
+    humidity: 'नमी',
+    rainfall: 'वर्षा',
+    wind: 'हवा',
+    gust: 'झोंका',
+    hourlyForecast: '3-घंटे का पूर्वानुमान',
+    hourlyLegend: 'बार: वर्षा (मिमी)। नीचे: हवा/झोंका (किमी/घंटा), नमी, वर्षा (मिमी)।',
+    sprayWindows: 'छिड़काव का समय',
+    sprayNextWindow: 'छिड़काव का अगला अच्छा समय: {window}',
+    sprayNoWindow: 'पूर्वानुमान में छिड़काव का कोई अच्छा समय नहीं है। संभव हो तो शांत, सूखे मौसम की प्रतीक्षा करें।',
+    spray_good: 'अच्छा',
+    spray_marginal: 'सावधानी',
+    spray_poor: 'टालें',
+    sprayReason_night: 'रात',
+    sprayReason_raining: 'बारिश की संभावना',
+    sprayReason_rainSoon: '6 घंटे में बारिश',
+    sprayReason_windTooStrong: 'बहुत तेज़ हवा',
+    sprayReason_windTooCalm: 'हवा बहुत शांत, बहाव का खतरा',
+    sprayReason_tooHot: 'बहुत गर्म',
+    sprayReason_tooCold: 'बहुत ठंडा',
+    sprayReason_lowHumidity: 'सूखी हवा, तेज़ वाष्पीकरण',
+    sprayReason_highHumidity: 'बहुत नमी, गीली पत्तियां',
+    diseaseRisk: 'रोग जोखिम (अगले 72 घंटे)',
+    myCrops: 'मेरी फसलें',
+    riskSelectCrops: 'आने वाला मौसम किन रोगों के अनुकूल है, यह देखने के लिए अपनी फसलें चुनें।',
+    riskNoForecast: 'रोग जोखिम अनुमान के लिए आपके स्थान का मौसम पूर्वानुमान चाहिए।',
+    riskFavorableHours: '{hours} घंटे अनुकूल मौसम',
+    risk_low: 'कम',
+    risk_moderate: 'मध्यम',
+    risk_high: 'अधिक',
+    riskDisclaimer: 'पूर्वानुमान के तापमान, नमी और बारिश को पत्ती के गीलेपन के स्थान पर लेकर अनुमान लगाया गया है। उपचार से पहले खेत की जाँच करें।',
+    crop_apple: 'सेब',
+    crop_cherry: 'चेरी',
+    crop_corn: 'मक्का',
+    crop_grape: 'अंगूर',
+    crop_peach: 'आड़ू',
+    crop_bell_pepper: 'शिमला मिर्च',
+    crop_potato: 'आलू',
+    crop_squash: 'कद्दू',
+    crop_strawberry: 'स्ट्रॉबेरी',
+    crop_tomato: 'टमाटर',
+    disease_apple_scab: 'एप्पल स्कैब',
+    disease_black_rot: 'काला सड़न',
+    disease_cedar_apple_rust: 'सीडर एप्पल रस्ट',
+    disease_powdery_mildew: 'चूर्णिल आसिता',
+    disease_gray_leaf_spot: 'सर्कोस्पोरा पत्ती धब्बा (ग्रे लीफ स्पॉट)',
+    disease_common_rust: 'सामान्य रतुआ',
+    disease_northern_leaf_blight: 'उत्तरी पत्ती झुलसा',
+    disease_isariopsis_leaf_spot: 'पत्ती झुलसा (इसारियोप्सिस पत्ती धब्बा)',
+    disease_bacterial_spot: 'जीवाणु धब्बा',
+    disease_early_blight: 'अगेती झुलसा',
+    disease_late_blight: 'पछेती झुलसा',
+    disease_leaf_scorch: 'पत्ती झुलसन (लीफ स्कॉर्च)',
+    disease_leaf_mold: 'पत्ती फफूंद',
+    disease_septoria_leaf_spot: 'सेप्टोरिया पत्ती धब्बा',
+    disease_spider_mites: 'दो-धब्बेदार मकड़ी घुन',
+    disease_target_spot: 'लक्ष्य धब्बा (टारगेट स्पॉट)',
+    farmPlot: 'खेत',
+    currentLocation: 'मेरा वर्तमान स्थान',
+    addPlot: '+ खेत',
+    deletePlot: 'खेत हटाएँ',
+    confirmDeletePlot: 'खेत "{plot}" हटाएँ?',
+    plotName: 'खेत का नाम',
+    searchPlace: 'गाँव या कस्बा खोजें',
+    search: 'खोजें',
+    noPlacesFound: 'कोई स्थान नहीं मिला।',
+    placeSearchError: 'स्थान खोज विफल रही। इसके बजाय निर्देशांक दर्ज करें।',
+    latitude: 'अक्षांश',
+    longitude: 'देशांतर',
+    useCurrentLocation: 'मेरा वर्तमान स्थान उपयोग करें',
+    plotCrops: 'यहाँ उगाई जाने वाली फसलें',
+    savePlot: 'खेत सहेजें',
+    plotNameRequired: 'कृपया खेत का नाम दें।',
+    invalidCoordinates: '-90 से 90 के बीच अक्षांश और -180 से 180 के बीच देशांतर दर्ज करें।',
+    weatherAddPlotHint: 'आप किसी स्थान को खोजकर या उसके निर्देशांक दर्ज करके भी खेत जोड़ सकते हैं।',
+    cropsOnPlot: '{plot} की फसलें',
+    settings: 'सेटिंग्स',
+    close: 'बंद करें',
+    backendUrl: 'बैकएंड URL',
+    backendUrlHelp: 'डिफ़ॉल्ट सर्वर के लिए खाली छोड़ें। स्थानीय बैकएंड के लिए उदा. http://127.0.0.1:8000 उपयोग करें।',
+    invalidBackendUrl: 'पूरा http:// या https:// URL दर्ज करें।',
+    backendChecking: 'कनेक्शन जाँचा जा रहा है…',
+    backendReachable: 'बैकएंड उपलब्ध है ({ms} ms)',
+    backendUnreachable: 'बैकएंड उपलब्ध नहीं है',
+    resetToDefault: 'डिफ़ॉल्ट पर रीसेट करें',
+    testConnection: 'कनेक्शन जाँचें',
+    save: 'सहेजें',
+    saved: 'सहेजा गया',
+    errorInvalidImage: 'यह फ़ाइल छवि के रूप में पढ़ी नहीं जा सकी। कृपया JPG या PNG फ़ोटो अपलोड करें।',
+    errorLlmUnavailable: 'AI सहायक अस्थायी रूप से उपलब्ध नहीं है। कृपया कुछ मिनट बाद फिर से प्रयास करें।',
+    errorInvalidRequest: 'अनुरोध मान्य नहीं था। कृपया अपना इनपुट जाँचें और फिर से प्रयास करें।',
+    errorNotFound: 'अनुरोधित वस्तु नहीं मिली।',
+    errorRateLimited: 'बहुत अधिक अनुरोध हुए हैं। कृपया एक मिनट बाद फिर से प्रयास करें।',
+    cropHint: 'फसल',
+    cropHintAuto: 'पता नहीं – स्वचालित पहचान',
+    cropHintDisagrees: 'आपके चयन के अनुसार {crop} तक सीमित। सभी फसलों में मॉडल का शीर्ष अनुमान {diseaseName} ({confidence}%) था – जाँचें कि सही फसल चुनी गई है।',
+    pathogen_fungal: 'कवक जनित',
+    pathogen_bacterial: 'जीवाणु जनित',
+    pathogen_viral: 'विषाणु जनित',
+    pathogen_pest: 'कीट',
+    treatmentSource: 'सलाह का स्रोत',
+    treatmentSourceApproved: '{reviewer} द्वारा {date} को समीक्षित · ज्ञानकोश v{version}',
+    treatmentSourceDraft: 'संकलित ज्ञानकोश से (v{version}) · कृषि विशेषज्ञ की समीक्षा बाकी',
+    treatmentSourceLlm: 'AI द्वारा तैयार: यह रोग अभी समीक्षित ज्ञानकोश में नहीं है। अमल करने से पहले स्थानीय कृषि विशेषज्ञ से सलाह की जाँच करें।',
+    treatmentReferences: 'संदर्भ',
+    qualityWarningTitle: 'इस फ़ोटो से भरोसेमंद परिणाम नहीं मिल सकता',
+    quality_blurry: 'फ़ोटो धुंधली है। फ़ोन स्थिर रखें और फ़ोकस के लिए स्क्रीन पर पत्ती को छुएँ।',
+    quality_tooDark: 'फ़ोटो बहुत अँधेरी है। दिन की रोशनी में जाएँ या रोशनी की ओर मुँह करें।',
+    quality_tooBright: 'फ़ोटो में रोशनी ज़्यादा है। पत्ती पर सीधी धूप न पड़ने दें; हाथ या शरीर से छाया करें।',
+    quality_lowCoverage: 'फ़्रेम में पत्ती बहुत छोटी है। पास जाएँ ताकि एक पत्ती फ़ोटो का ज़्यादातर हिस्सा भर दे।',
+    quality_lowResolution: 'तस्वीर का रिज़ॉल्यूशन बहुत कम है। स्क्रीनशॉट या फ़ॉरवर्ड की गई तस्वीर के बजाय सीधे कैमरे का उपयोग करें।',
+    retakePhoto: 'फिर से फ़ोटो लें',
+    detectAnyway: 'फिर भी पहचानें',
+    heatmap: 'रोग हीटमैप',
+    heatmapHint: 'लाल क्षेत्रों ने निदान को सबसे अधिक प्रभावित किया। अगर वे पत्ती के बजाय पृष्ठभूमि पर हैं, तो सादी पृष्ठभूमि के साथ फिर से फ़ोटो लें।',
+    onDeviceInference: 'इसी डिवाइस पर निदान करें',
+    onDeviceInferenceHelp: 'रोग मॉडल ब्राउज़र में चलाता है ताकि बिना कनेक्शन के पत्तियों का निदान हो सके। वापस ऑनलाइन आने पर उपचार सलाह जोड़ दी जाती है।',
+    modelsDownloaded: 'मॉडल {date} को डाउनलोड हुए',
+    modelsNotDownloaded: 'मॉडल अभी डाउनलोड नहीं हुए; तब तक निदान सर्वर से होगा।',
+    downloadModels: 'मॉडल डाउनलोड करें',
+    updateModels: 'मॉडल अपडेट करें',
+    downloadingModels: 'डाउनलोड हो रहा है…',
+    modelDownloadFailed: 'मॉडल डाउनलोड नहीं हो सके। बैकएंड कनेक्शन जाँचें और फिर कोशिश करें।',
+    parityCheck: 'सर्वर से तुलना करें',
+    parityChecking: 'तुलना हो रही है…',
+    parityFailed: 'तुलना विफल रही। बैकएंड पर ENABLE_DEBUG_ENDPOINTS=true होना चाहिए।',
+    parityInputMatch: 'प्रीप्रोसेस की गई छवि: एक जैसी',
+    parityInputMismatch: 'प्रीप्रोसेस की गई छवि: सर्वर से अलग',
+    parityProbabilityDiff: 'सबसे बड़ा संभावना अंतर: {diff}',
+    paritySameClass: 'दोनों ओर एक ही शीर्ष वर्ग',
+    parityDifferentClass: 'शीर्ष वर्ग अलग है: डिवाइस पर {local}, सर्वर पर {server}',
+    treatmentPending: 'इस डिवाइस पर निदान किया गया। वापस ऑनलाइन आने पर उपचार सलाह जोड़ दी जाएगी।',
+    severityBadge: '{grade} · पत्ती का {percent}%',
+    severityHint: 'धब्बों या रंग बदलाव वाले पत्ती क्षेत्र का अनुमानित हिस्सा',
+    severity_trace: 'नगण्य',
+    severity_mild: 'हल्का',
+    severity_moderate: 'मध्यम',
+    severity_severe: 'गंभीर',
+    plantTag: 'पौधा / प्लॉट',
+    plantTagPlaceholder: 'उदा. पंक्ति 3, पौधा 2',
+    filterByTag: 'पौधे या प्लॉट से फ़िल्टर करें',
+    allTags: 'सभी पौधे और प्लॉट',
+    viewProgress: 'प्रगति देखें',
+    progressTitle: 'प्रगति: {tag}',
+    progressBefore: 'पहले',
+    progressAfter: 'बाद में',
+    progressTimeline: 'सभी स्कैन',
+    progressConfidence: '{confidence}% विश्वास',
+    trend_resolved: 'नवीनतम स्कैन स्वस्थ दिखता है। उपचार काम करता दिख रहा है।',
+    trend_improving: 'उपचार काम करता दिख रहा है: प्रभावित क्षेत्र {change} प्रतिशत अंक कम हुआ है।',
+    trend_stable: 'प्रभावित क्षेत्र में अभी कोई स्पष्ट बदलाव नहीं।',
+    trend_worsening: 'स्थिति बिगड़ रही है: प्रभावित क्षेत्र {change} प्रतिशत अंक बढ़ा है। किसी कृषि विशेषज्ञ के साथ उपचार की समीक्षा करें।',
+    trend_insufficient: 'उपचार काम कर रहा है या नहीं, यह देखने के लिए उपचार के बाद इस पौधे को फिर से स्कैन करें।',
+    errorAuthRequired: 'आपका सत्र समाप्त हो गया है। कृपया फिर से साइन इन करें।',
+    errorInvalidCredentials: 'फ़ोन नंबर, ईमेल या पासवर्ड गलत है।',
+    errorUsernameTaken: 'इस फ़ोन नंबर या ईमेल से पहले से एक खाता है।',
+    signIn: 'साइन इन',
+    createAccount: 'खाता बनाएँ',
+    accountHelp: 'अपनी खेत प्रोफ़ाइल, स्कैन और चैट अपने खाते में रखने और किसी भी डिवाइस पर देखने के लिए साइन इन करें।',
+    username: 'फ़ोन नंबर या ईमेल',
+    usernamePlaceholder: 'जैसे 9876543210',
+    password: 'पासवर्ड',
+    usernameRequired: 'अपना फ़ोन नंबर या ईमेल दर्ज करें।',
+    passwordTooShort: 'पासवर्ड में कम से कम {count} अक्षर होने चाहिए।',
+    noAccountYet: 'खाता नहीं है? नया बनाएँ',
+    haveAccount: 'पहले से खाता है? साइन इन करें',
+    farmProfile: 'खेत प्रोफ़ाइल',
+    signedInAs: '{username} के रूप में साइन इन',
+    loadingProfile: 'प्रोफ़ाइल लोड हो रही है…',
+    farmerName: 'आपका नाम',
+    cooperative: 'सहकारी समिति',
+    farmLocation: 'गाँव या स्थान',
+    acreage: 'खेत का आकार (एकड़)',
+    soilType: 'मिट्टी का प्रकार',
+    soil_alluvial: 'जलोढ़',
+    soil_black: 'काली',
+    soil_red: 'लाल',
+    soil_laterite: 'लैटेराइट',
+    soil_clay: 'चिकनी',
+    soil_loam: 'दोमट',
+    soil_sandy: 'बलुई',
+    cropsGrown: 'उगाई जाने वाली फसलें',
+    invalidAcreage: 'खेत का आकार एकड़ में संख्या के रूप में दर्ज करें।',
+    signOut: 'साइन आउट',
+    showHeatmap: 'दिखाएँ कि रोग कहाँ दिखा',
+    loadingHeatmap: 'हीटमैप तैयार हो रहा है…',
   },
   es: {
     title: 'AgroLens',
@@ -194,6 +949,255 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     noValidLeafDetected: 'No se detectó una hoja de planta válida. Por favor, cargue una imagen clara de una hoja de planta.',
     tryAgain: 'Intentar de nuevo',
     tryAnother: 'Intentar otro',
+    confidence: 'Confianza',
+    alternativeDiagnoses: 'Otras Posibilidades',
+    uncertainDiagnosis: 'Resultado incierto',
+    uncertainDiagnosisHint: 'El modelo no está seguro de este resultado. Compare las posibilidades a continuación, tome una foto más clara o consulte a un agrónomo antes de tratar.',
+    possibly: 'Posiblemente: {diseaseName}',
+    diagnosisHistory: 'Historial de Diagnósticos',
+    historyLoading: 'Cargando historial...',
+    historyEmpty: 'Aún no hay análisis anteriores. Sus diagnósticos aparecerán aquí.',
+    historyError: 'No se pudo acceder al historial de diagnósticos en este dispositivo.',
+    allCrops: 'Todos los cultivos',
+    allDiseases: 'Todas las enfermedades',
+    filterByCrop: 'Filtrar por cultivo',
+    filterByDisease: 'Filtrar por enfermedad',
+    openDiagnosis: 'Abrir este diagnóstico',
+    deleteDiagnosis: 'Eliminar',
+    confirmDeleteDiagnosis: '¿Eliminar este diagnóstico de su historial?',
+    savedOffline: 'Está sin conexión. Este análisis se ha guardado y se procesará automáticamente cuando vuelva la conexión.',
+    pendingSync: 'Esperando conexión',
+    syncFailed: 'El análisis falló',
+    dropImagesHint: 'O suelte aquí varias fotos de hojas, o una carpeta completa, para diagnosticarlas juntas.',
+    batchResults: 'Diagnóstico por Lotes',
+    batchProgress: '{done} de {total} imágenes analizadas',
+    batchSummary: 'Resumen',
+    healthy: 'Sanas',
+    infected: 'Infectadas',
+    healthyRatio: 'Sanas frente a infectadas',
+    diseaseCounts: 'Casos por enfermedad',
+    image: 'Imagen',
+    result: 'Resultado',
+    status: 'Estado',
+    statusQueued: 'En cola',
+    statusProcessing: 'Analizando',
+    statusDone: 'Listo',
+    statusFailed: 'Falló',
+    retry: 'Reintentar',
+    retryFailed: 'Reintentar imágenes fallidas',
+    stopGenerating: 'Detener respuesta',
+    cropStage: 'Etapa del cultivo',
+    cropStage_seedling: 'Plántula',
+    cropStage_vegetative: 'Vegetativa',
+    cropStage_flowering: 'Floración',
+    cropStage_fruiting: 'Fructificación',
+    cropStage_harvest: 'Cerca de la cosecha',
+    exportTranscript: 'Exportar transcripción del chat',
+    diagnosis: 'Diagnóstico',
+    exportedOn: 'Exportado el',
+    you: 'Usted',
+    downloadReport: 'Descargar informe',
+    preparingReport: 'Preparando informe...',
+    reportError: 'No se pudo crear el informe. Por favor, inténtelo de nuevo.',
+    diagnosisReport: 'Informe de Diagnóstico',
+    reportDate: 'Fecha',
+    reportLocation: 'Ubicación',
+    reportWeather: 'Clima',
+    notAvailable: 'No disponible',
+    weatherIcon_01: 'Cielo despejado',
+    weatherIcon_02: 'Algunas nubes',
+    weatherIcon_03: 'Nubes dispersas',
+    weatherIcon_04: 'Nublado',
+    weatherIcon_09: 'Chubascos',
+    weatherIcon_10: 'Lluvia',
+    weatherIcon_11: 'Tormenta',
+    weatherIcon_13: 'Nieve',
+    weatherIcon_50: 'Neblina',
+    humidity: 'Humedad',
+    rainfall: 'Lluvia',
+    wind: 'Viento',
+    gust: 'Ráfaga',
+    hourlyForecast: 'Pronóstico cada 3 horas',
+    hourlyLegend: 'Barras: lluvia (mm). Debajo: viento/ráfaga (km/h), humedad, lluvia (mm).',
+    sprayWindows: 'Ventanas de Aplicación',
+    sprayNextWindow: 'Próximo buen momento para aplicar: {window}',
+    sprayNoWindow: 'No hay una buena ventana de aplicación en el pronóstico. Espere un tiempo más calmo y seco si puede.',
+    spray_good: 'Bueno',
+    spray_marginal: 'Precaución',
+    spray_poor: 'Evitar',
+    sprayReason_night: 'noche',
+    sprayReason_raining: 'lluvia prevista',
+    sprayReason_rainSoon: 'lluvia en 6 horas',
+    sprayReason_windTooStrong: 'demasiado viento',
+    sprayReason_windTooCalm: 'demasiada calma, riesgo de deriva',
+    sprayReason_tooHot: 'demasiado calor',
+    sprayReason_tooCold: 'demasiado frío',
+    sprayReason_lowHumidity: 'aire seco, evaporación rápida',
+    sprayReason_highHumidity: 'muy húmedo, hojas mojadas',
+    diseaseRisk: 'Riesgo de Enfermedades (Próximas 72 Horas)',
+    myCrops: 'Mis cultivos',
+    riskSelectCrops: 'Seleccione los cultivos que siembra para ver qué enfermedades favorece el clima que viene.',
+    riskNoForecast: 'El pronóstico de riesgo necesita el pronóstico del tiempo de su ubicación.',
+    riskFavorableHours: '{hours} h de clima favorable',
+    risk_low: 'Bajo',
+    risk_moderate: 'Moderado',
+    risk_high: 'Alto',
+    riskDisclaimer: 'Estimado a partir de la temperatura, la humedad y la lluvia pronosticadas como aproximación a la humedad foliar. Revise su campo antes de tratar.',
+    crop_apple: 'Manzano',
+    crop_cherry: 'Cerezo',
+    crop_corn: 'Maíz',
+    crop_grape: 'Vid',
+    crop_peach: 'Melocotonero',
+    crop_bell_pepper: 'Pimiento',
+    crop_potato: 'Papa',
+    crop_squash: 'Calabaza',
+    crop_strawberry: 'Fresa',
+    crop_tomato: 'Tomate',
+    disease_apple_scab: 'Sarna del manzano',
+    disease_black_rot: 'Podredumbre negra',
+    disease_cedar_apple_rust: 'Roya del manzano y cedro',
+    disease_powdery_mildew: 'Oídio',
+    disease_gray_leaf_spot: 'Mancha gris de la hoja (Cercospora)',
+    disease_common_rust: 'Roya común',
+    disease_northern_leaf_blight: 'Tizón norteño de la hoja',
+    disease_isariopsis_leaf_spot: 'Tizón de la hoja (mancha de Isariopsis)',
+    disease_bacterial_spot: 'Mancha bacteriana',
+    disease_early_blight: 'Tizón temprano',
+    disease_late_blight: 'Tizón tardío',
+    disease_leaf_scorch: 'Quemadura de la hoja',
+    disease_leaf_mold: 'Moho de la hoja',
+    disease_septoria_leaf_spot: 'Mancha foliar por Septoria',
+    disease_spider_mites: 'Ácaro de dos manchas',
+    disease_target_spot: 'Mancha diana',
+    farmPlot: 'Parcela',
+    currentLocation: 'Mi ubicación actual',
+    addPlot: '+ Parcela',
+    deletePlot: 'Eliminar parcela',
+    confirmDeletePlot: '¿Eliminar la parcela "{plot}"?',
+    plotName: 'Nombre de la parcela',
+    searchPlace: 'Buscar un pueblo o ciudad',
+    search: 'Buscar',
+    noPlacesFound: 'No se encontraron lugares.',
+    placeSearchError: 'La búsqueda de lugares falló. Ingrese las coordenadas.',
+    latitude: 'Latitud',
+    longitude: 'Longitud',
+    useCurrentLocation: 'Usar mi ubicación actual',
+    plotCrops: 'Cultivos de esta parcela',
+    savePlot: 'Guardar parcela',
+    plotNameRequired: 'Por favor, asigne un nombre a la parcela.',
+    invalidCoordinates: 'Ingrese una latitud entre -90 y 90 y una longitud entre -180 y 180.',
+    weatherAddPlotHint: 'También puede agregar una parcela buscando un lugar o ingresando sus coordenadas.',
+    cropsOnPlot: 'Cultivos en {plot}',
+    settings: 'Configuración',
+    close: 'Cerrar',
+    backendUrl: 'URL del backend',
+    backendUrlHelp: 'Déjelo vacío para usar el servidor predeterminado. Use p. ej. http://127.0.0.1:8000 para un backend local.',
+    invalidBackendUrl: 'Ingrese una URL completa con http:// o https://.',
+    backendChecking: 'Comprobando la conexión…',
+    backendReachable: 'Backend disponible ({ms} ms)',
+    backendUnreachable: 'Backend no disponible',
+    resetToDefault: 'Restablecer',
+    testConnection: 'Probar conexión',
+    save: 'Guardar',
+    saved: 'Guardado',
+    errorInvalidImage: 'No se pudo leer este archivo como imagen. Suba una foto JPG o PNG.',
+    errorLlmUnavailable: 'El asistente de IA no está disponible temporalmente. Inténtelo de nuevo en unos minutos.',
+    errorInvalidRequest: 'La solicitud no es válida. Revise los datos e inténtelo de nuevo.',
+    errorNotFound: 'No se encontró el elemento solicitado.',
+    errorRateLimited: 'Demasiadas solicitudes. Inténtelo de nuevo en un minuto.',
+    cropHint: 'Cultivo',
+    cropHintAuto: 'No estoy seguro – detectar automáticamente',
+    cropHintDisagrees: 'Limitado a {crop} según su selección. Entre todos los cultivos, la principal predicción del modelo fue {diseaseName} ({confidence}%) – verifique que el cultivo seleccionado sea el correcto.',
+    pathogen_fungal: 'Fúngica',
+    pathogen_bacterial: 'Bacteriana',
+    pathogen_viral: 'Viral',
+    pathogen_pest: 'Plaga',
+    treatmentSource: 'Origen de las recomendaciones',
+    treatmentSourceApproved: 'Revisado por {reviewer} el {date} · base de conocimiento v{version}',
+    treatmentSourceDraft: 'De la base de conocimiento curada (v{version}) · pendiente de revisión agronómica',
+    treatmentSourceLlm: 'Generado por IA: esta enfermedad aún no está en la base de conocimiento revisada. Consulte las recomendaciones con un agrónomo local antes de aplicarlas.',
+    treatmentReferences: 'Referencias',
+    qualityWarningTitle: 'Esta foto puede dar un resultado poco fiable',
+    quality_blurry: 'La foto está borrosa. Sujete el teléfono con firmeza y toque la hoja en la pantalla para enfocar.',
+    quality_tooDark: 'La foto está demasiado oscura. Sitúese a la luz del día o de frente a la fuente de luz.',
+    quality_tooBright: 'La foto está sobreexpuesta. Evite el sol directo sobre la hoja; hágale sombra con la mano o el cuerpo.',
+    quality_lowCoverage: 'La hoja ocupa muy poco del encuadre. Acérquese para que una hoja llene la mayor parte de la foto.',
+    quality_lowResolution: 'La resolución de la imagen es demasiado baja. Use la cámara directamente en lugar de una captura de pantalla o una imagen reenviada.',
+    retakePhoto: 'Repetir foto',
+    detectAnyway: 'Detectar de todos modos',
+    heatmap: 'Mapa de calor de la enfermedad',
+    heatmapHint: 'Las zonas rojas son las que más influyeron en el diagnóstico. Si están en el fondo y no en la hoja, repita la foto sobre un fondo liso.',
+    onDeviceInference: 'Diagnosticar en este dispositivo',
+    onDeviceInferenceHelp: 'Ejecuta los modelos de enfermedades en el navegador para diagnosticar hojas sin conexión. Las recomendaciones de tratamiento se añaden cuando vuelva a tener conexión.',
+    modelsDownloaded: 'Modelos descargados el {date}',
+    modelsNotDownloaded: 'Los modelos aún no se han descargado; hasta entonces los diagnósticos usan el servidor.',
+    downloadModels: 'Descargar modelos',
+    updateModels: 'Actualizar modelos',
+    downloadingModels: 'Descargando…',
+    modelDownloadFailed: 'No se pudieron descargar los modelos. Compruebe la conexión con el backend e inténtelo de nuevo.',
+    parityCheck: 'Comparar con el servidor',
+    parityChecking: 'Comparando…',
+    parityFailed: 'La comparación falló. El backend necesita ENABLE_DEBUG_ENDPOINTS=true.',
+    parityInputMatch: 'Imagen preprocesada: idéntica',
+    parityInputMismatch: 'Imagen preprocesada: distinta a la del servidor',
+    parityProbabilityDiff: 'Mayor diferencia de probabilidad: {diff}',
+    paritySameClass: 'La misma clase principal en ambos lados',
+    parityDifferentClass: 'La clase principal difiere: {local} en el dispositivo, {server} en el servidor',
+    treatmentPending: 'Diagnosticado en este dispositivo. Las recomendaciones de tratamiento se añadirán cuando vuelva a tener conexión.',
+    severityBadge: '{grade} · {percent}% de la hoja',
+    severityHint: 'Proporción estimada de la superficie de la hoja con lesiones o decoloración',
+    severity_trace: 'Mínima',
+    severity_mild: 'Leve',
+    severity_moderate: 'Moderada',
+    severity_severe: 'Grave',
+    plantTag: 'Planta / parcela',
+    plantTagPlaceholder: 'p. ej. Fila 3, planta 2',
+    filterByTag: 'Filtrar por planta o parcela',
+    allTags: 'Todas las plantas y parcelas',
+    viewProgress: 'Ver evolución',
+    progressTitle: 'Evolución: {tag}',
+    progressBefore: 'Antes',
+    progressAfter: 'Después',
+    progressTimeline: 'Todos los escaneos',
+    progressConfidence: '{confidence}% de confianza',
+    trend_resolved: 'El último escaneo parece sano. El tratamiento parece haber funcionado.',
+    trend_improving: 'El tratamiento parece estar funcionando: la superficie afectada ha bajado {change} puntos porcentuales.',
+    trend_stable: 'Todavía no hay un cambio claro en la superficie afectada.',
+    trend_worsening: 'Está empeorando: la superficie afectada ha subido {change} puntos porcentuales. Revise el tratamiento con un agrónomo.',
+    trend_insufficient: 'Vuelva a escanear esta planta después del tratamiento para ver si está funcionando.',
+    errorAuthRequired: 'Tu sesión ha terminado. Vuelve a iniciar sesión.',
+    errorInvalidCredentials: 'Teléfono, correo o contraseña incorrectos.',
+    errorUsernameTaken: 'Ya existe una cuenta con este teléfono o correo.',
+    signIn: 'Iniciar sesión',
+    createAccount: 'Crear cuenta',
+    accountHelp: 'Inicia sesión para guardar tu perfil de finca, diagnósticos y chats en tu cuenta y verlos en cualquier dispositivo.',
+    username: 'Teléfono o correo electrónico',
+    usernamePlaceholder: 'p. ej. 9876543210',
+    password: 'Contraseña',
+    usernameRequired: 'Introduce tu teléfono o correo electrónico.',
+    passwordTooShort: 'La contraseña debe tener al menos {count} caracteres.',
+    noAccountYet: '¿No tienes cuenta? Crea una',
+    haveAccount: '¿Ya tienes cuenta? Inicia sesión',
+    farmProfile: 'Perfil de la finca',
+    signedInAs: 'Sesión iniciada como {username}',
+    loadingProfile: 'Cargando perfil…',
+    farmerName: 'Tu nombre',
+    cooperative: 'Cooperativa',
+    farmLocation: 'Pueblo o ubicación',
+    acreage: 'Tamaño de la finca (acres)',
+    soilType: 'Tipo de suelo',
+    soil_alluvial: 'Aluvial',
+    soil_black: 'Negro',
+    soil_red: 'Rojo',
+    soil_laterite: 'Laterítico',
+    soil_clay: 'Arcilloso',
+    soil_loam: 'Franco',
+    soil_sandy: 'Arenoso',
+    cropsGrown: 'Cultivos',
+    invalidAcreage: 'Introduce el tamaño de la finca como un número de acres.',
+    signOut: 'Cerrar sesión',
+    showHeatmap: 'Mostrar dónde se vio la enfermedad',
+    loadingHeatmap: 'Calculando el mapa de calor…',
   },
   ta: {
     title: 'அக்ரோலென்ஸ்',
@@ -241,6 +1245,255 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     noValidLeafDetected: 'சரியான செடியின் இலை கண்டறியப்படவில்லை. தயவுசெய்து ஒரு தெளிவான செடி இலை படத்தை பதிவேற்றவும்.',
     tryAgain: 'மீண்டும் முயற்சி செய்',
     tryAnother: 'மற்றொன்றை முயற்சி செய்',
+    confidence: 'நம்பகத்தன்மை',
+    alternativeDiagnoses: 'பிற சாத்தியங்கள்',
+    uncertainDiagnosis: 'உறுதியற்ற முடிவு',
+    uncertainDiagnosisHint: 'இந்த முடிவில் மாதிரிக்கு நம்பிக்கை குறைவு. சிகிச்சைக்கு முன் கீழே உள்ள சாத்தியங்களை ஒப்பிடவும், தெளிவான புகைப்படத்தை மீண்டும் எடுக்கவும் அல்லது வேளாண் நிபுணரை அணுகவும்.',
+    possibly: 'இருக்கலாம்: {diseaseName}',
+    diagnosisHistory: 'நோயறிதல் வரலாறு',
+    historyLoading: 'வரலாறு ஏற்றப்படுகிறது...',
+    historyEmpty: 'இதுவரை முந்தைய ஸ்கேன்கள் இல்லை. உங்கள் நோயறிதல்கள் இங்கே தோன்றும்.',
+    historyError: 'இந்த சாதனத்தில் நோயறிதல் வரலாற்றை அணுக முடியவில்லை.',
+    allCrops: 'அனைத்து பயிர்கள்',
+    allDiseases: 'அனைத்து நோய்கள்',
+    filterByCrop: 'பயிர் வாரியாக வடிகட்டு',
+    filterByDisease: 'நோய் வாரியாக வடிகட்டு',
+    openDiagnosis: 'இந்த நோயறிதலைத் திற',
+    deleteDiagnosis: 'நீக்கு',
+    confirmDeleteDiagnosis: 'இந்த நோயறிதலை உங்கள் வரலாற்றிலிருந்து நீக்கவா?',
+    savedOffline: 'நீங்கள் ஆஃப்லைனில் உள்ளீர்கள். இந்த ஸ்கேன் சேமிக்கப்பட்டது, இணைப்பு திரும்பியதும் தானாகவே பகுப்பாய்வு செய்யப்படும்.',
+    pendingSync: 'இணைப்புக்காக காத்திருக்கிறது',
+    syncFailed: 'பகுப்பாய்வு தோல்வியடைந்தது',
+    dropImagesHint: 'அல்லது பல இலை புகைப்படங்களை, அல்லது முழு கோப்புறையை, இங்கே விடுங்கள்; அனைத்தும் ஒன்றாக கண்டறியப்படும்.',
+    batchResults: 'தொகுப்பு நோயறிதல்',
+    batchProgress: '{total} படங்களில் {done} பகுப்பாய்வு செய்யப்பட்டன',
+    batchSummary: 'சுருக்கம்',
+    healthy: 'ஆரோக்கியமானவை',
+    infected: 'பாதிக்கப்பட்டவை',
+    healthyRatio: 'ஆரோக்கியமானவை vs பாதிக்கப்பட்டவை',
+    diseaseCounts: 'நோய் வாரியான எண்ணிக்கை',
+    image: 'படம்',
+    result: 'முடிவு',
+    status: 'நிலை',
+    statusQueued: 'வரிசையில்',
+    statusProcessing: 'பகுப்பாய்வு செய்கிறது',
+    statusDone: 'முடிந்தது',
+    statusFailed: 'தோல்வி',
+    retry: 'மீண்டும் முயல்',
+    retryFailed: 'தோல்வியுற்ற படங்களை மீண்டும் முயல்',
+    stopGenerating: 'பதிலை நிறுத்து',
+    cropStage: 'பயிர் நிலை',
+    cropStage_seedling: 'நாற்று',
+    cropStage_vegetative: 'வளர்ச்சி நிலை',
+    cropStage_flowering: 'பூக்கும் நிலை',
+    cropStage_fruiting: 'காய்க்கும் நிலை',
+    cropStage_harvest: 'அறுவடைக்கு அருகில்',
+    exportTranscript: 'அரட்டை பதிவை ஏற்றுமதி செய்',
+    diagnosis: 'நோயறிதல்',
+    exportedOn: 'ஏற்றுமதி செய்த தேதி',
+    you: 'நீங்கள்',
+    downloadReport: 'அறிக்கையைப் பதிவிறக்கு',
+    preparingReport: 'அறிக்கை தயாராகிறது...',
+    reportError: 'அறிக்கையை உருவாக்க முடியவில்லை. தயவுசெய்து மீண்டும் முயற்சிக்கவும்.',
+    diagnosisReport: 'நோயறிதல் அறிக்கை',
+    reportDate: 'தேதி',
+    reportLocation: 'இருப்பிடம்',
+    reportWeather: 'வானிலை',
+    notAvailable: 'கிடைக்கவில்லை',
+    weatherIcon_01: 'தெளிவான வானம்',
+    weatherIcon_02: 'சில மேகங்கள்',
+    weatherIcon_03: 'சிதறிய மேகங்கள்',
+    weatherIcon_04: 'மேகமூட்டம்',
+    weatherIcon_09: 'மழைச் சாரல்',
+    weatherIcon_10: 'மழை',
+    weatherIcon_11: 'இடியுடன் கூடிய மழை',
+    weatherIcon_13: 'பனிப்பொழிவு',
+    weatherIcon_50: 'மூடுபனி',
+    humidity: 'ஈரப்பதம்',
+    rainfall: 'மழை',
+    wind: 'காற்று',
+    gust: 'காற்று வீச்சு',
+    hourlyForecast: '3 மணிநேர முன்னறிவிப்பு',
+    hourlyLegend: 'பட்டைகள்: மழை (மி.மீ). கீழே: காற்று/வீச்சு (கி.மீ/ம), ஈரப்பதம், மழை (மி.மீ).',
+    sprayWindows: 'தெளிப்பு நேரங்கள்',
+    sprayNextWindow: 'தெளிக்க அடுத்த நல்ல நேரம்: {window}',
+    sprayNoWindow: 'முன்னறிவிப்பில் தெளிக்க நல்ல நேரம் இல்லை. முடிந்தால் அமைதியான, உலர்ந்த வானிலைக்குக் காத்திருக்கவும்.',
+    spray_good: 'நல்லது',
+    spray_marginal: 'கவனம்',
+    spray_poor: 'தவிர்க்கவும்',
+    sprayReason_night: 'இரவு',
+    sprayReason_raining: 'மழை எதிர்பார்ப்பு',
+    sprayReason_rainSoon: '6 மணி நேரத்தில் மழை',
+    sprayReason_windTooStrong: 'அதிக காற்று',
+    sprayReason_windTooCalm: 'காற்று இல்லை, மருந்து சிதறும் அபாயம்',
+    sprayReason_tooHot: 'அதிக வெப்பம்',
+    sprayReason_tooCold: 'அதிக குளிர்',
+    sprayReason_lowHumidity: 'உலர்ந்த காற்று, விரைவான ஆவியாதல்',
+    sprayReason_highHumidity: 'அதிக ஈரப்பதம், ஈரமான இலைகள்',
+    diseaseRisk: 'நோய் அபாயம் (அடுத்த 72 மணிநேரம்)',
+    myCrops: 'எனது பயிர்கள்',
+    riskSelectCrops: 'வரவிருக்கும் வானிலை எந்த நோய்களுக்குச் சாதகம் என்பதைப் பார்க்க நீங்கள் பயிரிடும் பயிர்களைத் தேர்ந்தெடுக்கவும்.',
+    riskNoForecast: 'நோய் அபாய முன்னோட்டத்திற்கு உங்கள் இருப்பிடத்தின் வானிலை முன்னறிவிப்பு தேவை.',
+    riskFavorableHours: '{hours} மணிநேர சாதகமான வானிலை',
+    risk_low: 'குறைவு',
+    risk_moderate: 'மிதமானது',
+    risk_high: 'அதிகம்',
+    riskDisclaimer: 'முன்னறிவிப்பின் வெப்பநிலை, ஈரப்பதம் மற்றும் மழையை இலை ஈரத்திற்கு மாற்றாகக் கொண்டு மதிப்பிடப்பட்டது. சிகிச்சைக்கு முன் உங்கள் வயலைப் பார்வையிடவும்.',
+    crop_apple: 'ஆப்பிள்',
+    crop_cherry: 'செர்ரி',
+    crop_corn: 'மக்காச்சோளம்',
+    crop_grape: 'திராட்சை',
+    crop_peach: 'பீச்',
+    crop_bell_pepper: 'குடைமிளகாய்',
+    crop_potato: 'உருளைக்கிழங்கு',
+    crop_squash: 'பூசணி',
+    crop_strawberry: 'ஸ்ட்ராபெர்ரி',
+    crop_tomato: 'தக்காளி',
+    disease_apple_scab: 'ஆப்பிள் சொறி நோய்',
+    disease_black_rot: 'கருப்பு அழுகல்',
+    disease_cedar_apple_rust: 'சீடார் ஆப்பிள் துரு நோய்',
+    disease_powdery_mildew: 'சாம்பல் நோய்',
+    disease_gray_leaf_spot: 'செர்கோஸ்போரா இலைப்புள்ளி நோய்',
+    disease_common_rust: 'பொதுவான துரு நோய்',
+    disease_northern_leaf_blight: 'வடக்கு இலைக் கருகல் நோய்',
+    disease_isariopsis_leaf_spot: 'இலைக் கருகல் (இசாரியோப்சிஸ் இலைப்புள்ளி)',
+    disease_bacterial_spot: 'பாக்டீரியா புள்ளி நோய்',
+    disease_early_blight: 'முன் கருகல் நோய்',
+    disease_late_blight: 'பின் கருகல் நோய்',
+    disease_leaf_scorch: 'இலை தீய்தல் நோய்',
+    disease_leaf_mold: 'இலைப் பூஞ்சை நோய்',
+    disease_septoria_leaf_spot: 'செப்டோரியா இலைப்புள்ளி நோய்',
+    disease_spider_mites: 'இரு புள்ளி சிலந்திப் பேன்',
+    disease_target_spot: 'இலக்குப் புள்ளி நோய்',
+    farmPlot: 'வயல்',
+    currentLocation: 'எனது தற்போதைய இருப்பிடம்',
+    addPlot: '+ வயல்',
+    deletePlot: 'வயலை நீக்கு',
+    confirmDeletePlot: '"{plot}" வயலை நீக்கவா?',
+    plotName: 'வயலின் பெயர்',
+    searchPlace: 'கிராமம் அல்லது நகரத்தைத் தேடுங்கள்',
+    search: 'தேடு',
+    noPlacesFound: 'இடங்கள் எதுவும் கிடைக்கவில்லை.',
+    placeSearchError: 'இடத் தேடல் தோல்வியடைந்தது. பதிலாக ஆயத்தொலைவுகளை உள்ளிடவும்.',
+    latitude: 'அட்சரேகை',
+    longitude: 'தீர்க்கரேகை',
+    useCurrentLocation: 'எனது தற்போதைய இருப்பிடத்தைப் பயன்படுத்து',
+    plotCrops: 'இங்கு பயிரிடப்படும் பயிர்கள்',
+    savePlot: 'வயலைச் சேமி',
+    plotNameRequired: 'வயலுக்கு ஒரு பெயர் கொடுக்கவும்.',
+    invalidCoordinates: '-90 முதல் 90 வரை அட்சரேகையும் -180 முதல் 180 வரை தீர்க்கரேகையும் உள்ளிடவும்.',
+    weatherAddPlotHint: 'ஒரு இடத்தைத் தேடி அல்லது அதன் ஆயத்தொலைவுகளை உள்ளிட்டும் வயலைச் சேர்க்கலாம்.',
+    cropsOnPlot: '{plot} இல் உள்ள பயிர்கள்',
+    settings: 'அமைப்புகள்',
+    close: 'மூடு',
+    backendUrl: 'பின்தள URL',
+    backendUrlHelp: 'இயல்புநிலை சேவையகத்தைப் பயன்படுத்த காலியாக விடவும். உள்ளூர் பின்தளத்திற்கு எ.கா. http://127.0.0.1:8000 பயன்படுத்தவும்.',
+    invalidBackendUrl: 'முழு http:// அல்லது https:// URL ஐ உள்ளிடவும்.',
+    backendChecking: 'இணைப்பைச் சரிபார்க்கிறது…',
+    backendReachable: 'பின்தளம் அணுகக்கூடியது ({ms} ms)',
+    backendUnreachable: 'பின்தளத்தை அணுக முடியவில்லை',
+    resetToDefault: 'இயல்புநிலைக்கு மீட்டமை',
+    testConnection: 'இணைப்பைச் சோதி',
+    save: 'சேமி',
+    saved: 'சேமிக்கப்பட்டது',
+    errorInvalidImage: 'இந்தக் கோப்பைப் படமாகப் படிக்க முடியவில்லை. JPG அல்லது PNG புகைப்படத்தைப் பதிவேற்றவும்.',
+    errorLlmUnavailable: 'AI உதவியாளர் தற்காலிகமாகக் கிடைக்கவில்லை. சில நிமிடங்கள் கழித்து மீண்டும் முயற்சிக்கவும்.',
+    errorInvalidRequest: 'கோரிக்கை செல்லாதது. உங்கள் உள்ளீட்டைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+    errorNotFound: 'கோரப்பட்ட உருப்படி கிடைக்கவில்லை.',
+    errorRateLimited: 'கோரிக்கைகள் அதிகமாகிவிட்டன. ஒரு நிமிடம் கழித்து மீண்டும் முயற்சிக்கவும்.',
+    cropHint: 'பயிர்',
+    cropHintAuto: 'தெரியவில்லை – தானாகக் கண்டறி',
+    cropHintDisagrees: 'நீங்கள் தேர்ந்தெடுத்தபடி {crop} க்கு வரம்பிடப்பட்டது. அனைத்துப் பயிர்களிலும் மாதிரியின் முதன்மை கணிப்பு {diseaseName} ({confidence}%) – சரியான பயிர் தேர்ந்தெடுக்கப்பட்டுள்ளதா எனச் சரிபார்க்கவும்.',
+    pathogen_fungal: 'பூஞ்சை',
+    pathogen_bacterial: 'பாக்டீரியா',
+    pathogen_viral: 'வைரஸ்',
+    pathogen_pest: 'பூச்சி',
+    treatmentSource: 'ஆலோசனையின் மூலம்',
+    treatmentSourceApproved: '{reviewer} {date} அன்று மதிப்பாய்வு செய்தார் · அறிவுத் தளம் v{version}',
+    treatmentSourceDraft: 'தொகுக்கப்பட்ட அறிவுத் தளத்திலிருந்து (v{version}) · வேளாண் நிபுணர் மதிப்பாய்வு நிலுவையில் உள்ளது',
+    treatmentSourceLlm: 'AI உருவாக்கியது: இந்த நோய் இன்னும் மதிப்பாய்வு செய்யப்பட்ட அறிவுத் தளத்தில் இல்லை. செயல்படுத்தும் முன் உள்ளூர் வேளாண் நிபுணரிடம் ஆலோசனையைச் சரிபார்க்கவும்.',
+    treatmentReferences: 'மேற்கோள்கள்',
+    qualityWarningTitle: 'இந்தப் புகைப்படம் நம்பகமற்ற முடிவைத் தரலாம்',
+    quality_blurry: 'புகைப்படம் மங்கலாக உள்ளது. தொலைபேசியை அசையாமல் பிடித்து, கவனம் செலுத்த திரையில் இலையைத் தொடவும்.',
+    quality_tooDark: 'புகைப்படம் மிகவும் இருட்டாக உள்ளது. பகல் வெளிச்சத்துக்குச் செல்லவும் அல்லது வெளிச்சத்தை நோக்கித் திரும்பவும்.',
+    quality_tooBright: 'புகைப்படத்தில் வெளிச்சம் அதிகம். இலையில் நேரடி வெயில் படாமல் கை அல்லது உடலால் நிழல் தரவும்.',
+    quality_lowCoverage: 'சட்டகத்தில் இலை மிகச் சிறியதாக உள்ளது. ஒரு இலை புகைப்படத்தின் பெரும்பகுதியை நிரப்பும்படி அருகில் செல்லவும்.',
+    quality_lowResolution: 'படத்தின் தெளிவுத்திறன் மிகக் குறைவு. ஸ்கிரீன்ஷாட் அல்லது அனுப்பப்பட்ட படத்துக்குப் பதிலாக நேரடியாக கேமராவைப் பயன்படுத்தவும்.',
+    retakePhoto: 'மீண்டும் புகைப்படம் எடு',
+    detectAnyway: 'இருந்தாலும் கண்டறி',
+    heatmap: 'நோய் வெப்ப வரைபடம்',
+    heatmapHint: 'சிவப்புப் பகுதிகள் கண்டறிதலை அதிகம் பாதித்தன. அவை இலையில் இல்லாமல் பின்னணியில் இருந்தால், வெற்றுப் பின்னணியில் மீண்டும் புகைப்படம் எடுக்கவும்.',
+    onDeviceInference: 'இந்தச் சாதனத்திலேயே கண்டறி',
+    onDeviceInferenceHelp: 'இணைப்பு இல்லாமல் இலைகளைக் கண்டறிய நோய் மாதிரிகளை உலாவியில் இயக்குகிறது. நீங்கள் மீண்டும் இணையத்துக்கு வந்ததும் சிகிச்சை ஆலோசனை சேர்க்கப்படும்.',
+    modelsDownloaded: 'மாதிரிகள் {date} அன்று பதிவிறக்கப்பட்டன',
+    modelsNotDownloaded: 'மாதிரிகள் இன்னும் பதிவிறக்கப்படவில்லை; அதுவரை கண்டறிதல் சேவையகத்தைப் பயன்படுத்தும்.',
+    downloadModels: 'மாதிரிகளைப் பதிவிறக்கு',
+    updateModels: 'மாதிரிகளைப் புதுப்பி',
+    downloadingModels: 'பதிவிறக்குகிறது…',
+    modelDownloadFailed: 'மாதிரிகளைப் பதிவிறக்க முடியவில்லை. பின்தள இணைப்பைச் சரிபார்த்து மீண்டும் முயலவும்.',
+    parityCheck: 'சேவையகத்துடன் ஒப்பிடு',
+    parityChecking: 'ஒப்பிடுகிறது…',
+    parityFailed: 'ஒப்பீடு தோல்வியடைந்தது. பின்தளத்தில் ENABLE_DEBUG_ENDPOINTS=true இருக்க வேண்டும்.',
+    parityInputMatch: 'முன்செயலாக்கப்பட்ட படம்: ஒரே மாதிரி',
+    parityInputMismatch: 'முன்செயலாக்கப்பட்ட படம்: சேவையகத்திலிருந்து வேறுபடுகிறது',
+    parityProbabilityDiff: 'அதிகபட்ச நிகழ்தகவு வேறுபாடு: {diff}',
+    paritySameClass: 'இரு பக்கமும் ஒரே முதன்மை வகுப்பு',
+    parityDifferentClass: 'முதன்மை வகுப்பு வேறுபடுகிறது: சாதனத்தில் {local}, சேவையகத்தில் {server}',
+    treatmentPending: 'இந்தச் சாதனத்தில் கண்டறியப்பட்டது. நீங்கள் மீண்டும் இணையத்துக்கு வந்ததும் சிகிச்சை ஆலோசனை சேர்க்கப்படும்.',
+    severityBadge: '{grade} · இலையில் {percent}%',
+    severityHint: 'புண்கள் அல்லது நிறமாற்றம் உள்ள இலைப் பரப்பின் மதிப்பிடப்பட்ட பங்கு',
+    severity_trace: 'மிகக் குறைவு',
+    severity_mild: 'லேசானது',
+    severity_moderate: 'மிதமானது',
+    severity_severe: 'கடுமையானது',
+    plantTag: 'செடி / நிலம்',
+    plantTagPlaceholder: 'எ.கா. வரிசை 3, செடி 2',
+    filterByTag: 'செடி அல்லது நிலம் வாரியாக வடிகட்டு',
+    allTags: 'அனைத்து செடிகள் மற்றும் நிலங்கள்',
+    viewProgress: 'முன்னேற்றத்தைக் காண்',
+    progressTitle: 'முன்னேற்றம்: {tag}',
+    progressBefore: 'முன்',
+    progressAfter: 'பின்',
+    progressTimeline: 'அனைத்து ஸ்கேன்களும்',
+    progressConfidence: '{confidence}% நம்பிக்கை',
+    trend_resolved: 'சமீபத்திய ஸ்கேன் ஆரோக்கியமாகத் தெரிகிறது. சிகிச்சை பலனளித்ததாகத் தெரிகிறது.',
+    trend_improving: 'சிகிச்சை பலனளிப்பதாகத் தெரிகிறது: பாதிக்கப்பட்ட பரப்பு {change} சதவீதப் புள்ளிகள் குறைந்துள்ளது.',
+    trend_stable: 'பாதிக்கப்பட்ட பரப்பில் இன்னும் தெளிவான மாற்றம் இல்லை.',
+    trend_worsening: 'நிலை மோசமடைகிறது: பாதிக்கப்பட்ட பரப்பு {change} சதவீதப் புள்ளிகள் அதிகரித்துள்ளது. வேளாண் நிபுணருடன் சிகிச்சையை மறுபரிசீலனை செய்யவும்.',
+    trend_insufficient: 'சிகிச்சை பலனளிக்கிறதா என்பதைப் பார்க்க, சிகிச்சைக்குப் பிறகு இந்தச் செடியை மீண்டும் ஸ்கேன் செய்யவும்.',
+    errorAuthRequired: 'உங்கள் அமர்வு முடிந்தது. மீண்டும் உள்நுழையவும்.',
+    errorInvalidCredentials: 'தொலைபேசி எண், மின்னஞ்சல் அல்லது கடவுச்சொல் தவறு.',
+    errorUsernameTaken: 'இந்த தொலைபேசி எண் அல்லது மின்னஞ்சலுடன் ஏற்கனவே ஒரு கணக்கு உள்ளது.',
+    signIn: 'உள்நுழை',
+    createAccount: 'கணக்கை உருவாக்கு',
+    accountHelp: 'உங்கள் பண்ணை சுயவிவரம், ஸ்கேன்கள் மற்றும் உரையாடல்களை உங்கள் கணக்கில் வைத்து எந்த சாதனத்திலும் பார்க்க உள்நுழையவும்.',
+    username: 'தொலைபேசி எண் அல்லது மின்னஞ்சல்',
+    usernamePlaceholder: 'எ.கா. 9876543210',
+    password: 'கடவுச்சொல்',
+    usernameRequired: 'உங்கள் தொலைபேசி எண் அல்லது மின்னஞ்சலை உள்ளிடவும்.',
+    passwordTooShort: 'கடவுச்சொல்லில் குறைந்தது {count} எழுத்துகள் இருக்க வேண்டும்.',
+    noAccountYet: 'கணக்கு இல்லையா? ஒன்றை உருவாக்கவும்',
+    haveAccount: 'ஏற்கனவே கணக்கு உள்ளதா? உள்நுழையவும்',
+    farmProfile: 'பண்ணை சுயவிவரம்',
+    signedInAs: '{username} ஆக உள்நுழைந்துள்ளீர்கள்',
+    loadingProfile: 'சுயவிவரம் ஏற்றப்படுகிறது…',
+    farmerName: 'உங்கள் பெயர்',
+    cooperative: 'கூட்டுறவு சங்கம்',
+    farmLocation: 'கிராமம் அல்லது இடம்',
+    acreage: 'பண்ணை அளவு (ஏக்கர்)',
+    soilType: 'மண் வகை',
+    soil_alluvial: 'வண்டல் மண்',
+    soil_black: 'கரிசல் மண்',
+    soil_red: 'செம்மண்',
+    soil_laterite: 'சரளை மண்',
+    soil_clay: 'களிமண்',
+    soil_loam: 'இருமண்',
+    soil_sandy: 'மணல் மண்',
+    cropsGrown: 'பயிரிடும் பயிர்கள்',
+    invalidAcreage: 'பண்ணை அளவை ஏக்கர் எண்ணிக்கையாக உள்ளிடவும்.',
+    signOut: 'வெளியேறு',
+    showHeatmap: 'நோய் எங்கே தெரிந்தது என்று காட்டு',
+    loadingHeatmap: 'வெப்ப வரைபடம் கணக்கிடப்படுகிறது…',
   },
 };
 
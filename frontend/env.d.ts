@@ -1,10 +1,16 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_OPEN_WEATHER_API_KEY?: string;
+    // Backend base URL, e.g. http://127.0.0.1:8000 for a local server. Can be overridden at runtime in the settings panel.
+    readonly VITE_API_BASE_URL?: string;
+    // Set to "true" to also save chat sessions of signed-out users on the backend, under a secret key kept on this device.
+    readonly VITE_SYNC_CHAT_SESSIONS?: string;
     // add other VITE_ env vars here as needed
 }
 
 interface ImportMeta {
     readonly env: ImportMetaEnv;
 }
+
+// Where the TFLite WASM runtime is served from; set in vite.config.ts.
+declare const __TFLITE_WASM_PATH__: string;
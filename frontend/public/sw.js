@@ -0,0 +1,114 @@
+// AgroLens service worker: keeps the app shell (which includes the bundled translations) available offline.
+// API calls are never cached here; offline detections are queued by the app's outbox instead.
+// v2 drops runtime caches of v1, which could hold backend responses when the backend shared the app's origin;
+// v3 drops app shells of v2, which could be an error page or another page of the origin.
+const CACHE_VERSION = 'agrolens-v3';
+const SHELL_CACHE = `${CACHE_VERSION}-shell`;
+const RUNTIME_CACHE = `${CACHE_VERSION}-runtime`;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// Vite's content-hashed build output; a changed file gets a new URL, so caching these never serves stale code.
+const ASSETS_PATH = '/assets/';
+
+// Third-party hosts the page loads its styles, fonts and import-mapped modules from. The on-device inference
+// runtime is bundled under /assets/.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+// Backend in use, sent by the page (see services/serviceWorker.ts). Nothing under it is cached, whatever its host.
+let apiBaseUrl = null;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !key.startsWith(CACHE_VERSION)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page posts the URLs it loaded before this worker took control, so they are cached on first visit too.
+self.addEventListener('message', (event) => {
+  if (event.data && typeof event.data.apiBaseUrl === 'string') {
+    apiBaseUrl = event.data.apiBaseUrl;
+  }
+  if (event.data && event.data.type === 'CACHE_URLS' && Array.isArray(event.data.urls)) {
+    const urls = event.data.urls.filter(isCacheable);
+    event.waitUntil(
+      caches.open(RUNTIME_CACHE).then((cache) =>
+        Promise.all(urls.map((url) => cache.match(url).then((hit) => hit || cache.add(url).catch(() => undefined))))
+      )
+    );
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  // Authenticated requests are per user and must never be answered from a shared cache.
+  if (request.headers.has('Authorization')) return;
+
+  if (isCacheable(request.url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Only the app shell, the hashed build assets and the CDN files are cached. Other same-origin URLs may be the
+// backend behind a reverse proxy.
+function isCacheable(url) {
+  const { href, origin, hostname, pathname } = new URL(url, self.location.origin);
+  if (apiBaseUrl && (href === apiBaseUrl || href.startsWith(`${apiBaseUrl}/`))) return false;
+  if (origin === self.location.origin) return SHELL_URLS.includes(pathname) || pathname.startsWith(ASSETS_PATH);
+  return CDN_HOSTS.includes(hostname);
+}
+
+// The app's own page, as opposed to an error page or another page under the same origin (e.g. a proxied backend
+// route), which must not replace the cached shell.
+function isAppShell(request, response) {
+  const { pathname } = new URL(request.url);
+  return response.ok
+    && !response.redirected
+    && (pathname === '/' || pathname === '/index.html')
+    && (response.headers.get('Content-Type') || '').startsWith('text/html');
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (isAppShell(request, response)) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+}
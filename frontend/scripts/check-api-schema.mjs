@@ -0,0 +1,73 @@
+// Checks the typed API client against the backend's OpenAPI schema: the request and response types in
+// services/apiSchema.ts must be the ones generated from the schema, and API_ERROR_CODES must list its error codes.
+// Usage: npm run check:api -- [backend URL or path to openapi.json]   (defaults to VITE_API_BASE_URL or http://127.0.0.1:8000)
+//        npm run generate:api -- [same]   regenerates services/apiSchema.ts instead of checking it
+import { readFile, writeFile } from 'node:fs/promises';
+import openapiTS, { astToString } from 'openapi-typescript';
+
+const args = process.argv.slice(2);
+const write = args.includes('--write');
+const source = args.find(arg => arg !== '--write') || process.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000';
+const clientPath = new URL('../services/apiClient.ts', import.meta.url);
+const typesPath = new URL('../services/apiSchema.ts', import.meta.url);
+
+const TYPES_HEADER = `// Generated from the backend's OpenAPI schema by \`npm run generate:api\`; do not edit.
+// \`npm run check:api\` fails when this file no longer matches the backend.
+
+`;
+
+const loadSchema = async () => {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(`${source.replace(/\/+$/, '')}/openapi.json`);
+    if (!response.ok) throw new Error(`GET ${source}/openapi.json failed with status ${response.status}`);
+    return response.json();
+  }
+  return JSON.parse(await readFile(source, 'utf8'));
+};
+
+const readClientCodes = async () => {
+  const client = await readFile(clientPath, 'utf8');
+  const list = client.match(/API_ERROR_CODES = \[([^\]]*)\]/);
+  if (!list) throw new Error('API_ERROR_CODES not found in services/apiClient.ts');
+  return [...list[1].matchAll(/'([A-Z_]+)'/g)].map(match => match[1]);
+};
+
+const readTypes = async () => {
+  try {
+    return await readFile(typesPath, 'utf8');
+  } catch {
+    return null;
+  }
+};
+
+const schema = await loadSchema();
+// Only the schemas: the services build their own URLs, so the path and operation types would go unused.
+const ast = await openapiTS(schema);
+const types = TYPES_HEADER + astToString(ast.filter(node => node.name?.text === 'components'));
+if (write) {
+  await writeFile(typesPath, types);
+  console.log('Wrote services/apiSchema.ts.');
+  process.exit(0);
+}
+
+const schemas = schema.components?.schemas ?? {};
+const problems = [];
+
+if (await readTypes() !== types) {
+  problems.push('services/apiSchema.ts does not match the schema. Run `npm run generate:api` and fix the type errors it causes.');
+}
+
+const backendCodes = schemas.ErrorCode?.enum ?? [];
+const clientCodes = await readClientCodes();
+if (backendCodes.length === 0) problems.push('The schema has no ErrorCode enum.');
+backendCodes.filter(code => !clientCodes.includes(code)).forEach(code => problems.push(`Error code ${code} is missing from API_ERROR_CODES.`));
+clientCodes.filter(code => !backendCodes.includes(code)).forEach(code => problems.push(`Error code ${code} is not sent by the backend.`));
+
+const envelopeFields = Object.keys(schemas.ErrorResponse?.properties ?? {}).sort().join(',');
+if (envelopeFields !== 'code,detail') problems.push(`ErrorResponse has fields [${envelopeFields}], expected [code,detail].`);
+
+if (problems.length > 0) {
+  console.error(problems.join('\n'));
+  process.exit(1);
+}
+console.log(`API client matches the schema (${Object.keys(schemas).length} schemas, ${backendCodes.length} error codes).`);
@@ -0,0 +1,108 @@
+import type { components } from './apiSchema';
+
+// Request and response bodies of the backend, by their name in its OpenAPI schema. Generated into apiSchema.ts,
+// which `npm run check:api` keeps in line with the backend.
+export type ApiSchema<Name extends keyof components['schemas']> = components['schemas'][Name];
+
+// Typed view of the backend's error envelope. The codes mirror `ErrorCode` in backend/server.py;
+// `npm run check:api` compares them with the backend's OpenAPI schema.
+export const API_ERROR_CODES = [
+  'NO_LEAF_DETECTED',
+  'INVALID_IMAGE',
+  'LLM_UNAVAILABLE',
+  'VALIDATION_ERROR',
+  'INVALID_REQUEST',
+  'NOT_FOUND',
+  'RATE_LIMITED',
+  'WEATHER_NOT_CONFIGURED',
+  'WEATHER_UNAVAILABLE',
+  'AUTH_REQUIRED',
+  'INVALID_CREDENTIALS',
+  'USERNAME_TAKEN',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+// Body of every backend error response (`ErrorResponse` in the OpenAPI schema).
+export interface ApiErrorResponse {
+  code: ApiErrorCode;
+  detail: string;
+}
+
+// The TRANSLATIONS key shown to the user for each code; the English `detail` is only logged.
+const ERROR_MESSAGE_KEYS: Record<ApiErrorCode, string> = {
+  NO_LEAF_DETECTED: 'noValidLeafDetected',
+  INVALID_IMAGE: 'errorInvalidImage',
+  LLM_UNAVAILABLE: 'errorLlmUnavailable',
+  VALIDATION_ERROR: 'errorInvalidRequest',
+  INVALID_REQUEST: 'errorInvalidRequest',
+  NOT_FOUND: 'errorNotFound',
+  RATE_LIMITED: 'errorRateLimited',
+  WEATHER_NOT_CONFIGURED: 'weatherErrorNoKey',
+  WEATHER_UNAVAILABLE: 'weatherErrorApi',
+  AUTH_REQUIRED: 'errorAuthRequired',
+  INVALID_CREDENTIALS: 'errorInvalidCredentials',
+  USERNAME_TAKEN: 'errorUsernameTaken',
+  INTERNAL_ERROR: 'errorApi',
+};
+
+// Thrown when the backend answered with an error envelope.
+export class ApiError extends Error {
+  constructor(public readonly code: ApiErrorCode, public readonly status: number, detail: string) {
+    super(detail);
+    this.name = 'ApiError';
+  }
+}
+
+// Thrown when the backend could not be reached at all, as opposed to the backend answering with an error.
+export class ApiConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiConnectionError';
+  }
+}
+
+// fetch() rejects with a TypeError when the backend cannot be reached, worded differently by every browser
+// ("Failed to fetch", "NetworkError when attempting to fetch resource.", "Load failed"), so any TypeError counts.
+// Aborts and other errors are passed through.
+export const fetchBackend = async (url: string, init: RequestInit | undefined, connectionMessage: string): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (err) {
+    if (err instanceof TypeError) throw new ApiConnectionError(connectionMessage);
+    throw err;
+  }
+};
+
+// Whether a request may succeed when tried again later: the backend was unreachable, overloaded (429) or failing
+// (5xx, e.g. LLM_UNAVAILABLE or a 502/504 from a proxy). Other 4xx errors will fail the same way every time.
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof ApiConnectionError || (error instanceof ApiError && (error.status === 429 || error.status >= 500));
+
+const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  typeof value === 'string' && (API_ERROR_CODES as readonly string[]).includes(value);
+
+// Builds an ApiError from an envelope, e.g. the body of a failed response or a /chat/stream `error` event.
+export const toApiError = (body: Partial<ApiErrorResponse> | null | undefined, status: number): ApiError => {
+  const detail = typeof body?.detail === 'string' ? body.detail : `Request failed with status ${status}.`;
+  return new ApiError(isApiErrorCode(body?.code) ? body.code : 'INTERNAL_ERROR', status, detail);
+};
+
+// Reads the error envelope of a failed response. Proxies in front of the backend may answer with plain text.
+export const readApiError = async (response: Response): Promise<ApiError> => {
+  let body: Partial<ApiErrorResponse> | null = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Not a JSON body.
+  }
+  return toApiError(body, response.status);
+};
+
+// The localized message for any error thrown by the API services.
+export const getErrorMessage = (error: unknown, t: Record<string, string>, fallbackKey: string = 'errorApi'): string => {
+  if (error instanceof ApiError) return t[ERROR_MESSAGE_KEYS[error.code]] || t[fallbackKey];
+  if (error instanceof ApiConnectionError) return error.message;
+  return t[fallbackKey];
+};
@@ -0,0 +1,50 @@
+import { DEFAULT_API_BASE_URL } from '../constants';
+
+// A backend URL saved in the settings panel, e.g. a local server or a partner's on-premise deployment.
+const API_BASE_URL_KEY = 'agrolens.apiBaseUrl';
+const HEALTH_CHECK_TIMEOUT_MS = 8000;
+
+export interface BackendHealth {
+  reachable: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+// Trims whitespace and trailing slashes so paths can be appended with `${base}/route`.
+export const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+export const isValidBaseUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const getApiBaseUrlOverride = (): string | null => localStorage.getItem(API_BASE_URL_KEY);
+
+export const setApiBaseUrlOverride = (url: string | null) => {
+  if (url) {
+    localStorage.setItem(API_BASE_URL_KEY, normalizeBaseUrl(url));
+  } else {
+    localStorage.removeItem(API_BASE_URL_KEY);
+  }
+};
+
+// Read on every request, so a URL saved in the settings panel applies without reloading the app.
+export const getApiBaseUrl = (): string => normalizeBaseUrl(getApiBaseUrlOverride() || DEFAULT_API_BASE_URL);
+
+// Calls the backend's root route, which needs no models or API keys, to tell whether the server is up.
+export const checkBackendHealth = async (baseUrl: string = getApiBaseUrl()): Promise<BackendHealth> => {
+  const started = performance.now();
+  try {
+    const response = await fetch(`${normalizeBaseUrl(baseUrl)}/`, { signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS) });
+    if (!response.ok) {
+      return { reachable: false, error: `HTTP ${response.status}` };
+    }
+    return { reachable: true, latencyMs: Math.round(performance.now() - started) };
+  } catch (err) {
+    return { reachable: false, error: err instanceof Error ? err.message : String(err) };
+  }
+};
@@ -0,0 +1,560 @@
+// Generated from the backend's OpenAPI schema by `npm run generate:api`; do not edit.
+// `npm run check:api` fails when this file no longer matches the backend.
+
+export interface components {
+    schemas: {
+        /** AuthToken */
+        AuthToken: {
+            /**
+             * Access Token
+             * @description Send as `Authorization: Bearer <token>`
+             */
+            access_token: string;
+            /**
+             * Token Type
+             * @default bearer
+             * @constant
+             */
+            token_type: "bearer";
+            /**
+             * Expires At
+             * @description Unix timestamp after which the token is rejected
+             */
+            expires_at: number;
+            user: components["schemas"]["UserAccount"];
+        };
+        /** Body_debug_inference_debug_inference_post */
+        Body_debug_inference_debug_inference_post: {
+            /**
+             * File
+             * Format: binary
+             */
+            file: string;
+        };
+        /** Body_detect_disease_detect_disease_post */
+        Body_detect_disease_detect_disease_post: {
+            /**
+             * File
+             * Format: binary
+             */
+            file: string;
+        };
+        /** Body_heatmap_heatmap_post */
+        Body_heatmap_heatmap_post: {
+            /**
+             * File
+             * Format: binary
+             */
+            file: string;
+        };
+        /** ChatMessage */
+        ChatMessage: {
+            /** Role */
+            role: string;
+            /** Content */
+            content: string;
+        };
+        /** ChatRequest */
+        ChatRequest: {
+            /** Message */
+            message: string;
+            /**
+             * History
+             * @default []
+             */
+            history: components["schemas"]["ChatMessage"][];
+            diagnosis?: components["schemas"]["DiagnosisContext"] | null;
+        };
+        /** ChatSession */
+        ChatSession: {
+            /** Diagnosis Id */
+            diagnosis_id: string;
+            /**
+             * Messages
+             * @default []
+             */
+            messages: components["schemas"]["ChatMessage"][];
+            /** Crop Stage */
+            crop_stage?: string | null;
+            /**
+             * Updated At
+             * @description Unix timestamp of the last change, set by the server
+             * @default 0
+             */
+            updated_at: number;
+        };
+        /** Credentials */
+        Credentials: {
+            /**
+             * Username
+             * @description Phone number or email address; not case-sensitive
+             */
+            username: string;
+            /** Password */
+            password: string;
+        };
+        /** DiagnosisContext */
+        DiagnosisContext: {
+            /**
+             * Disease
+             * @description Disease the user was diagnosed with
+             */
+            disease: string;
+            /**
+             * Confidence Score
+             * @description Model confidence for the disease, in percent
+             */
+            confidence_score?: number | null;
+            /**
+             * Summary
+             * @default
+             */
+            summary: string;
+            /**
+             * Medicines
+             * @default []
+             */
+            medicines: components["schemas"]["MedicineInfo"][];
+            /**
+             * Precautions
+             * @default []
+             */
+            precautions: string[];
+            /**
+             * Language
+             * @description Language of the report the user is reading
+             * @default English
+             */
+            language: string;
+            /**
+             * Crop Stage
+             * @description Growth stage of the crop, e.g. 'flowering'
+             */
+            crop_stage?: string | null;
+            /**
+             * Location
+             * @description Where the diagnosis was made, as a place name or 'lat, lon'
+             */
+            location?: string | null;
+        };
+        /** DiseaseIdentity */
+        DiseaseIdentity: {
+            /**
+             * Class Name
+             * @description Raw label from class_names.json
+             */
+            class_name: string;
+            /**
+             * Crop Id
+             * @description Stable crop ID, e.g. 'tomato'
+             */
+            crop_id: string;
+            /**
+             * Disease Id
+             * @description Stable disease ID, e.g. 'late_blight'; 'healthy' for healthy leaves
+             */
+            disease_id: string;
+            /**
+             * Crop Name
+             * @description Crop name in the requested language
+             */
+            crop_name: string;
+            /**
+             * Disease Name
+             * @description Disease name in the requested language
+             */
+            disease_name: string;
+            /**
+             * Pathogen Type
+             * @description Cause of the disease; null for healthy leaves
+             */
+            pathogen_type?: ("fungal" | "bacterial" | "viral" | "pest") | null;
+            /** Is Healthy */
+            is_healthy: boolean;
+            /**
+             * Is Crop Detected
+             * @description Whether the gatekeeper model found a plant leaf in the image
+             */
+            is_crop_detected: boolean;
+        };
+        /** DiseaseInfo */
+        DiseaseInfo: {
+            /**
+             * Medicines
+             * @description List of medicines with details
+             */
+            medicines: components["schemas"]["MedicineInfo"][];
+            /**
+             * Precautions
+             * @description List of safety precautions
+             */
+            precautions: string[];
+            /**
+             * Causes
+             * @description List of causes for the disease
+             */
+            causes: string[];
+            /**
+             * Summary
+             * @description Summary of the disease
+             */
+            summary: string;
+            /**
+             * Disclaimer
+             * @description Disclaimer regarding medical advice
+             */
+            disclaimer: string;
+        };
+        /** DiseasePrediction */
+        DiseasePrediction: {
+            /** Predicted Disease */
+            predicted_disease: string;
+            /** Confidence Score */
+            confidence_score: number;
+        };
+        /**
+         * ErrorCode
+         * @description Machine-readable error codes. Clients map these to their own (localized) messages.
+         * @enum {string}
+         */
+        ErrorCode: "NO_LEAF_DETECTED" | "INVALID_IMAGE" | "LLM_UNAVAILABLE" | "VALIDATION_ERROR" | "INVALID_REQUEST" | "NOT_FOUND" | "RATE_LIMITED" | "WEATHER_NOT_CONFIGURED" | "WEATHER_UNAVAILABLE" | "AUTH_REQUIRED" | "INVALID_CREDENTIALS" | "USERNAME_TAKEN" | "INTERNAL_ERROR";
+        /**
+         * ErrorResponse
+         * @description Body of every error response, including the `error` event of /chat/stream.
+         */
+        ErrorResponse: {
+            code: components["schemas"]["ErrorCode"];
+            /**
+             * Detail
+             * @description Human-readable explanation, in English, for logs and debugging
+             */
+            detail: string;
+        };
+        /** FarmProfile */
+        FarmProfile: {
+            /**
+             * Farmer Name
+             * @default
+             */
+            farmer_name: string;
+            /**
+             * Cooperative
+             * @description Cooperative the farmer belongs to, if any
+             * @default
+             */
+            cooperative: string;
+            /**
+             * Location Name
+             * @description Village or place name
+             * @default
+             */
+            location_name: string;
+            /** Latitude */
+            latitude?: number | null;
+            /** Longitude */
+            longitude?: number | null;
+            /**
+             * Crops
+             * @description Crops grown, named as in class_names.json, e.g. 'Tomato'
+             * @default []
+             */
+            crops: string[];
+            /**
+             * Acreage
+             * @description Farm size in acres
+             */
+            acreage?: number | null;
+            /** Soil Type */
+            soil_type?: ("alluvial" | "black" | "red" | "laterite" | "clay" | "loam" | "sandy") | null;
+            /**
+             * Updated At
+             * @description Unix timestamp of the last change, set by the server
+             * @default 0
+             */
+            updated_at: number;
+        };
+        /** HTTPValidationError */
+        HTTPValidationError: {
+            /** Detail */
+            detail?: components["schemas"]["ValidationError"][];
+        };
+        /** HourlyForecast */
+        HourlyForecast: {
+            /**
+             * Time
+             * @description Start of the 3-hour slot, Unix timestamp in seconds
+             */
+            time: number;
+            /**
+             * Temp
+             * @description Temperature in °C
+             */
+            temp: number;
+            /**
+             * Humidity
+             * @description Relative humidity in percent
+             */
+            humidity: number;
+            /**
+             * Rain
+             * @description Rain in the slot, in mm
+             * @default 0
+             */
+            rain: number;
+            /**
+             * Pop
+             * @description Probability of precipitation, 0-1
+             * @default 0
+             */
+            pop: number;
+            /**
+             * Wind Speed
+             * @description Wind speed in km/h
+             * @default 0
+             */
+            wind_speed: number;
+            /**
+             * Wind Gust
+             * @description Wind gust in km/h
+             * @default 0
+             */
+            wind_gust: number;
+            /**
+             * Condition
+             * @default
+             */
+            condition: string;
+            /**
+             * Icon
+             * @description OpenWeather icon code
+             * @default 01d
+             */
+            icon: string;
+        };
+        /** InferenceTrace */
+        InferenceTrace: {
+            /** Input Shape */
+            input_shape: number[];
+            /**
+             * Input Sha256
+             * @description SHA-256 of the preprocessed pixels as row-major RGB uint8 bytes
+             */
+            input_sha256: string;
+            /** Plant Probability */
+            plant_probability: number;
+            /**
+             * Probabilities
+             * @description Disease model softmax, indexed like class_names.json
+             */
+            probabilities: number[];
+        };
+        /** KnowledgeSource */
+        KnowledgeSource: {
+            /** Title */
+            title: string;
+            /** Publisher */
+            publisher?: string | null;
+            /** Url */
+            url?: string | null;
+        };
+        /** MedicineInfo */
+        MedicineInfo: {
+            /** Name */
+            name: string;
+            /** Typical Dosage Or Application */
+            typical_dosage_or_application: string;
+            /** Notes */
+            notes: string;
+        };
+        /** Place */
+        Place: {
+            /** Name */
+            name: string;
+            /** State */
+            state?: string | null;
+            /**
+             * Country
+             * @default
+             */
+            country: string;
+            /** Latitude */
+            latitude: number;
+            /** Longitude */
+            longitude: number;
+        };
+        /** ResponseFormat */
+        ResponseFormat: {
+            disease_info: components["schemas"]["DiseasePrediction"];
+            /**
+             * Top Predictions
+             * @description Top-k classes from the softmax, highest first
+             */
+            top_predictions: components["schemas"]["TopPrediction"][];
+            treatment_details: components["schemas"]["DiseaseInfo"];
+            treatment_source: components["schemas"]["TreatmentProvenance"];
+            identity: components["schemas"]["DiseaseIdentity"];
+            /**
+             * Crop
+             * @description Crop hint the prediction was limited to, if one was given
+             */
+            crop?: string | null;
+            /** @description The model's top class over all crops, when a crop hint was given and it disagrees */
+            unconstrained_prediction?: components["schemas"]["TopPrediction"] | null;
+            /** @description Where on the image the model saw the predicted class, when requested */
+            heatmap?: components["schemas"]["SaliencyMap"] | null;
+            /** @description How much of the leaf is affected; null for healthy predictions or when the leaf cannot be segmented */
+            severity?: components["schemas"]["SeverityEstimate"] | null;
+        };
+        /** SaliencyMap */
+        SaliencyMap: {
+            /**
+             * Method
+             * @default occlusion
+             * @constant
+             */
+            method: "occlusion";
+            /**
+             * Grid
+             * @description Rows top to bottom covering the whole image, 0-1; higher means the region mattered more for the prediction
+             */
+            grid: number[][];
+        };
+        /** SeverityEstimate */
+        SeverityEstimate: {
+            /**
+             * Affected Percent
+             * @description Share of the leaf area that is discoloured or lesioned, 0-100
+             */
+            affected_percent: number;
+            /**
+             * Grade
+             * @enum {string}
+             */
+            grade: "trace" | "mild" | "moderate" | "severe";
+        };
+        /** StoredDiagnosis */
+        StoredDiagnosis: {
+            /** Id */
+            id: string;
+            /**
+             * Created At
+             * @description Unix timestamp of the scan
+             */
+            created_at: number;
+            /**
+             * Record
+             * @description The app's diagnosis record, stored as sent
+             */
+            record: {
+                [key: string]: unknown;
+            };
+            /**
+             * Updated At
+             * @description Unix timestamp of the last change, set by the server
+             * @default 0
+             */
+            updated_at: number;
+        };
+        /** TopPrediction */
+        TopPrediction: {
+            /** Disease */
+            disease: string;
+            /** Confidence Score */
+            confidence_score: number;
+            /**
+             * Crop Name
+             * @description Localized crop name
+             */
+            crop_name?: string | null;
+            /**
+             * Disease Name
+             * @description Localized disease name
+             */
+            disease_name?: string | null;
+        };
+        /** TreatmentProvenance */
+        TreatmentProvenance: {
+            /**
+             * Source
+             * @description 'llm' means the class has no knowledge base entry and the treatment was generated; it has not been reviewed
+             * @enum {string}
+             */
+            source: "knowledge_base" | "llm";
+            /**
+             * Version
+             * @description Version of the knowledge base entry
+             */
+            version?: number | null;
+            /**
+             * Review Status
+             * @description 'approved' once an agronomist has signed off on the entry
+             */
+            review_status?: ("draft" | "approved") | null;
+            /** Reviewed By */
+            reviewed_by?: string | null;
+            /**
+             * Reviewed At
+             * @description Date of sign-off, YYYY-MM-DD
+             */
+            reviewed_at?: string | null;
+            /** References */
+            references?: components["schemas"]["KnowledgeSource"][];
+        };
+        /** TreatmentResponse */
+        TreatmentResponse: {
+            identity: components["schemas"]["DiseaseIdentity"];
+            treatment_details: components["schemas"]["DiseaseInfo"];
+            treatment_source: components["schemas"]["TreatmentProvenance"];
+            /**
+             * Related
+             * @description Localized identities of the requested related classes, e.g. the other top predictions
+             */
+            related?: components["schemas"]["DiseaseIdentity"][];
+        };
+        /** UserAccount */
+        UserAccount: {
+            /** Id */
+            id: string;
+            /** Username */
+            username: string;
+            /**
+             * Created At
+             * @description Unix timestamp of the registration
+             */
+            created_at: number;
+        };
+        /** ValidationError */
+        ValidationError: {
+            /** Location */
+            loc: (string | number)[];
+            /** Message */
+            msg: string;
+            /** Error Type */
+            type: string;
+        };
+        /** WeatherForecast */
+        WeatherForecast: {
+            /**
+             * Latitude
+             * @description Latitude the forecast was fetched for, rounded to the cache grid
+             */
+            latitude: number;
+            /** Longitude */
+            longitude: number;
+            /** Location Name */
+            location_name?: string | null;
+            /**
+             * Fetched At
+             * @description Unix timestamp when the provider was called
+             */
+            fetched_at: number;
+            /** Hourly */
+            hourly: components["schemas"]["HourlyForecast"][];
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
@@ -0,0 +1,97 @@
+import { AuthSession } from '../types';
+import { getApiBaseUrl } from './apiConfig';
+import { ApiConnectionError, ApiError, ApiSchema, readApiError } from './apiClient';
+
+// The signed-in account on this device. Signed-out use of the app keeps working exactly as before.
+const SESSION_KEY = 'agrolens.authSession';
+
+type BackendAuthToken = ApiSchema<'AuthToken'>;
+
+type SessionListener = (session: AuthSession | null) => void;
+
+const listeners = new Set<SessionListener>();
+
+const notify = (session: AuthSession | null) => listeners.forEach(listener => listener(session));
+
+// Calls the listener whenever the user signs in or out, including when the backend rejects an expired token.
+export const onSessionChange = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSession = (): AuthSession | null => {
+  try {
+    const session: AuthSession | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getSignedInUserId = (): string | undefined => getSession()?.user.id;
+
+// Authorization header for backend requests; empty when signed out.
+export const authHeaders = (): Record<string, string> => {
+  const session = getSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+export const signOut = () => {
+  localStorage.removeItem(SESSION_KEY);
+  notify(null);
+};
+
+const authenticate = async (
+  route: 'register' | 'login',
+  username: string,
+  password: string,
+  t: Record<string, string>
+): Promise<AuthSession> => {
+  const apiBaseUrl = getApiBaseUrl();
+  let response: Response;
+  try {
+    response = await fetch(`${apiBaseUrl}/auth/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password } satisfies ApiSchema<'Credentials'>),
+    });
+  } catch {
+    throw new ApiConnectionError(t.errorApiConnection.replace('{url}', apiBaseUrl));
+  }
+  if (!response.ok) throw await readApiError(response);
+
+  const data: BackendAuthToken = await response.json();
+  const session: AuthSession = {
+    token: data.access_token,
+    expiresAt: data.expires_at * 1000,
+    user: { id: data.user.id, username: data.user.username, createdAt: data.user.created_at * 1000 },
+  };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  notify(session);
+  return session;
+};
+
+export const register = (username: string, password: string, t: Record<string, string>) =>
+  authenticate('register', username, password, t);
+
+export const signIn = (username: string, password: string, t: Record<string, string>) =>
+  authenticate('login', username, password, t);
+
+// Calls an endpoint that needs the signed-in account. A rejected token signs the user out on this device.
+export const accountFetch = async (
+  path: string,
+  init: { method?: string; body?: string } = {}
+): Promise<Response> => {
+  const response = await fetch(`${getApiBaseUrl()}${path}`, {
+    ...init,
+    headers: { ...(init.body ? { 'Content-Type': 'application/json' } : {}), ...authHeaders() },
+  });
+  if (!response.ok) {
+    const error: ApiError = await readApiError(response);
+    if (error.code === 'AUTH_REQUIRED') signOut();
+    throw error;
+  }
+  return response;
+};
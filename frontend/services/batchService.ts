@@ -0,0 +1,55 @@
+// Helpers for diagnosing many leaf photos in one go.
+
+// Runs `worker` over `items` with at most `limit` calls in flight at once.
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      // eslint-disable-next-line no-await-in-loop
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+};
+
+const isImage = (file: File) => file.type.startsWith('image/');
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    // readEntries returns results in chunks; keep reading until it comes back empty.
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop
+      const entries = await readEntries(reader);
+      if (entries.length === 0) break;
+      // eslint-disable-next-line no-await-in-loop
+      const nested = await Promise.all(entries.map(entryToFiles));
+      files.push(...nested.flat());
+    }
+    return files;
+  }
+  return [];
+};
+
+// Collects every image from a drop, walking into dropped folders where the browser supports it.
+export const collectDroppedImages = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' && item.webkitGetAsEntry ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).filter(isImage);
+  }
+
+  const files = await Promise.all(entries.map(entryToFiles));
+  return files.flat().filter(isImage);
+};
@@ -0,0 +1,147 @@
+import { ChatMessage, ChatSession, DiseaseDetectionResult, Language } from '../types';
+import { SYNC_CHAT_SESSIONS } from '../constants';
+import { getApiBaseUrl } from './apiConfig';
+import { ApiSchema, readApiError } from './apiClient';
+import { authHeaders, getSession, getSignedInUserId } from './authService';
+import { formatDiagnosisName } from './historyService';
+import { STORES, getOne, put, remove } from './db';
+import { addPending, listPending, removePending } from './syncQueue';
+
+// The backend stores messages as { role, content } with 'assistant' instead of our 'model' role.
+type BackendChatSession = ApiSchema<'ChatSession'>;
+
+// Same limits as the backend. The backend keeps the latest messages; this device keeps the whole conversation.
+const MAX_SYNCED_MESSAGES = 200;
+const MAX_MESSAGE_LENGTH = 10_000;
+
+const toBackendSession = (session: ChatSession): BackendChatSession => ({
+  diagnosis_id: session.diagnosisId,
+  messages: session.messages.slice(-MAX_SYNCED_MESSAGES).map(m => ({
+    role: m.role === 'model' ? 'assistant' : m.role,
+    content: m.text.slice(0, MAX_MESSAGE_LENGTH),
+  })),
+  crop_stage: session.cropStage ?? null,
+  updated_at: session.updatedAt / 1000,
+});
+
+const fromBackendSession = (data: BackendChatSession): ChatSession => ({
+  diagnosisId: data.diagnosis_id,
+  messages: data.messages.map((m): ChatMessage => ({ role: m.role === 'user' ? 'user' : 'model', text: m.content })),
+  cropStage: (data.crop_stage ?? undefined) as ChatSession['cropStage'],
+  updatedAt: data.updated_at * 1000,
+});
+
+// Signed-in users always keep their sessions in their account; the backend stores them per user.
+const shouldSync = (): boolean => SYNC_CHAT_SESSIONS || getSession() !== null;
+
+// Sessions saved or deleted on this device whose change has not reached the backend yet.
+const UNSYNCED_KEY = 'agrolens.unsyncedChatSessions';
+
+// Signed out, the backend stores sessions under this device's secret key, so only this device can read them back.
+const DEVICE_KEY = 'agrolens.chatSessionKey';
+
+const getDeviceKey = (): string => {
+  let key = localStorage.getItem(DEVICE_KEY);
+  if (!key) {
+    key = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, key);
+  }
+  return key;
+};
+
+const sessionHeaders = (): Record<string, string> =>
+  getSession() ? authHeaders() : { 'X-Chat-Session-Key': getDeviceKey() };
+
+const sessionUrl = (diagnosisId: string) => `${getApiBaseUrl()}/chat_sessions/${encodeURIComponent(diagnosisId)}`;
+
+const fetchRemoteSession = async (diagnosisId: string): Promise<ChatSession | undefined> => {
+  const response = await fetch(sessionUrl(diagnosisId), { headers: sessionHeaders() });
+  if (response.status === 404) return undefined;
+  if (!response.ok) throw await readApiError(response);
+  return fromBackendSession(await response.json());
+};
+
+// Loads the session for a diagnosis from this device, falling back to the backend when syncing is enabled.
+export const loadChatSession = async (diagnosisId: string): Promise<ChatSession | undefined> => {
+  const local = await getOne<ChatSession>(STORES.chatSessions, diagnosisId);
+  if (local || !shouldSync()) return local;
+
+  try {
+    const remote = await fetchRemoteSession(diagnosisId);
+    if (remote) await put(STORES.chatSessions, remote);
+    return remote;
+  } catch (err) {
+    console.error('Could not load chat session from the backend:', err);
+    return undefined;
+  }
+};
+
+// Sends this device's copy of the session to the backend, or deletes it there when it is gone here.
+const pushSession = async (diagnosisId: string): Promise<void> => {
+  const session = await getOne<ChatSession>(STORES.chatSessions, diagnosisId);
+  const response = await fetch(sessionUrl(diagnosisId), session
+    ? { method: 'PUT', headers: { 'Content-Type': 'application/json', ...sessionHeaders() }, body: JSON.stringify(toBackendSession(session)) }
+    : { method: 'DELETE', headers: sessionHeaders() });
+  if (!response.ok) throw await readApiError(response);
+  removePending(UNSYNCED_KEY, diagnosisId);
+};
+
+// The local copy is the source of truth on this device. A change that does not reach the backend is queued
+// and sent again by syncChatSessions.
+const mirror = async (diagnosisId: string): Promise<void> => {
+  addPending(UNSYNCED_KEY, diagnosisId, getSignedInUserId());
+  try {
+    await pushSession(diagnosisId);
+  } catch (err) {
+    console.error('Could not sync chat session with the backend:', err);
+  }
+};
+
+export const saveChatSession = async (session: ChatSession): Promise<void> => {
+  await put(STORES.chatSessions, session);
+  if (shouldSync()) await mirror(session.diagnosisId);
+};
+
+export const deleteChatSession = async (diagnosisId: string): Promise<void> => {
+  await remove(STORES.chatSessions, diagnosisId);
+  if (shouldSync()) await mirror(diagnosisId);
+};
+
+// Retries the queued changes of the signed-in account (or of this device, when signed out), stopping at the
+// first failure so the rest stay queued for the next attempt.
+export const syncChatSessions = async (): Promise<void> => {
+  if (!shouldSync()) return;
+  try {
+    for (const diagnosisId of listPending(UNSYNCED_KEY, getSignedInUserId())) {
+      // eslint-disable-next-line no-await-in-loop
+      await pushSession(diagnosisId);
+    }
+  } catch (err) {
+    console.error('Could not sync chat sessions with the backend:', err);
+  }
+};
+
+export const buildTranscript = (
+  messages: ChatMessage[],
+  result: DiseaseDetectionResult,
+  language: Language,
+  t: Record<string, string>
+): string => {
+  const header = [
+    `${t.title} – ${t.agroChat}`,
+    `${t.diagnosis}: ${formatDiagnosisName(result)} (${result.confidence.toFixed(1)}%)`,
+    `${t.exportedOn}: ${new Intl.DateTimeFormat(language, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date())}`,
+  ];
+  const body = messages.map(m => `[${m.role === 'user' ? t.you : t.title}]\n${m.text}`);
+  return [header.join('\n'), ...body].join('\n\n');
+};
+
+// Triggers a browser download of plain text.
+export const downloadTextFile = (filename: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
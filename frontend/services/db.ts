@@ -0,0 +1,89 @@
+// Thin promise wrapper around the browser's IndexedDB, shared by all client-side stores.
+const DB_NAME = 'agrolens';
+const DB_VERSION = 6;
+
+export const STORES = {
+  diagnoses: 'diagnoses',
+  outbox: 'outbox',
+  chatSessions: 'chatSessions',
+  plots: 'plots',
+  models: 'models',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not supported in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.diagnoses)) {
+        const store = db.createObjectStore(STORES.diagnoses, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+      // Added in version 6 for progression tracking; records without a tag are simply not in the index.
+      const diagnoses = request.transaction!.objectStore(STORES.diagnoses);
+      if (!diagnoses.indexNames.contains('tag')) {
+        diagnoses.createIndex('tag', 'tag');
+      }
+      if (!db.objectStoreNames.contains(STORES.outbox)) {
+        db.createObjectStore(STORES.outbox, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.chatSessions)) {
+        db.createObjectStore(STORES.chatSessions, { keyPath: 'diagnosisId' });
+      }
+      if (!db.objectStoreNames.contains(STORES.plots)) {
+        db.createObjectStore(STORES.plots, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.models)) {
+        db.createObjectStore(STORES.models, { keyPath: 'name' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getAll = <T>(storeName: StoreName): Promise<T[]> =>
+  runRequest<T[]>(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getAllByIndex = <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T[]> =>
+  runRequest<T[]>(storeName, 'readonly', store => store.index(indexName).getAll(key) as IDBRequest<T[]>);
+
+export const getOne = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runRequest<T | undefined>(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const put = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(value));
+};
+
+export const remove = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(key));
+};
@@ -0,0 +1,115 @@
+import { DiagnosisRecord } from '../types';
+import { STORES, getAll, put, remove } from './db';
+import { ApiSchema } from './apiClient';
+import { accountFetch, getSignedInUserId } from './authService';
+import { addPending, listPending, removePending } from './syncQueue';
+
+// Diagnoses of a signed-in account are mirrored to the backend so they follow the farmer to other devices.
+// The backend stores the record itself as opaque JSON.
+type BackendStoredDiagnosis = Omit<ApiSchema<'StoredDiagnosis'>, 'record'> & { record: DiagnosisRecord };
+
+// Diagnoses deleted on this device that the backend has not confirmed deleting yet.
+const DELETED_KEY = 'agrolens.deletedDiagnoses';
+
+let syncing = false;
+
+const lastChange = (record: DiagnosisRecord): number => record.updatedAt ?? record.createdAt;
+
+const upload = async (record: DiagnosisRecord): Promise<void> => {
+  await accountFetch(`/me/diagnoses/${encodeURIComponent(record.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      id: record.id,
+      created_at: record.createdAt / 1000,
+      record: { ...record, syncedAt: undefined },
+    } satisfies Omit<ApiSchema<'StoredDiagnosis'>, 'updated_at'>),
+  });
+  await put(STORES.diagnoses, { ...record, syncedAt: Date.now() });
+};
+
+// Best effort: a record that fails to upload is uploaded by the next sync.
+export const pushDiagnosis = async (record: DiagnosisRecord): Promise<void> => {
+  if (!record.ownerId || record.ownerId !== getSignedInUserId()) return;
+  try {
+    await upload(record);
+  } catch (err) {
+    console.error('Could not save diagnosis to the account:', err);
+  }
+};
+
+const sendDelete = async (id: string): Promise<void> => {
+  await accountFetch(`/me/diagnoses/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  removePending(DELETED_KEY, id);
+};
+
+// The delete is always sent, even for records this device never saw uploaded: another device or an earlier
+// attempt may have stored them. Until the backend confirms it, syncs retry it and ignore the backend's copy.
+export const deleteRemoteDiagnosis = async (record: DiagnosisRecord): Promise<void> => {
+  if (!record.ownerId || record.ownerId !== getSignedInUserId()) return;
+  addPending(DELETED_KEY, record.id, record.ownerId);
+  try {
+    await sendDelete(record.id);
+  } catch (err) {
+    console.error('Could not delete diagnosis from the account:', err);
+  }
+};
+
+// Two-way sync of the signed-in account's diagnoses; the most recently changed copy of a record wins.
+// Records that were uploaded before but are gone from the backend were deleted on another device, and
+// records deleted here are retried first and never downloaded again.
+// Returns how many records changed on this device.
+export const syncDiagnoses = async (): Promise<number> => {
+  const userId = getSignedInUserId();
+  if (!userId || syncing) return 0;
+  syncing = true;
+  let changed = 0;
+
+  try {
+    for (const id of listPending(DELETED_KEY, userId)) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await sendDelete(id);
+      } catch (err) {
+        console.error('Could not delete diagnosis from the account:', err);
+      }
+    }
+    const deleted = new Set(listPending(DELETED_KEY, userId));
+    const response = await accountFetch('/me/diagnoses');
+    const remote = new Map(
+      (await response.json() as BackendStoredDiagnosis[]).filter(item => !deleted.has(item.id)).map(item => [item.id, item.record])
+    );
+    const local = (await getAll<DiagnosisRecord>(STORES.diagnoses)).filter(record => record.ownerId === userId);
+
+    for (const record of local) {
+      const stored = remote.get(record.id);
+      remote.delete(record.id);
+      if (!stored) {
+        if (record.syncedAt) {
+          // eslint-disable-next-line no-await-in-loop
+          await remove(STORES.diagnoses, record.id);
+          // eslint-disable-next-line no-await-in-loop
+          await remove(STORES.chatSessions, record.id);
+          changed++;
+        } else {
+          // eslint-disable-next-line no-await-in-loop
+          await upload(record);
+        }
+      } else if (lastChange(record) > lastChange(stored)) {
+        // eslint-disable-next-line no-await-in-loop
+        await upload(record);
+      } else if (lastChange(stored) > lastChange(record)) {
+        // eslint-disable-next-line no-await-in-loop
+        await put(STORES.diagnoses, { ...stored, ownerId: userId, syncedAt: Date.now() });
+        changed++;
+      }
+    }
+    for (const stored of remote.values()) {
+      // eslint-disable-next-line no-await-in-loop
+      await put(STORES.diagnoses, { ...stored, ownerId: userId, syncedAt: Date.now() });
+      changed++;
+    }
+  } finally {
+    syncing = false;
+  }
+  return changed;
+};
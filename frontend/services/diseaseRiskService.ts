@@ -0,0 +1,151 @@
+import { DiseaseRisk, HourlyWeather, RiskLevel, WeatherInfo } from '../types';
+
+const SLOT_HOURS = 3;
+const RISK_HORIZON_HOURS = 72;
+const MY_CROPS_KEY = 'agrolens.myCrops';
+
+// How the weather favors a disease:
+// - 'wetness': infection needs a continuous period of leaf wetness within a temperature band (most fungal leaf spots and blights).
+// - 'humid': spreads in warm, humid air without free water on the leaf (powdery mildews).
+// - 'hotDry': builds up in hot, dry spells (spider mites).
+type RiskModelKind = 'wetness' | 'humid' | 'hotDry';
+
+interface RiskModel {
+  className: string;
+  // Disease ID in the backend's class_catalog.json, which names its disease_* translation key.
+  disease: string;
+  kind: RiskModelKind;
+  tempMin: number; // °C
+  tempMax: number;
+  // Hours of favorable weather needed for a high risk (a continuous run for 'wetness' models).
+  hours: number;
+  // Relative humidity treated as leaf wetness ('wetness') or as the minimum ('humid') / maximum ('hotDry').
+  humidity?: number;
+  // Bacterial diseases spread by rain splash, so only rain counts as wetness.
+  rainDriven?: boolean;
+}
+
+// Simplified infection-period rules from published disease models (e.g. Mills for apple scab, Hutton criteria
+// for late blight). Virus, vector-borne and systemic classes (mosaic, leaf curl, citrus greening, esca) are not
+// weather-driven in the short term and are left out.
+const RISK_MODELS: RiskModel[] = [
+  { className: 'Apple___Apple_scab', disease: 'apple_scab', kind: 'wetness', tempMin: 6, tempMax: 24, hours: 9 },
+  { className: 'Apple___Black_rot', disease: 'black_rot', kind: 'wetness', tempMin: 20, tempMax: 30, hours: 9 },
+  { className: 'Apple___Cedar_apple_rust', disease: 'cedar_apple_rust', kind: 'wetness', tempMin: 10, tempMax: 24, hours: 6 },
+  { className: 'Cherry_(including_sour)___Powdery_mildew', disease: 'powdery_mildew', kind: 'humid', tempMin: 15, tempMax: 27, hours: 24, humidity: 75 },
+  { className: 'Corn_(maize)___Cercospora_leaf_spot Gray_leaf_spot', disease: 'gray_leaf_spot', kind: 'wetness', tempMin: 22, tempMax: 30, hours: 12 },
+  { className: 'Corn_(maize)___Common_rust_', disease: 'common_rust', kind: 'wetness', tempMin: 16, tempMax: 25, hours: 6 },
+  { className: 'Corn_(maize)___Northern_Leaf_Blight', disease: 'northern_leaf_blight', kind: 'wetness', tempMin: 18, tempMax: 27, hours: 6 },
+  { className: 'Grape___Black_rot', disease: 'black_rot', kind: 'wetness', tempMin: 16, tempMax: 30, hours: 7 },
+  { className: 'Grape___Leaf_blight_(Isariopsis_Leaf_Spot)', disease: 'isariopsis_leaf_spot', kind: 'wetness', tempMin: 20, tempMax: 30, hours: 12 },
+  { className: 'Peach___Bacterial_spot', disease: 'bacterial_spot', kind: 'wetness', tempMin: 19, tempMax: 30, hours: 6, rainDriven: true },
+  { className: 'Pepper,_bell___Bacterial_spot', disease: 'bacterial_spot', kind: 'wetness', tempMin: 24, tempMax: 30, hours: 6, rainDriven: true },
+  { className: 'Potato___Early_blight', disease: 'early_blight', kind: 'wetness', tempMin: 20, tempMax: 30, hours: 8 },
+  { className: 'Potato___Late_blight', disease: 'late_blight', kind: 'wetness', tempMin: 10, tempMax: 25, hours: 10 },
+  { className: 'Squash___Powdery_mildew', disease: 'powdery_mildew', kind: 'humid', tempMin: 20, tempMax: 30, hours: 24, humidity: 60 },
+  { className: 'Strawberry___Leaf_scorch', disease: 'leaf_scorch', kind: 'wetness', tempMin: 15, tempMax: 27, hours: 12 },
+  { className: 'Tomato___Bacterial_spot', disease: 'bacterial_spot', kind: 'wetness', tempMin: 24, tempMax: 30, hours: 6, rainDriven: true },
+  { className: 'Tomato___Early_blight', disease: 'early_blight', kind: 'wetness', tempMin: 20, tempMax: 30, hours: 8 },
+  { className: 'Tomato___Late_blight', disease: 'late_blight', kind: 'wetness', tempMin: 10, tempMax: 25, hours: 10 },
+  { className: 'Tomato___Leaf_Mold', disease: 'leaf_mold', kind: 'wetness', tempMin: 20, tempMax: 25, hours: 10, humidity: 85 },
+  { className: 'Tomato___Septoria_leaf_spot', disease: 'septoria_leaf_spot', kind: 'wetness', tempMin: 15, tempMax: 27, hours: 8 },
+  { className: 'Tomato___Spider_mites Two-spotted_spider_mite', disease: 'spider_mites', kind: 'hotDry', tempMin: 27, tempMax: 40, hours: 24, humidity: 50 },
+  { className: 'Tomato___Target_Spot', disease: 'target_spot', kind: 'wetness', tempMin: 20, tempMax: 30, hours: 12 },
+];
+
+const DEFAULT_WETNESS_HUMIDITY = 90;
+
+// Crops that have at least one weather-driven disease model, in class_names.json naming.
+export const RISK_CROPS: string[] = Array.from(new Set(RISK_MODELS.map(m => m.className.split('___')[0])));
+
+// Catalog IDs of RISK_CROPS, which name their crop_* translation keys.
+const CROP_IDS: Record<string, string> = {
+  'Apple': 'apple',
+  'Cherry_(including_sour)': 'cherry',
+  'Corn_(maize)': 'corn',
+  'Grape': 'grape',
+  'Peach': 'peach',
+  'Pepper,_bell': 'bell_pepper',
+  'Potato': 'potato',
+  'Squash': 'squash',
+  'Strawberry': 'strawberry',
+  'Tomato': 'tomato',
+};
+
+// Name of a crop in RISK_CROPS, in the current language.
+export const getRiskCropName = (crop: string, t: Record<string, string>): string => t[`crop_${CROP_IDS[crop]}`] ?? crop;
+
+const isFavorable = (model: RiskModel, slot: HourlyWeather): boolean => {
+  const inBand = slot.temp >= model.tempMin && slot.temp <= model.tempMax;
+  if (!inBand) return false;
+  const raining = slot.rain >= 0.2 || slot.pop >= 0.6;
+  switch (model.kind) {
+    case 'wetness':
+      // Without leaf-wetness sensors, rain or near-saturated air is the usual proxy.
+      return raining || (!model.rainDriven && slot.humidity >= (model.humidity ?? DEFAULT_WETNESS_HUMIDITY));
+    case 'humid':
+      return !raining && slot.humidity >= (model.humidity ?? 70);
+    case 'hotDry':
+      return !raining && slot.humidity <= (model.humidity ?? 50);
+  }
+};
+
+const toLevel = (score: number): RiskLevel => (score >= 0.7 ? 'high' : score >= 0.35 ? 'moderate' : 'low');
+
+const scoreModel = (model: RiskModel, slots: HourlyWeather[]) => {
+  let longestRun = 0;
+  let run = 0;
+  let favorable = 0;
+  slots.forEach(slot => {
+    if (isFavorable(model, slot)) {
+      favorable += SLOT_HOURS;
+      run += SLOT_HOURS;
+      longestRun = Math.max(longestRun, run);
+    } else {
+      run = 0;
+    }
+  });
+
+  // Wetness diseases need one long enough infection period; the others respond to the total favorable time.
+  const score = model.kind === 'wetness'
+    ? Math.min(1, longestRun / model.hours) * 0.75 + Math.min(1, favorable / (model.hours * 3)) * 0.25
+    : Math.min(1, favorable / model.hours);
+  return { score, favorableHours: favorable };
+};
+
+// Scores every modelled disease of the given crops over the next 72 hours of forecast, highest risk first.
+export const getDiseaseRisks = (forecast: WeatherInfo[], crops: string[]): DiseaseRisk[] => {
+  const now = Date.now();
+  const slots = forecast
+    .flatMap(day => day.hourly)
+    .filter(slot => slot.time + SLOT_HOURS * 3600 * 1000 > now && slot.time < now + RISK_HORIZON_HOURS * 3600 * 1000);
+  if (slots.length === 0) return [];
+
+  return RISK_MODELS
+    .filter(model => crops.includes(model.className.split('___')[0]))
+    .map((model): DiseaseRisk => {
+      const { score, favorableHours } = scoreModel(model, slots);
+      return {
+        className: model.className,
+        cropId: CROP_IDS[model.className.split('___')[0]],
+        diseaseId: model.disease,
+        score,
+        level: toLevel(score),
+        favorableHours,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+export const loadMyCrops = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MY_CROPS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((c): c is string => RISK_CROPS.includes(c)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveMyCrops = (crops: string[]) => {
+  localStorage.setItem(MY_CROPS_KEY, JSON.stringify(crops));
+};
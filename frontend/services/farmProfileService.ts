@@ -0,0 +1,39 @@
+import { FarmProfile, SoilType } from '../types';
+import { ApiSchema } from './apiClient';
+import { accountFetch } from './authService';
+
+export const SOIL_TYPES: SoilType[] = ['alluvial', 'black', 'red', 'laterite', 'clay', 'loam', 'sandy'];
+
+type BackendFarmProfile = ApiSchema<'FarmProfile'>;
+
+const fromBackendProfile = (data: BackendFarmProfile): FarmProfile => ({
+  farmerName: data.farmer_name,
+  cooperative: data.cooperative,
+  locationName: data.location_name,
+  location: data.latitude !== null && data.longitude !== null ? { latitude: data.latitude, longitude: data.longitude } : undefined,
+  crops: data.crops,
+  acreage: data.acreage ?? undefined,
+  soilType: data.soil_type ?? undefined,
+});
+
+const toBackendProfile = (profile: FarmProfile): Omit<BackendFarmProfile, 'updated_at'> => ({
+  farmer_name: profile.farmerName,
+  cooperative: profile.cooperative,
+  location_name: profile.locationName,
+  latitude: profile.location?.latitude ?? null,
+  longitude: profile.location?.longitude ?? null,
+  crops: profile.crops,
+  acreage: profile.acreage ?? null,
+  soil_type: profile.soilType ?? null,
+});
+
+// The signed-in farmer's profile is kept on the backend only, so it is the same on every device.
+export const fetchFarmProfile = async (): Promise<FarmProfile> => {
+  const response = await accountFetch('/me/profile');
+  return fromBackendProfile(await response.json());
+};
+
+export const saveFarmProfile = async (profile: FarmProfile): Promise<FarmProfile> => {
+  const response = await accountFetch('/me/profile', { method: 'PUT', body: JSON.stringify(toBackendProfile(profile)) });
+  return fromBackendProfile(await response.json());
+};
@@ -1,172 +1,296 @@
-import { DiseaseDetectionResult, Language, Medicine, ChatMessage } from '../types';
-import { API_BASE_URL } from '../constants';
-
-// This interface matches the backend schema for disease detection
-interface BackendDiseaseResponse {
-  disease_info: {
-    predicted_disease: string;
-    confidence_score: number;
-  };
-  treatment_details: {
-    medicines: Medicine[];
-    precautions: string[];
-    causes: string[];
-    summary: string;
-    disclaimer: string;
-  };
-}
+import { AlternativeDiagnosis, DiseaseDetectionResult, Language, ChatMessage, ChatDiagnosisContext } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
+import { getApiBaseUrl } from './apiConfig';
+import { ApiConnectionError, ApiError, ApiSchema, fetchBackend, readApiError, toApiError } from './apiClient';
+
+// The backend prompts the LLM with English language names rather than codes.
+const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', te: 'Telugu', hi: 'Hindi', es: 'Spanish', ta: 'Tamil' };
+
+type BackendTopPrediction = ApiSchema<'TopPrediction'>;
+type BackendTreatmentSource = ApiSchema<'TreatmentProvenance'>;
+type BackendDiseaseIdentity = ApiSchema<'DiseaseIdentity'>;
+type BackendTreatmentDetails = ApiSchema<'DiseaseInfo'>;
+// Response of /detect_disease.
+type BackendDiseaseResponse = ApiSchema<'ResponseFormat'>;
+// Response of /treatment: the treatment and names for an already known prediction, in another language.
+type BackendTreatmentResponse = ApiSchema<'TreatmentResponse'>;
+
+const toAlternative = (p: BackendTopPrediction): AlternativeDiagnosis => ({
+  diseaseName: p.disease,
+  confidence: p.confidence_score,
+  cropName: p.crop_name ?? undefined,
+  localizedName: p.disease_name ?? undefined,
+});
+
+// The treatment fields of DiseaseDetectionResult, shared by /detect_disease and /treatment.
+const toTreatment = (
+  treatment_details: BackendTreatmentDetails,
+  treatment_source: BackendTreatmentSource | undefined,
+  identity: BackendDiseaseIdentity,
+) => ({
+  medicines: treatment_details.medicines || [],
+  precautions: treatment_details.precautions || [],
+  causes: treatment_details.causes || [],
+  summary: treatment_details.summary || '',
+  disclaimer: treatment_details.disclaimer || '',
+  treatmentSource: treatment_source ? {
+    source: treatment_source.source,
+    version: treatment_source.version ?? undefined,
+    reviewStatus: treatment_source.review_status ?? undefined,
+    reviewedBy: treatment_source.reviewed_by ?? undefined,
+    reviewedAt: treatment_source.reviewed_at ?? undefined,
+    references: (treatment_source.references || []).map(ref => ({
+      title: ref.title,
+      publisher: ref.publisher ?? undefined,
+      url: ref.url ?? undefined,
+    })),
+  } : undefined,
+  identity: {
+    cropId: identity.crop_id,
+    diseaseId: identity.disease_id,
+    cropName: identity.crop_name,
+    diseaseName: identity.disease_name,
+    pathogenType: identity.pathogen_type,
+  },
+});
 
 // Maps the backend's response to the frontend's DiseaseDetectionResult type
-const mapBackendResponseToDiseaseResult = (data: BackendDiseaseResponse, t: Record<string, string>): DiseaseDetectionResult => {
-  const { disease_info, treatment_details } = data;
+const mapBackendResponseToDiseaseResult = (data: BackendDiseaseResponse): DiseaseDetectionResult => {
+  const { disease_info, treatment_details, treatment_source, identity } = data;
   const diseaseName = disease_info.predicted_disease;
-
-  // Infer boolean flags from the response string, since the backend doesn't provide them.
-  const isHealthy = diseaseName.toLowerCase().includes('healthy');
-  // Use the English translation for "no crop detected" as a stable key, as the backend might not localize this specific string.
-  const isCropDetected = !diseaseName.toLowerCase().includes('no crop detected');
+  const confidence = disease_info.confidence_score;
+  const alternatives = (data.top_predictions || []).map(toAlternative);
 
   return {
     diseaseName: diseaseName,
-    medicines: treatment_details.medicines || [],
-    precautions: treatment_details.precautions || [],
-    causes: treatment_details.causes || [],
-    summary: treatment_details.summary || '',
-    disclaimer: treatment_details.disclaimer || '',
-    isHealthy,
-    isCropDetected,
+    confidence,
+    alternatives,
+    ...toTreatment(treatment_details, treatment_source, identity),
+    isHealthy: identity.is_healthy,
+    isCropDetected: identity.is_crop_detected,
+    isUncertain: confidence < LOW_CONFIDENCE_THRESHOLD,
+    cropHint: data.crop ?? undefined,
+    unconstrainedPrediction: data.unconstrained_prediction ? toAlternative(data.unconstrained_prediction) : undefined,
+    heatmap: data.heatmap?.grid,
+    severity: data.severity ? { affectedPercent: data.severity.affected_percent, grade: data.severity.grade } : undefined,
   };
 };
 
-export const detectDisease = async (file: File, language: Language, t: Record<string, string>): Promise<DiseaseDetectionResult> => {
-  if (!API_BASE_URL) {
-    throw new Error("API_BASE_URL is not configured in constants.ts");
+// `crop` limits the diagnosis to one crop's classes, e.g. 'Tomato' (see CROPS).
+export const detectDisease = async (
+  file: File,
+  language: Language,
+  t: Record<string, string>,
+  crop?: string,
+): Promise<DiseaseDetectionResult> => {
+  const apiBaseUrl = getApiBaseUrl();
+  if (!apiBaseUrl) {
+    throw new Error("The backend URL is not configured.");
   }
 
   const formData = new FormData();
   formData.append('file', file);
 
-  const langName = { en: 'English', te: 'Telugu', hi: 'Hindi', es: 'Spanish', ta: 'Tamil' }[language];
+  const params = new URLSearchParams({ language: LANGUAGE_NAMES[language] });
+  if (crop) params.set('crop', crop);
 
   try {
-    const response = await fetch(`${API_BASE_URL}/detect_disease?language=${langName}`, {
+    const response = await fetchBackend(`${apiBaseUrl}/detect_disease?${params}`, {
       method: 'POST',
       body: formData,
-    });
+    }, t.errorApiConnection.replace('{url}', apiBaseUrl));
 
     if (!response.ok) {
-      // Try to parse structured error body (some backends return JSON with `detail`)
-      let parsed: any = null;
-      try {
-        parsed = await response.json();
-      } catch (e) {
-        // not JSON - fall back to text
-        const errorText = await response.text();
-        throw new Error(`HTTP error! status: ${response.status}, message: ${errorText}`);
-      }
-
-      if (response.status === 400 && parsed) {
-        // prefer parsed.detail if present
-        if (parsed.detail) {
-          if (Array.isArray(parsed.detail)) {
-            // join array entries into a readable string
-            const msg = parsed.detail.map((d: any) => (typeof d === 'string' ? d : JSON.stringify(d))).join(' ');
-            throw new Error(msg);
-          }
-
-          if (typeof parsed.detail === 'string') {
-            throw new Error(parsed.detail);
-          }
-
-          // otherwise include the JSON detail
-          throw new Error(JSON.stringify(parsed.detail));
-        }
-      }
-
-      // fallback - include whatever parsed JSON says
-      throw new Error(JSON.stringify(parsed));
+      throw await readApiError(response);
     }
 
     const data: BackendDiseaseResponse = await response.json();
-    return mapBackendResponseToDiseaseResult(data, t);
+    return mapBackendResponseToDiseaseResult(data);
   } catch (error) {
     console.error("Error in detectDisease API call:", error);
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      throw new Error(t.errorApiConnection.replace('{url}', API_BASE_URL));
-    }
-
-    // If the backend already provided a meaningful Error (e.g., parsed detail), rethrow it so
-    // the UI can display the server-provided message. Otherwise fall back to the generic string.
-    if (error instanceof Error && error.message) {
+    if (error instanceof ApiConnectionError || error instanceof ApiError) {
       throw error;
     }
-
     throw new Error(t.errorApi);
   }
 };
 
-export const sendMessageToChat = async (message: string, history: ChatMessage[], t: Record<string, string>): Promise<string> => {
-  if (!API_BASE_URL) {
-    throw new Error("API_BASE_URL is not configured in constants.ts");
+// Saliency map of where the model saw `diseaseName` in the image. It takes about 50 inferences on the backend,
+// so it is only requested when the user asks to see it.
+export const fetchHeatmap = async (file: File, diseaseName: string, t: Record<string, string>): Promise<number[][]> => {
+  const apiBaseUrl = getApiBaseUrl();
+  if (!apiBaseUrl) {
+    throw new Error("The backend URL is not configured.");
+  }
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetchBackend(`${apiBaseUrl}/heatmap?${new URLSearchParams({ disease: diseaseName })}`, {
+    method: 'POST',
+    body: formData,
+  }, t.errorApiConnection.replace('{url}', apiBaseUrl));
+  if (!response.ok) throw await readApiError(response);
+
+  const data: ApiSchema<'SaliencyMap'> = await response.json();
+  return data.grid;
+};
+
+// Fetches the treatment and localized names for an existing result, e.g. in another language or for a diagnosis
+// made on the device. The prediction, confidences and alternatives are kept; the image is not uploaded again.
+export const fetchTreatment = async (result: DiseaseDetectionResult, language: Language, t: Record<string, string>): Promise<DiseaseDetectionResult> => {
+  const apiBaseUrl = getApiBaseUrl();
+  if (!apiBaseUrl) {
+    throw new Error("The backend URL is not configured.");
   }
 
+  const related = [...result.alternatives, ...(result.unconstrainedPrediction ? [result.unconstrainedPrediction] : [])];
+  const params = new URLSearchParams({ disease: result.diseaseName, language: LANGUAGE_NAMES[language] });
+  related.forEach(alternative => params.append('related', alternative.diseaseName));
+  if (result.severity) params.set('severity', result.severity.grade);
+
   try {
-    // Backend expects a specific shape for history items. Our frontend uses { role, text }.
-    // Convert to { role, message } and map our internal 'model' role to 'assistant' which is commonly expected.
-    // Backend expects each history item to have a 'content' field. Provide content as an object
-    // with a 'text' property so validation passes: { role, content: { text } }
-    const mappedHistory = history.map(h => ({
-      role: h.role === 'model' ? 'assistant' : h.role,
-      // backend expects msg.content to be a string containing the message text
-      content: h.text,
-    }));
-
-    const payload = { message, history: mappedHistory };
-
-    // Debug: log outgoing payload in non-production for easier debugging of validation errors
-    if (process.env.NODE_ENV !== 'production') {
-      // eslint-disable-next-line no-console
-      console.debug('[chat] outgoing payload:', payload);
+    const response = await fetchBackend(`${apiBaseUrl}/treatment?${params}`, undefined, t.errorApiConnection.replace('{url}', apiBaseUrl));
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+
+    const data: BackendTreatmentResponse = await response.json();
+    const names = new Map(data.related.map(identity => [identity.class_name, identity]));
+    const relocalize = (alternative: AlternativeDiagnosis): AlternativeDiagnosis => {
+      const identity = names.get(alternative.diseaseName);
+      return identity ? { ...alternative, cropName: identity.crop_name, localizedName: identity.disease_name } : alternative;
+    };
+
+    return {
+      ...result,
+      ...toTreatment(data.treatment_details, data.treatment_source, data.identity),
+      alternatives: result.alternatives.map(relocalize),
+      unconstrainedPrediction: result.unconstrainedPrediction ? relocalize(result.unconstrainedPrediction) : undefined,
+      treatmentPending: undefined,
+    };
+  } catch (error) {
+    console.error("Error in fetchTreatment API call:", error);
+    if (error instanceof ApiConnectionError || error instanceof ApiError) {
+      throw error;
     }
+    throw new Error(t.errorApi);
+  }
+};
+
+export interface ChatStreamOptions {
+  // Called with each chunk of text as it arrives.
+  onToken: (token: string) => void;
+  diagnosis?: ChatDiagnosisContext;
+  // Aborting stops the stream; the text received so far is returned.
+  signal?: AbortSignal;
+}
+
+// One frame from the backend's /chat/stream Server-Sent Events response.
+type ChatStreamEvent =
+  | { event: 'message'; data: { delta?: string; done?: boolean } }
+  | { event: 'error'; data: { detail?: string } };
+
+// Maps the diagnosis context to the backend's DiagnosisContext schema.
+const toBackendDiagnosis = ({ result, language, cropStage, location }: ChatDiagnosisContext): ApiSchema<'DiagnosisContext'> => ({
+  disease: result.diseaseName,
+  confidence_score: result.confidence,
+  summary: result.summary,
+  medicines: result.medicines,
+  precautions: result.precautions,
+  language: LANGUAGE_NAMES[language],
+  crop_stage: cropStage,
+  location: location ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}` : undefined,
+});
+
+// Splits a raw SSE buffer into complete frames, returning any trailing partial frame.
+const parseSseFrames = (buffer: string): { events: ChatStreamEvent[]; rest: string } => {
+  const frames = buffer.split('\n\n');
+  const rest = frames.pop() ?? '';
+  const events = frames.map((frame): ChatStreamEvent => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    frame.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    });
+    const data = dataLines.length > 0 ? JSON.parse(dataLines.join('\n')) : {};
+    return event === 'error' ? { event: 'error', data } : { event: 'message', data };
+  });
+  return { events, rest };
+};
+
+export const streamChatMessage = async (
+  message: string,
+  history: ChatMessage[],
+  t: Record<string, string>,
+  { onToken, diagnosis, signal }: ChatStreamOptions
+): Promise<string> => {
+  const apiBaseUrl = getApiBaseUrl();
+  if (!apiBaseUrl) {
+    throw new Error("The backend URL is not configured.");
+  }
+
+  // Our frontend uses { role, text } with a 'model' role; the backend expects { role, content } with 'assistant'.
+  const mappedHistory = history.map((h): ApiSchema<'ChatMessage'> => ({
+    role: h.role === 'model' ? 'assistant' : h.role,
+    content: h.text,
+  }));
 
-    const response = await fetch(`${API_BASE_URL}/chat`, {
+  let fullText = '';
+
+  try {
+    const response = await fetchBackend(`${apiBaseUrl}/chat/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
       },
-      body: JSON.stringify(payload),
-    });
+      body: JSON.stringify({
+        message,
+        history: mappedHistory,
+        diagnosis: diagnosis ? toBackendDiagnosis(diagnosis) : undefined,
+      } satisfies ApiSchema<'ChatRequest'>),
+      signal,
+    }, t.errorApiConnection.replace('{url}', apiBaseUrl));
 
-    if (!response.ok) {
-      // Try to parse JSON error details (many backends return structured validation info)
-      let parsedError: any = null;
-      try {
-        parsedError = await response.json();
-      } catch (e) {
-        // fall back to text
-        parsedError = await response.text();
-      }
-
-      // Include structured validation details when available (helpful in dev)
-      const detail = parsedError && parsedError.detail ? JSON.stringify(parsedError.detail) : parsedError;
-      throw new Error(`HTTP error! status: ${response.status}, details: ${detail}`);
+    if (!response.ok || !response.body) {
+      throw await readApiError(response);
     }
 
-    const data = await response.json();
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
 
-    // Handle the ambiguous API response by taking the value of the first property.
-    const responseValues = Object.values(data);
-    if (responseValues.length > 0 && typeof responseValues[0] === 'string') {
-      return responseValues[0];
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const { events, rest } = parseSseFrames(buffer);
+      buffer = rest;
+      for (const evt of events) {
+        if (evt.event === 'error') {
+          throw toApiError(evt.data, response.status);
+        }
+        if (evt.data.delta) {
+          fullText += evt.data.delta;
+          onToken(evt.data.delta);
+        }
+        if (evt.data.done) {
+          return fullText;
+        }
+      }
     }
 
-    throw new Error("Unexpected chat response format from backend.");
-
+    return fullText;
   } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return fullText;
+    }
     console.error("Error in chat API call:", error);
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      throw new Error(t.errorApiConnection.replace('{url}', API_BASE_URL));
+    if (error instanceof ApiConnectionError || error instanceof ApiError) {
+      throw error;
     }
     throw new Error(t.chatError);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,139 @@
+import { AlternativeDiagnosis, DiagnosisRecord, DiseaseDetectionResult, GeoLocation, Language, WeatherInfo, WeatherSnapshot } from '../types';
+import { STORES, getAll, getAllByIndex, getOne, put, remove } from './db';
+import { deleteChatSession } from './chatSessionService';
+import { getSignedInUserId } from './authService';
+import { deleteRemoteDiagnosis, pushDiagnosis } from './diagnosisSyncService';
+
+const THUMBNAIL_SIZE = 256;
+
+// Class names from the backend look like "Tomato___Late_blight"; split them into readable crop and disease parts.
+export const splitDiseaseLabel = (label: string): { crop: string; disease: string } => {
+  const [crop, disease = ''] = label.split('___');
+  const clean = (part: string) => part.replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+  return { crop: clean(crop), disease: clean(disease) || clean(crop) };
+};
+
+// Localized crop and disease names of a diagnosis, falling back to the raw label for older results.
+export const getDiagnosisNames = (diagnosis: DiseaseDetectionResult | AlternativeDiagnosis): { crop: string; disease: string } => {
+  if ('identity' in diagnosis && diagnosis.identity) {
+    return { crop: diagnosis.identity.cropName, disease: diagnosis.identity.diseaseName };
+  }
+  if ('localizedName' in diagnosis && diagnosis.localizedName) {
+    return { crop: diagnosis.cropName ?? '', disease: diagnosis.localizedName };
+  }
+  return splitDiseaseLabel(diagnosis.diseaseName);
+};
+
+// "Crop – Disease", for places that show a diagnosis on one line.
+export const formatDiagnosisName = (diagnosis: DiseaseDetectionResult | AlternativeDiagnosis): string => {
+  const { crop, disease } = getDiagnosisNames(diagnosis);
+  return crop && crop !== disease ? `${crop} – ${disease}` : disease;
+};
+
+// Draws the image onto a small canvas and returns it as a JPEG data URL.
+export const createThumbnail = (source: Blob, maxSize: number = THUMBNAIL_SIZE): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(source);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Could not create canvas context for thumbnail.'));
+        return;
+      }
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not load image for thumbnail.'));
+    };
+    img.src = url;
+  });
+
+// Best-effort location lookup; history entries are still saved when the user denies access.
+export const getCurrentLocation = (): Promise<GeoLocation | undefined> =>
+  new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(undefined);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => resolve(undefined),
+      { enableHighAccuracy: false, timeout: 5000, maximumAge: 10 * 60 * 1000 }
+    );
+  });
+
+// Farmers may share a phone, so only the signed-in account's scans are listed (or, signed out, scans made signed out).
+const isOwnRecord = (record: DiagnosisRecord): boolean => record.ownerId === getSignedInUserId();
+
+// Today's entry of the forecast shown in the app, or nothing if the forecast does not start today.
+export const toWeatherSnapshot = (forecast: WeatherInfo[], now: Date = new Date()): WeatherSnapshot | undefined => {
+  const today = forecast[0];
+  const date = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return today && today.date === date ? { date: today.date, temp: today.temp, condition: today.condition, icon: today.icon } : undefined;
+};
+
+export const listDiagnoses = async (): Promise<DiagnosisRecord[]> => {
+  const records = (await getAll<DiagnosisRecord>(STORES.diagnoses)).filter(isOwnRecord);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getDiagnosis = (id: string): Promise<DiagnosisRecord | undefined> => getOne<DiagnosisRecord>(STORES.diagnoses, id);
+
+// `captured` carries the original time, place, weather and account for scans that were queued offline and analyzed
+// later; `weather` is today's weather for scans analyzed straight away.
+export const saveDiagnosis = async (
+  image: Blob,
+  result: DiseaseDetectionResult,
+  language: Language,
+  captured?: { createdAt: number; location?: GeoLocation; thumbnail?: string; ownerId?: string; weather?: WeatherSnapshot },
+  weather?: WeatherSnapshot
+): Promise<DiagnosisRecord> => {
+  const [thumbnail, location] = captured
+    ? [captured.thumbnail ?? await createThumbnail(image), captured.location]
+    : await Promise.all([createThumbnail(image), getCurrentLocation()]);
+  const record: DiagnosisRecord = {
+    id: crypto.randomUUID(),
+    thumbnail,
+    result,
+    language,
+    createdAt: captured?.createdAt ?? Date.now(),
+    location,
+    weather: captured ? captured.weather : weather,
+    ownerId: captured ? captured.ownerId : getSignedInUserId(),
+  };
+  await put(STORES.diagnoses, record);
+  await pushDiagnosis(record);
+  return record;
+};
+
+export const updateDiagnosis = async (record: DiagnosisRecord): Promise<void> => {
+  const updated = { ...record, updatedAt: Date.now() };
+  await put(STORES.diagnoses, updated);
+  await pushDiagnosis(updated);
+};
+
+// Scans of one plant or plot, oldest first.
+export const listDiagnosesByTag = async (tag: string): Promise<DiagnosisRecord[]> => {
+  const records = (await getAllByIndex<DiagnosisRecord>(STORES.diagnoses, 'tag', tag)).filter(isOwnRecord);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Tags in use, for suggestions and filters.
+export const listTags = (records: DiagnosisRecord[]): string[] =>
+  Array.from(new Set(records.map(record => record.tag).filter((tag): tag is string => !!tag))).sort((a, b) => a.localeCompare(b));
+
+export const deleteDiagnosis = async (id: string): Promise<void> => {
+  const record = await getOne<DiagnosisRecord>(STORES.diagnoses, id);
+  await remove(STORES.diagnoses, id);
+  await deleteChatSession(id);
+  if (record) await deleteRemoteDiagnosis(record);
+};
@@ -0,0 +1,120 @@
+// Reproduces the backend's load_and_prep_image in the browser: decode, RGB, resize to 224x224 with Pillow's
+// default (bicubic) resampling, no scaling. The resampler follows Pillow's Resample.c, including its
+// fixed-point arithmetic and rounding, so the same image gives the same uint8 pixels on both sides.
+
+export const MODEL_INPUT_SIZE = 224;
+
+const PRECISION_BITS = 32 - 8 - 2;
+const FIXED_ONE = 2 ** PRECISION_BITS;
+const BICUBIC_SUPPORT = 2;
+const BICUBIC_A = -0.5;
+
+const bicubic = (value: number): number => {
+  const x = Math.abs(value);
+  if (x < 1) return ((BICUBIC_A + 2) * x - (BICUBIC_A + 3)) * x * x + 1;
+  if (x < 2) return (((x - 5) * x + 8) * x - 4) * BICUBIC_A;
+  return 0;
+};
+
+interface Coefficients {
+  // First input index and fixed-point weights for each output index.
+  bounds: Int32Array;
+  weights: number[][];
+}
+
+// Pillow's precompute_coeffs + normalize_coeffs_8bpc for one axis.
+const computeCoefficients = (inSize: number, outSize: number): Coefficients => {
+  const scale = inSize / outSize;
+  const filterScale = Math.max(scale, 1);
+  const support = BICUBIC_SUPPORT * filterScale;
+  const inverseScale = 1 / filterScale;
+  const bounds = new Int32Array(outSize);
+  const weights: number[][] = [];
+
+  for (let xx = 0; xx < outSize; xx++) {
+    const center = (xx + 0.5) * scale;
+    const xmin = Math.max(Math.trunc(center - support + 0.5), 0);
+    const xmax = Math.min(Math.trunc(center + support + 0.5), inSize) - xmin;
+    const k: number[] = [];
+    let total = 0;
+    for (let x = 0; x < xmax; x++) {
+      const w = bicubic((x + xmin - center + 0.5) * inverseScale);
+      k.push(w);
+      total += w;
+    }
+    bounds[xx] = xmin;
+    weights.push(k.map(w => {
+      const normalized = total !== 0 ? w / total : w;
+      return Math.trunc(normalized < 0 ? -0.5 + normalized * FIXED_ONE : 0.5 + normalized * FIXED_ONE);
+    }));
+  }
+  return { bounds, weights };
+};
+
+const clip8 = (sum: number): number => Math.min(255, Math.max(0, Math.floor(sum / FIXED_ONE)));
+
+// One resampling pass over RGB data; `horizontal` picks the axis.
+const resamplePass = (
+  input: Uint8ClampedArray, inWidth: number, inHeight: number, outWidth: number, outHeight: number, horizontal: boolean,
+): Uint8ClampedArray => {
+  const output = new Uint8ClampedArray(outWidth * outHeight * 3);
+  const { bounds, weights } = horizontal ? computeCoefficients(inWidth, outWidth) : computeCoefficients(inHeight, outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const k = weights[horizontal ? x : y];
+      const start = bounds[horizontal ? x : y];
+      for (let c = 0; c < 3; c++) {
+        let sum = FIXED_ONE / 2;
+        for (let i = 0; i < k.length; i++) {
+          const index = horizontal ? (y * inWidth + start + i) * 3 + c : ((start + i) * inWidth + x) * 3 + c;
+          sum += input[index] * k[i];
+        }
+        output[(y * outWidth + x) * 3 + c] = clip8(sum);
+      }
+    }
+  }
+  return output;
+};
+
+// Pillow resizes horizontally first, then vertically, skipping a pass when that axis already has the target size.
+export const resizeBicubic = (rgb: Uint8ClampedArray, width: number, height: number, size: number = MODEL_INPUT_SIZE): Uint8ClampedArray => {
+  let pixels = rgb;
+  let currentWidth = width;
+  if (width !== size) {
+    pixels = resamplePass(pixels, width, height, size, height, true);
+    currentWidth = size;
+  }
+  if (height !== size) {
+    pixels = resamplePass(pixels, currentWidth, height, size, size, false);
+  }
+  return pixels;
+};
+
+// Decodes the file without applying EXIF rotation or colour profiles, which Pillow does not apply either.
+const decodeRgb = async (source: Blob): Promise<{ rgb: Uint8ClampedArray; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'none', colorSpaceConversion: 'none', premultiplyAlpha: 'none' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    bitmap.close();
+    throw new Error('Could not create canvas context for preprocessing.');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const rgb = new Uint8ClampedArray(width * height * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    rgb[j] = data[i];
+    rgb[j + 1] = data[i + 1];
+    rgb[j + 2] = data[i + 2];
+  }
+  return { rgb, width, height };
+};
+
+// The 224x224 RGB pixels the models see, row-major, as uint8 (the backend feeds them as unscaled float32).
+export const prepareModelInput = async (source: Blob): Promise<Uint8ClampedArray> => {
+  const { rgb, width, height } = await decodeRgb(source);
+  return resizeBicubic(rgb, width, height);
+};
@@ -0,0 +1,98 @@
+import { ImageQualityIssue, ImageQualityReport } from '../types';
+
+// Images are analysed at this size; enough detail for blur and colour checks without blocking the UI.
+const ANALYSIS_SIZE = 256;
+const MODEL_INPUT_SIZE = 224; // the disease model's input; smaller images are upscaled and lose detail
+const BLUR_VARIANCE_MIN = 80; // variance of the Laplacian below which edges are too soft
+const BRIGHTNESS_MIN = 60; // mean luma, 0-255
+const BRIGHTNESS_MAX = 200;
+const CLIPPED_FRACTION_MAX = 0.25; // share of blown-out pixels that hides lesions even at normal mean brightness
+const LEAF_COVERAGE_MIN = 0.25;
+
+const loadImage = (source: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(source);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not load image for quality check.'));
+    };
+    img.src = url;
+  });
+
+// Yellow-to-green hues with some saturation count as leaf, so yellowing and spotted leaves are not penalised.
+const isLeafPixel = (r: number, g: number, b: number): boolean => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (max < 40 || delta / max < 0.15) return false;
+  let hue: number;
+  if (max === r) hue = 60 * (((g - b) / delta) % 6);
+  else if (max === g) hue = 60 * ((b - r) / delta + 2);
+  else hue = 60 * ((r - g) / delta + 4);
+  if (hue < 0) hue += 360;
+  return hue >= 20 && hue <= 170;
+};
+
+// Checks sharpness, exposure, how much of the frame is leaf, and resolution before the image is uploaded.
+export const analyzeImageQuality = async (source: Blob): Promise<ImageQualityReport> => {
+  const img = await loadImage(source);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create canvas context for quality check.');
+  }
+  context.drawImage(img, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const luma = new Float32Array(width * height);
+  let lumaSum = 0;
+  let clipped = 0;
+  let leaf = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    luma[i] = y;
+    lumaSum += y;
+    if (y >= 250) clipped++;
+    if (isLeafPixel(r, g, b)) leaf++;
+  }
+
+  // 4-neighbour Laplacian over the interior pixels.
+  let lapSum = 0;
+  let lapSquares = 0;
+  let lapCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      lapSum += lap;
+      lapSquares += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapMean = lapCount > 0 ? lapSum / lapCount : 0;
+  const sharpness = lapCount > 0 ? lapSquares / lapCount - lapMean * lapMean : 0;
+  const brightness = lumaSum / luma.length;
+  const leafCoverage = leaf / luma.length;
+
+  const issues: ImageQualityIssue[] = [];
+  if (Math.min(img.width, img.height) < MODEL_INPUT_SIZE) issues.push('lowResolution');
+  if (sharpness < BLUR_VARIANCE_MIN) issues.push('blurry');
+  if (brightness < BRIGHTNESS_MIN) issues.push('tooDark');
+  else if (brightness > BRIGHTNESS_MAX || clipped / luma.length > CLIPPED_FRACTION_MAX) issues.push('tooBright');
+  if (leafCoverage < LEAF_COVERAGE_MIN) issues.push('lowCoverage');
+
+  return { issues, sharpness, brightness, leafCoverage, width: img.width, height: img.height };
+};
@@ -0,0 +1,262 @@
+import type { Tensor } from '@tensorflow/tfjs-core';
+import type { TFLiteModel } from '@tensorflow/tfjs-tflite';
+import { AlternativeDiagnosis, DiseaseDetectionResult, InferenceParityReport, Language, OnDeviceModelStatus } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
+import { getApiBaseUrl } from './apiConfig';
+import { ApiConnectionError, ApiError, readApiError } from './apiClient';
+import { STORES, getOne, put } from './db';
+import { fetchTreatment } from './geminiService';
+import { MODEL_INPUT_SIZE, prepareModelInput } from './imagePreprocessing';
+
+// Runs the backend's TFLite models in the browser, so leaves can be diagnosed without a connection.
+// The models, class names and class catalog are downloaded from the backend once and kept in IndexedDB; the TFLite
+// WASM runtime is bundled with the app (see vite.config.ts) and cached by the service worker.
+
+const ON_DEVICE_KEY = 'agrolens.onDeviceInference';
+
+const MODEL_FILES = {
+  gatekeeper: 'GateKeeper_for_plant.tflite',
+  disease: 'Crop_Disease_Detector.tflite',
+  classNames: 'class_names.json',
+  classCatalog: 'class_catalog.json',
+} as const;
+
+// Same default as the backend's top_k.
+const TOP_K = 3;
+
+type TfCore = typeof import('@tensorflow/tfjs-core');
+type TfLite = typeof import('@tensorflow/tfjs-tflite');
+
+// The part of the backend's class_catalog.json used on the device.
+export interface ClassCatalog {
+  classes: Record<string, { crop: string; disease: string }>;
+}
+
+interface StoredModelFile {
+  name: string;
+  data: ArrayBuffer;
+  downloadedAt: number;
+}
+
+interface LoadedModels {
+  tf: TfCore;
+  gatekeeper: TFLiteModel;
+  disease: TFLiteModel;
+  classNames: Record<string, string>;
+  catalog: ClassCatalog;
+}
+
+interface ModelOutputs {
+  plantProbability: number;
+  probabilities: number[];
+}
+
+export interface RankedPredictions {
+  predicted: AlternativeDiagnosis;
+  alternatives: AlternativeDiagnosis[];
+  // Top class over all crops, when a crop hint changed the prediction.
+  unconstrainedPrediction?: AlternativeDiagnosis;
+}
+
+let runtimePromise: Promise<{ tf: TfCore; tflite: TfLite }> | null = null;
+let modelsPromise: Promise<LoadedModels> | null = null;
+
+export const isOnDeviceInferenceEnabled = (): boolean => localStorage.getItem(ON_DEVICE_KEY) === 'true';
+
+export const setOnDeviceInferenceEnabled = (enabled: boolean) => {
+  if (enabled) {
+    localStorage.setItem(ON_DEVICE_KEY, 'true');
+  } else {
+    localStorage.removeItem(ON_DEVICE_KEY);
+  }
+};
+
+export const getModelStatus = async (): Promise<OnDeviceModelStatus> => {
+  const files = await Promise.all(Object.values(MODEL_FILES).map(name => getOne<StoredModelFile>(STORES.models, name)));
+  if (files.some(file => !file)) return { downloaded: false };
+  return { downloaded: true, downloadedAt: Math.min(...files.map(file => file!.downloadedAt)) };
+};
+
+// Downloads (or updates) the models from the configured backend.
+export const downloadModels = async (): Promise<OnDeviceModelStatus> => {
+  const apiBaseUrl = getApiBaseUrl();
+  const files = await Promise.all(Object.values(MODEL_FILES).map(async name => {
+    const response = await fetch(`${apiBaseUrl}/models/${name}`);
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+    return { name, data: await response.arrayBuffer() };
+  }));
+  const downloadedAt = Date.now();
+  await Promise.all(files.map(file => put<StoredModelFile>(STORES.models, { ...file, downloadedAt })));
+  modelsPromise = null;
+  // Loads the runtime too, so the service worker has it cached before the device goes offline.
+  await loadModels();
+  return { downloaded: true, downloadedAt };
+};
+
+const loadRuntime = () => {
+  if (!runtimePromise) {
+    runtimePromise = (async () => {
+      // Imported on demand, so only users of on-device diagnosis download the runtime.
+      const [tf, tflite] = await Promise.all([
+        import('@tensorflow/tfjs-core'),
+        import('@tensorflow/tfjs-tflite'),
+        import('@tensorflow/tfjs-backend-cpu'),
+      ]);
+      tflite.setWasmPath(__TFLITE_WASM_PATH__);
+      return { tf, tflite };
+    })();
+    runtimePromise.catch(() => { runtimePromise = null; });
+  }
+  return runtimePromise;
+};
+
+const loadModels = () => {
+  if (!modelsPromise) {
+    modelsPromise = (async () => {
+      const { tf, tflite } = await loadRuntime();
+      const [gatekeeperFile, diseaseFile, classNamesFile, catalogFile] = await Promise.all(
+        [MODEL_FILES.gatekeeper, MODEL_FILES.disease, MODEL_FILES.classNames, MODEL_FILES.classCatalog]
+          .map(name => getOne<StoredModelFile>(STORES.models, name))
+      );
+      if (!gatekeeperFile || !diseaseFile || !classNamesFile || !catalogFile) throw new Error('The on-device models have not been downloaded.');
+      const [gatekeeper, disease] = await Promise.all([
+        tflite.loadTFLiteModel(gatekeeperFile.data),
+        tflite.loadTFLiteModel(diseaseFile.data),
+      ]);
+      const parse = (file: StoredModelFile) => JSON.parse(new TextDecoder().decode(file.data));
+      return { tf, gatekeeper, disease, classNames: parse(classNamesFile), catalog: parse(catalogFile) };
+    })();
+    modelsPromise.catch(() => { modelsPromise = null; });
+  }
+  return modelsPromise;
+};
+
+// Feeds the unscaled pixels as float32, like the backend.
+const runModels = async ({ tf, gatekeeper, disease }: LoadedModels, pixels: Uint8ClampedArray): Promise<ModelOutputs> => {
+  const input = tf.tensor(Float32Array.from(pixels), [1, MODEL_INPUT_SIZE, MODEL_INPUT_SIZE, 3], 'float32');
+  try {
+    const plantOutput = gatekeeper.predict(input) as Tensor;
+    const diseaseOutput = disease.predict(input) as Tensor;
+    const [plant, probabilities] = await Promise.all([plantOutput.data(), diseaseOutput.data()]);
+    plantOutput.dispose();
+    diseaseOutput.dispose();
+    return { plantProbability: plant[0], probabilities: Array.from(probabilities) };
+  } finally {
+    input.dispose();
+  }
+};
+
+// Mirrors rank_predictions on the backend: optional crop limit, confidences renormalized over that crop's classes,
+// highest first.
+export const rankPredictions = (
+  probabilities: number[],
+  classNames: Record<string, string>,
+  crop?: string,
+): RankedPredictions => {
+  const label = (index: number) => classNames[String(index)];
+  let candidates = probabilities.map((_, index) => index);
+  if (crop) {
+    candidates = candidates.filter(index => label(index).split('___')[0] === crop);
+    if (candidates.length === 0) throw new ApiError('INVALID_REQUEST', 400, `Unknown crop: ${crop}`);
+  }
+  const total = Math.max(candidates.reduce((sum, index) => sum + probabilities[index], 0), 1e-12);
+  const ranked = [...candidates]
+    .sort((a, b) => probabilities[b] - probabilities[a])
+    .map(index => ({ diseaseName: label(index), confidence: (probabilities[index] / total) * 100 }));
+
+  const overall = probabilities.indexOf(Math.max(...probabilities));
+  return {
+    predicted: ranked[0],
+    alternatives: ranked.slice(0, TOP_K),
+    unconstrainedPrediction: crop && label(overall) !== ranked[0].diseaseName
+      ? { diseaseName: label(overall), confidence: probabilities[overall] * 100 }
+      : undefined,
+  };
+};
+
+// Same rule as describe_class on the backend, including the fallback for classes missing from the catalog.
+export const isHealthyClass = (label: string, catalog: ClassCatalog): boolean => {
+  const diseaseId = catalog.classes[label]?.disease
+    ?? (label.split('___')[1] ?? '').toLowerCase().replace(/[\W_]+/g, '_').replace(/^_+|_+$/g, '');
+  return diseaseId === 'healthy';
+};
+
+// Mirrors /detect_disease: gatekeeper check, then the ranking above. Errors use the backend's codes so they get
+// the same messages.
+export const classifyOnDevice = async (file: Blob, crop?: string): Promise<DiseaseDetectionResult> => {
+  const models = await loadModels();
+  const { plantProbability, probabilities } = await runModels(models, await prepareModelInput(file));
+
+  // The backend rejects when int(round(p)) == 0; Python rounds 0.5 down.
+  if (plantProbability <= 0.5) {
+    throw new ApiError('NO_LEAF_DETECTED', 400, 'No valid plant leaf detected (on-device).');
+  }
+
+  const { predicted, alternatives, unconstrainedPrediction } = rankPredictions(probabilities, models.classNames, crop);
+  return {
+    diseaseName: predicted.diseaseName,
+    confidence: predicted.confidence,
+    alternatives,
+    medicines: [],
+    precautions: [],
+    causes: [],
+    summary: '',
+    disclaimer: '',
+    isHealthy: isHealthyClass(predicted.diseaseName, models.catalog),
+    isCropDetected: true,
+    isUncertain: predicted.confidence < LOW_CONFIDENCE_THRESHOLD,
+    cropHint: crop,
+    unconstrainedPrediction,
+    treatmentPending: true,
+  };
+};
+
+// Classifies on the device, then adds the treatment if the backend is reachable. Offline, the result is returned
+// with `treatmentPending` set and the treatment is filled in later by syncPendingTreatments.
+export const diagnoseOnDevice = async (
+  file: Blob,
+  language: Language,
+  t: Record<string, string>,
+  crop?: string,
+): Promise<DiseaseDetectionResult> => {
+  const result = await classifyOnDevice(file, crop);
+  if (!navigator.onLine) return result;
+  try {
+    return await fetchTreatment(result, language, t);
+  } catch (err) {
+    if (err instanceof ApiConnectionError) return result;
+    throw err;
+  }
+};
+
+const sha256Hex = async (data: Uint8ClampedArray): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Runs one image through both the on-device models and the backend's /debug/inference (which needs
+// ENABLE_DEBUG_ENDPOINTS=true on the server) and reports where they differ.
+export const checkInferenceParity = async (file: File): Promise<InferenceParityReport> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch(`${getApiBaseUrl()}/debug/inference`, { method: 'POST', body: formData });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  const server: { input_sha256: string; plant_probability: number; probabilities: number[] } = await response.json();
+
+  const models = await loadModels();
+  const pixels = await prepareModelInput(file);
+  const local = await runModels(models, pixels);
+  const top = (probabilities: number[]) => models.classNames[String(probabilities.indexOf(Math.max(...probabilities)))];
+
+  return {
+    inputMatches: await sha256Hex(pixels) === server.input_sha256,
+    plantProbabilityDiff: Math.abs(local.plantProbability - server.plant_probability),
+    maxProbabilityDiff: Math.max(...local.probabilities.map((p, i) => Math.abs(p - (server.probabilities[i] ?? 0)))),
+    localTopClass: top(local.probabilities),
+    serverTopClass: top(server.probabilities),
+  };
+};
@@ -0,0 +1,116 @@
+import { Language, OutboxItem, WeatherSnapshot } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { STORES, getAll, put, remove } from './db';
+import { detectDisease, fetchTreatment } from './geminiService';
+import { ApiError, getErrorMessage, isRetryableError } from './apiClient';
+import { getSignedInUserId } from './authService';
+import { createThumbnail, getCurrentLocation, listDiagnoses, saveDiagnosis, updateDiagnosis } from './historyService';
+
+let syncing = false;
+let syncingTreatments = false;
+
+// Like the history, only the signed-in account's queued scans; the others wait until their account signs in.
+export const listOutbox = async (): Promise<OutboxItem[]> => {
+  const items = (await getAll<OutboxItem>(STORES.outbox)).filter(item => item.ownerId === getSignedInUserId());
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const enqueueDetection = async (
+  image: File,
+  language: Language,
+  crop?: string,
+  weather?: WeatherSnapshot
+): Promise<OutboxItem> => {
+  const [thumbnail, location] = await Promise.all([createThumbnail(image), getCurrentLocation()]);
+  const item: OutboxItem = {
+    id: crypto.randomUUID(),
+    image,
+    thumbnail,
+    language,
+    createdAt: Date.now(),
+    location,
+    crop,
+    weather,
+    status: 'pending',
+    ownerId: getSignedInUserId(),
+  };
+  await put(STORES.outbox, item);
+  return item;
+};
+
+export const removeFromOutbox = (id: string): Promise<void> => remove(STORES.outbox, id);
+
+const sendItem = async (item: OutboxItem) => {
+  const result = await detectDisease(item.image, item.language, TRANSLATIONS[item.language], item.crop);
+  await saveDiagnosis(item.image, result, item.language, {
+    createdAt: item.createdAt,
+    location: item.location,
+    thumbnail: item.thumbnail,
+    ownerId: item.ownerId,
+    weather: item.weather,
+  });
+  await removeFromOutbox(item.id);
+};
+
+// Sends every pending detection, oldest first. Stops at the first connection failure or retryable server error
+// (see isRetryableError) so items stay queued for the next attempt. Only an error that will never succeed, such as
+// NO_LEAF_DETECTED, marks the item as failed; anything unexpected leaves it pending for the next sync.
+// Resolves with the number of items that changed state.
+export const syncOutbox = async (): Promise<number> => {
+  if (syncing || !navigator.onLine) return 0;
+  syncing = true;
+  let changed = 0;
+  try {
+    const pending = (await listOutbox()).filter(item => item.status === 'pending').reverse();
+    for (const item of pending) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await sendItem(item);
+        changed += 1;
+      } catch (err) {
+        if (isRetryableError(err)) break;
+        if (!(err instanceof ApiError)) {
+          console.error('Could not send offline detection', item.id, err);
+          continue;
+        }
+        const message = getErrorMessage(err, TRANSLATIONS[item.language]);
+        // eslint-disable-next-line no-await-in-loop
+        await put(STORES.outbox, { ...item, status: 'failed', error: message });
+        changed += 1;
+      }
+    }
+  } catch (err) {
+    console.error('Could not sync offline detections:', err);
+  } finally {
+    syncing = false;
+  }
+  return changed;
+};
+
+// Fetches the treatment for diagnoses made on the device while offline. Like syncOutbox, stops at the first
+// connection failure or retryable server error and resolves with the number of history entries that were updated.
+export const syncPendingTreatments = async (): Promise<number> => {
+  if (syncingTreatments || !navigator.onLine) return 0;
+  syncingTreatments = true;
+  let changed = 0;
+  try {
+    const pending = (await listDiagnoses()).filter(record => record.result.treatmentPending);
+    for (const record of pending) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const result = await fetchTreatment(record.result, record.language, TRANSLATIONS[record.language]);
+        // eslint-disable-next-line no-await-in-loop
+        await updateDiagnosis({ ...record, result });
+        changed += 1;
+      } catch (err) {
+        if (isRetryableError(err)) break;
+        console.error('Could not fetch treatment for diagnosis', record.id, err);
+      }
+    }
+  } catch (err) {
+    console.error('Could not sync pending treatments:', err);
+  } finally {
+    syncingTreatments = false;
+  }
+  return changed;
+};
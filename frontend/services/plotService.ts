@@ -0,0 +1,36 @@
+import { FarmPlot, GeoLocation } from '../types';
+import { STORES, getAll, put, remove } from './db';
+
+// The plot whose weather is shown; unset means the device's current position.
+const ACTIVE_PLOT_KEY = 'agrolens.activePlot';
+
+export const listPlots = async (): Promise<FarmPlot[]> => {
+  const plots = await getAll<FarmPlot>(STORES.plots);
+  return plots.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createPlot = async (name: string, location: GeoLocation, crops: string[]): Promise<FarmPlot> => {
+  const plot: FarmPlot = {
+    id: crypto.randomUUID(),
+    name,
+    location,
+    crops,
+    createdAt: Date.now(),
+  };
+  await put(STORES.plots, plot);
+  return plot;
+};
+
+export const updatePlot = (plot: FarmPlot): Promise<void> => put(STORES.plots, plot);
+
+export const deletePlot = (id: string): Promise<void> => remove(STORES.plots, id);
+
+export const getActivePlotId = (): string | null => localStorage.getItem(ACTIVE_PLOT_KEY);
+
+export const setActivePlotId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_PLOT_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PLOT_KEY);
+  }
+};
@@ -0,0 +1,34 @@
+import { DiagnosisRecord, ProgressionTrend } from '../types';
+
+// Change in affected leaf area, in percentage points, below which two scans count as the same.
+const SEVERITY_CHANGE_THRESHOLD = 5;
+
+export interface ProgressionAssessment {
+  trend: ProgressionTrend;
+  // Latest minus earliest affected area of the latest scan's disease, in percentage points, when both scans have a
+  // severity estimate.
+  severityChange?: number;
+}
+
+// Assesses the scans of a tag (oldest first). A healthy latest scan after a diseased one counts as resolved, and a
+// diseased one after a healthy start as worsening. Otherwise severity drives the trend, compared against the earliest
+// scan of the same disease: the affected area of a different disease says nothing about whether the treatment works.
+// Scans without a severity estimate cannot show improvement.
+export const assessProgression = (scans: DiagnosisRecord[]): ProgressionAssessment => {
+  if (scans.length < 2) return { trend: 'insufficient' };
+  const first = scans[0].result;
+  const latest = scans[scans.length - 1].result;
+
+  if (latest.isHealthy) {
+    return { trend: first.isHealthy ? 'stable' : 'resolved' };
+  }
+  if (first.isHealthy) return { trend: 'worsening' };
+
+  const baseline = scans.slice(0, -1).find(scan => scan.result.diseaseName === latest.diseaseName)?.result;
+  if (!baseline?.severity || !latest.severity) return { trend: 'insufficient' };
+
+  const severityChange = latest.severity.affectedPercent - baseline.severity.affectedPercent;
+  if (severityChange <= -SEVERITY_CHANGE_THRESHOLD) return { trend: 'improving', severityChange };
+  if (severityChange >= SEVERITY_CHANGE_THRESHOLD) return { trend: 'worsening', severityChange };
+  return { trend: 'stable', severityChange };
+};
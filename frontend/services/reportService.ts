@@ -0,0 +1,114 @@
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import DiagnosisReport, { DiagnosisReportProps } from '../components/DiagnosisReport';
+
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+const PAGE_MARGIN_MM = 10;
+const REPORT_BLOCK_SELECTOR = '[data-report-block]';
+
+// Position of a `data-report-block` element in the rendered report, in CSS pixels from the report's top-left.
+export interface ReportBlock {
+  top: number;
+  bottom: number;
+  left: number;
+  width: number;
+  isHeading: boolean;
+  text: string;
+}
+
+// Where each page starts, in CSS pixels. Pages only break between blocks, and a section heading moves to the next
+// page with the block that follows it. A single block taller than a page is the only thing that gets cut.
+export const paginateReport = (blocks: ReportBlock[], totalHeight: number, pageHeight: number): number[] => {
+  const starts = [0];
+  let start = 0;
+  while (totalHeight - start > pageHeight) {
+    const limit = start + pageHeight;
+    const index = blocks.findIndex(block => block.top > start && block.top < limit && block.bottom > limit);
+    let next = index === -1 ? limit : blocks[index].top;
+    const previous = index > 0 ? blocks[index - 1] : undefined;
+    if (previous?.isHeading && previous.top > start) next = previous.top;
+    starts.push(next);
+    start = next;
+  }
+  return starts;
+};
+
+const measureBlocks = (report: HTMLElement): ReportBlock[] => {
+  const origin = report.getBoundingClientRect();
+  return Array.from(report.querySelectorAll<HTMLElement>(REPORT_BLOCK_SELECTOR)).map(element => {
+    const rect = element.getBoundingClientRect();
+    return {
+      top: rect.top - origin.top,
+      bottom: rect.bottom - origin.top,
+      left: rect.left - origin.left,
+      width: rect.width,
+      isHeading: element.dataset.reportBlock === 'heading',
+      text: (element.innerText || '').replace(/\s+/g, ' ').trim(),
+    };
+  });
+};
+
+// jsPDF's built-in fonts only cover Latin-1 and cannot shape Indic scripts, so only such blocks get a text layer.
+// eslint-disable-next-line no-control-regex
+const isLatin1 = (text: string) => /^[\x00-\xFF]*$/.test(text);
+
+const waitForImages = (container: HTMLElement) =>
+  Promise.all(Array.from(container.querySelectorAll('img')).map(img =>
+    img.complete ? Promise.resolve() : new Promise<void>(resolve => { img.onload = img.onerror = () => resolve(); })
+  ));
+
+// Renders the report off-screen and rasterizes it into an A4 PDF. Text is drawn by the browser rather than by
+// the PDF library, so Telugu, Tamil and Hindi get correct glyph shaping without embedding fonts in the PDF.
+// Latin-script text is also laid over the image as invisible text, so it can be selected and searched.
+export const downloadDiagnosisReport = async (props: DiagnosisReportProps): Promise<void> => {
+  // Loaded on demand: both libraries are large and only needed when a report is requested.
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import('jspdf'), import('html2canvas')]);
+
+  const container = document.createElement('div');
+  container.style.position = 'fixed';
+  container.style.left = '-10000px';
+  container.style.top = '0';
+  document.body.appendChild(container);
+  const root = createRoot(container);
+
+  try {
+    flushSync(() => root.render(React.createElement(DiagnosisReport, props)));
+    await document.fonts.ready;
+    await waitForImages(container);
+
+    const report = container.firstElementChild as HTMLElement;
+    const blocks = measureBlocks(report);
+    const canvas = await html2canvas(report, { scale: 2, backgroundColor: '#ffffff' });
+    const mmPerPx = A4_WIDTH_MM / report.offsetWidth;
+    const canvasScale = canvas.width / report.offsetWidth;
+    const pageHeight = (A4_HEIGHT_MM - 2 * PAGE_MARGIN_MM) / mmPerPx;
+    const starts = paginateReport(blocks, report.offsetHeight, pageHeight);
+
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    starts.forEach((start, page) => {
+      const end = page + 1 < starts.length ? starts[page + 1] : report.offsetHeight;
+      const slice = document.createElement('canvas');
+      slice.width = canvas.width;
+      slice.height = Math.max(1, Math.round((end - start) * canvasScale));
+      slice.getContext('2d')?.drawImage(canvas, 0, -Math.round(start * canvasScale));
+
+      if (page > 0) pdf.addPage();
+      pdf.addImage(slice.toDataURL('image/jpeg', 0.92), 'JPEG', 0, PAGE_MARGIN_MM, A4_WIDTH_MM, (end - start) * mmPerPx);
+      pdf.setFontSize(10);
+      blocks
+        .filter(block => block.top >= start && block.top < end && block.text && isLatin1(block.text))
+        .forEach(block => {
+          const y = PAGE_MARGIN_MM + (block.top - start) * mmPerPx;
+          pdf.text(block.text, block.left * mmPerPx, y, { baseline: 'top', maxWidth: block.width * mmPerPx, renderingMode: 'invisible' });
+        });
+    });
+
+    const date = new Date(props.createdAt).toISOString().split('T')[0];
+    pdf.save(`agrolens-report-${date}.pdf`);
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+};
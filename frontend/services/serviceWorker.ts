@@ -0,0 +1,23 @@
+import { getApiBaseUrl } from './apiConfig';
+
+// Tells the worker which backend is in use so it never caches its responses. Call again when the URL changes.
+export const notifyServiceWorkerOfApiBaseUrl = () => {
+  navigator.serviceWorker?.controller?.postMessage({ type: 'API_BASE_URL', apiBaseUrl: getApiBaseUrl() });
+};
+
+// Registers the service worker in production builds only; the Vite dev server serves modules the worker would wrongly cache.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      await navigator.serviceWorker.register('/sw.js');
+      const registration = await navigator.serviceWorker.ready;
+      // Hand over everything loaded before the worker was in control so the first visit also works offline.
+      const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+      registration.active?.postMessage({ type: 'CACHE_URLS', urls: [window.location.href, ...urls], apiBaseUrl: getApiBaseUrl() });
+    } catch (err) {
+      console.error('Service worker registration failed:', err);
+    }
+  });
+};
@@ -0,0 +1,83 @@
+import { HourlyWeather, SprayRating, SprayReason, SprayWindow, WeatherInfo } from '../types';
+
+// Thresholds follow common label guidance for foliar fungicide and pesticide application.
+const RAIN_POP_LIMIT = 0.4; // probability above which a slot counts as rainy
+const RAIN_MM_LIMIT = 0.2;
+const RAINFAST_HOURS = 6; // product needs this long on a dry leaf before rain
+const WIND_CALM_KMH = 3; // below this, drift from temperature inversions is likely
+const WIND_MAX_KMH = 15;
+const WIND_POOR_KMH = 20;
+const GUST_POOR_KMH = 25;
+const TEMP_HIGH_C = 27;
+const TEMP_POOR_C = 32;
+const TEMP_LOW_C = 5;
+const HUMIDITY_LOW = 40;
+const HUMIDITY_HIGH = 95;
+const DAY_START_HOUR = 6;
+const DAY_END_HOUR = 19;
+
+const isRainy = (slot: HourlyWeather) => slot.pop >= RAIN_POP_LIMIT || slot.rain >= RAIN_MM_LIMIT;
+
+const worse = (a: SprayRating, b: SprayRating): SprayRating => {
+  const order: SprayRating[] = ['good', 'marginal', 'poor'];
+  return order[Math.max(order.indexOf(a), order.indexOf(b))];
+};
+
+// Rates a single 3-hour slot, looking ahead in `upcoming` for rain within the rainfast period.
+export const rateSpraySlot = (slot: HourlyWeather, upcoming: HourlyWeather[]): { rating: SprayRating; reasons: SprayReason[] } => {
+  const hour = new Date(slot.time).getHours();
+  if (hour < DAY_START_HOUR || hour > DAY_END_HOUR) {
+    return { rating: 'poor', reasons: ['night'] };
+  }
+
+  let rating: SprayRating = 'good';
+  const reasons: SprayReason[] = [];
+  const flag = (reason: SprayReason, level: SprayRating) => {
+    reasons.push(reason);
+    rating = worse(rating, level);
+  };
+
+  if (isRainy(slot)) {
+    flag('raining', 'poor');
+  } else if (upcoming.some(next => next.time - slot.time <= RAINFAST_HOURS * 3600 * 1000 && isRainy(next))) {
+    flag('rainSoon', 'poor');
+  }
+
+  if (slot.windSpeed > WIND_POOR_KMH || slot.windGust > GUST_POOR_KMH) flag('windTooStrong', 'poor');
+  else if (slot.windSpeed > WIND_MAX_KMH) flag('windTooStrong', 'marginal');
+  else if (slot.windSpeed < WIND_CALM_KMH) flag('windTooCalm', 'marginal');
+
+  if (slot.temp > TEMP_POOR_C) flag('tooHot', 'poor');
+  else if (slot.temp > TEMP_HIGH_C) flag('tooHot', 'marginal');
+  else if (slot.temp < TEMP_LOW_C) flag('tooCold', 'marginal');
+
+  if (slot.humidity < HUMIDITY_LOW) flag('lowHumidity', 'marginal');
+  else if (slot.humidity > HUMIDITY_HIGH) flag('highHumidity', 'marginal');
+
+  return { rating, reasons };
+};
+
+// Rates every forecast slot and merges consecutive slots with the same rating into windows.
+export const getSprayWindows = (forecast: WeatherInfo[]): SprayWindow[] => {
+  const slots = forecast.flatMap(day => day.hourly).filter(slot => slot.time + 3 * 3600 * 1000 > Date.now());
+  const windows: SprayWindow[] = [];
+
+  slots.forEach((slot, i) => {
+    const { rating, reasons } = rateSpraySlot(slot, slots.slice(i + 1));
+    const end = slot.time + 3 * 3600 * 1000;
+    const last = windows[windows.length - 1];
+    const mergeable = last
+      && last.rating === rating
+      && last.end === slot.time
+      && last.reasons.includes('night') === reasons.includes('night')
+      && new Date(last.start).getDate() === new Date(slot.time).getDate();
+    if (last && mergeable) {
+      last.end = end;
+      reasons.forEach(r => { if (!last.reasons.includes(r)) last.reasons.push(r); });
+    } else {
+      windows.push({ start: slot.time, end, rating, reasons: [...reasons] });
+    }
+  });
+
+  return windows;
+};
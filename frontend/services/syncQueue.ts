@@ -0,0 +1,31 @@
+// Changes that could not reach the backend yet, remembered on this device so the next sync can retry them.
+// Each change belongs to the account that made it and is only retried while that account is signed in.
+interface PendingChange {
+  id: string;
+  ownerId?: string;
+}
+
+const read = (key: string): PendingChange[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const write = (key: string, changes: PendingChange[]) => {
+  if (changes.length) {
+    localStorage.setItem(key, JSON.stringify(changes));
+  } else {
+    localStorage.removeItem(key);
+  }
+};
+
+export const listPending = (key: string, ownerId: string | undefined): string[] =>
+  read(key).filter(change => change.ownerId === ownerId).map(change => change.id);
+
+export const addPending = (key: string, id: string, ownerId: string | undefined) =>
+  write(key, [...read(key).filter(change => change.id !== id), { id, ownerId }]);
+
+export const removePending = (key: string, id: string) =>
+  write(key, read(key).filter(change => change.id !== id));
@@ -0,0 +1,100 @@
+import { HourlyWeather, Language, Place, WeatherInfo } from '../types';
+import { getApiBaseUrl } from './apiConfig';
+import { ApiSchema, readApiError } from './apiClient';
+
+// OpenWeather's free forecast covers 5 days; a sixth, partial day at the end is dropped.
+const FORECAST_DAYS = 5;
+
+// Response of the backend's GET /weather. Units are already metric and km/h; times are Unix seconds.
+type BackendHourlyForecast = ApiSchema<'HourlyForecast'>;
+type BackendWeatherForecast = ApiSchema<'WeatherForecast'>;
+
+const toHourly = (item: BackendHourlyForecast): HourlyWeather => ({
+  time: item.time * 1000,
+  temp: item.temp,
+  humidity: item.humidity,
+  rain: item.rain,
+  pop: item.pop,
+  windSpeed: item.wind_speed,
+  windGust: item.wind_gust,
+  condition: item.condition,
+  icon: item.icon,
+});
+
+const localDateKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Groups 3-hour slots into local calendar days with daily aggregates.
+export const groupForecastByDay = (hourly: HourlyWeather[], language: Language, t: Record<string, string>): WeatherInfo[] => {
+  const byDay = new Map<string, HourlyWeather[]>();
+  hourly.forEach(slot => {
+    const key = localDateKey(slot.time);
+    byDay.set(key, [...(byDay.get(key) || []), slot]);
+  });
+
+  const todayKey = localDateKey(Date.now());
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const tomorrowKey = localDateKey(tomorrow.getTime());
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, slots]): WeatherInfo => {
+      // Use the slot nearest to midday as the day's representative temperature and condition.
+      const midday = slots.reduce((best, slot) =>
+        Math.abs(new Date(slot.time).getHours() - 12) < Math.abs(new Date(best.time).getHours() - 12) ? slot : best
+      );
+      const day = date === todayKey
+        ? t.today
+        : date === tomorrowKey
+          ? t.tomorrow
+          : new Intl.DateTimeFormat(language, { weekday: 'long' }).format(new Date(slots[0].time));
+
+      return {
+        day,
+        date,
+        temp: Math.round(midday.temp),
+        tempMin: Math.round(Math.min(...slots.map(s => s.temp))),
+        tempMax: Math.round(Math.max(...slots.map(s => s.temp))),
+        humidity: Math.round(slots.reduce((sum, s) => sum + s.humidity, 0) / slots.length),
+        rain: round1(slots.reduce((sum, s) => sum + s.rain, 0)),
+        pop: Math.max(...slots.map(s => s.pop)),
+        windSpeed: Math.round(Math.max(...slots.map(s => s.windSpeed))),
+        windGust: Math.round(Math.max(...slots.map(s => s.windGust))),
+        condition: midday.condition,
+        icon: midday.icon,
+        hourly: slots,
+      };
+    })
+    .slice(0, FORECAST_DAYS);
+};
+
+// OpenWeather describes the condition in the language the forecast was fetched in, or in English for languages it
+// does not support. The icon code names the same condition in any language, so it is translated instead when known.
+export const describeCondition = (weather: { condition: string; icon?: string }, t: Record<string, string>): string =>
+  (weather.icon && t[`weatherIcon_${weather.icon.slice(0, 2)}`]) || weather.condition;
+
+const throwForStatus = async (response: Response) => {
+  if (!response.ok) throw await readApiError(response);
+};
+
+// Fetches the 5-day / 3-hour forecast for a location through the backend's weather proxy.
+export const fetchHourlyForecast = async (latitude: number, longitude: number, language: Language): Promise<HourlyWeather[]> => {
+  const params = new URLSearchParams({ lat: String(latitude), lon: String(longitude), lang: language });
+  const response = await fetch(`${getApiBaseUrl()}/weather?${params}`);
+  await throwForStatus(response);
+  const data: BackendWeatherForecast = await response.json();
+  return data.hourly.map(toHourly);
+};
+
+// Looks up places by name through the backend's geocoding proxy.
+export const searchPlaces = async (query: string): Promise<Place[]> => {
+  const response = await fetch(`${getApiBaseUrl()}/geocode?${new URLSearchParams({ q: query })}`);
+  await throwForStatus(response);
+  const places: ApiSchema<'Place'>[] = await response.json();
+  return places.map(place => ({ ...place, state: place.state ?? null }));
+};
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage, signInAs } from './memoryStorage';
+import { STORES, getOne, resetDb } from './fakeDb';
+import { deleteChatSession, saveChatSession, syncChatSessions } from '../services/chatSessionService';
+
+vi.mock('../services/db', () => import('./fakeDb'));
+// Signed-out devices sync too, so the anonymous requests can be checked.
+vi.mock('../constants', async importOriginal => ({ ...await importOriginal<typeof import('../constants')>(), SYNC_CHAT_SESSIONS: true }));
+
+const session = { diagnosisId: 'diagnosis-1', messages: [{ role: 'user' as const, text: 'Is it spreading?' }], updatedAt: 1000 };
+
+let status: number;
+let requests: string[];
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit = {}) => {
+    requests.push(`${init.method ?? 'GET'} ${new URL(url).pathname}`);
+    return new Response(status === 204 ? null : '{}', { status });
+  }));
+  resetDb();
+  status = 200;
+  requests = [];
+  signInAs('user-1');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('chat session sync', () => {
+  it('keeps the session on this device and resends it when the backend rejects it', async () => {
+    status = 500;
+    await saveChatSession(session);
+    expect(await getOne(STORES.chatSessions, 'diagnosis-1')).toEqual(session);
+
+    status = 200;
+    await syncChatSessions();
+    await syncChatSessions();
+
+    expect(requests).toEqual(['PUT /chat_sessions/diagnosis-1', 'PUT /chat_sessions/diagnosis-1']);
+  });
+
+  it('resends a delete that did not reach the backend', async () => {
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await deleteChatSession('diagnosis-1');
+
+    status = 204;
+    await syncChatSessions();
+
+    expect(requests).toEqual(['DELETE /chat_sessions/diagnosis-1']);
+  });
+
+  it('does not retry changes that reached the backend', async () => {
+    await saveChatSession(session);
+    await syncChatSessions();
+
+    expect(requests).toEqual(['PUT /chat_sessions/diagnosis-1']);
+  });
+
+  it('sends the same device key for every request when signed out', async () => {
+    localStorage.removeItem('agrolens.authSession');
+    await saveChatSession(session);
+    await deleteChatSession('diagnosis-1');
+
+    const headers = vi.mocked(fetch).mock.calls.map(([, init]) => new Headers(init?.headers));
+    expect(headers[0].get('Authorization')).toBeNull();
+    expect(headers[0].get('X-Chat-Session-Key')).toMatch(/^[\w-]{32,}$/);
+    expect(headers[1].get('X-Chat-Session-Key')).toBe(headers[0].get('X-Chat-Session-Key'));
+  });
+
+  it('sends only the latest messages the backend accepts', async () => {
+    const messages = Array.from({ length: 250 }, (_, i) => ({ role: 'user' as const, text: `${i}`.padEnd(20_000, '.') }));
+    await saveChatSession({ ...session, messages });
+
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+    expect(body.messages).toHaveLength(200);
+    expect(body.messages[0].content).toMatch(/^50\./);
+    expect(body.messages[0].content).toHaveLength(10_000);
+    expect(await getOne(STORES.chatSessions, 'diagnosis-1')).toEqual({ ...session, messages });
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiagnosisRecord } from '../types';
+import { memoryStorage, signInAs } from './memoryStorage';
+import { STORES, getAll, getOne, put, resetDb } from './fakeDb';
+import { deleteRemoteDiagnosis, syncDiagnoses } from '../services/diagnosisSyncService';
+
+vi.mock('../services/db', () => import('./fakeDb'));
+
+const USER = 'user-1';
+
+// The account's diagnoses on the backend, and every request the client made.
+let backend: Map<string, DiagnosisRecord>;
+let requests: string[];
+let offline: boolean;
+
+const record = (id: string, changes: Partial<DiagnosisRecord> = {}): DiagnosisRecord => ({
+  id,
+  thumbnail: '',
+  result: { diseaseName: 'Tomato___Late_blight', confidence: 90 } as DiagnosisRecord['result'],
+  language: 'en',
+  createdAt: 1000,
+  ownerId: USER,
+  ...changes,
+});
+
+const fakeFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const method = init.method ?? 'GET';
+  const path = new URL(url).pathname;
+  requests.push(`${method} ${path}`);
+  if (offline) throw new TypeError('Failed to fetch');
+  const id = decodeURIComponent(path.split('/')[3] ?? '');
+  if (method === 'GET') {
+    const items = [...backend.values()].map(item => ({ id: item.id, created_at: item.createdAt / 1000, record: item, updated_at: 0 }));
+    return new Response(JSON.stringify(items), { status: 200 });
+  }
+  if (method === 'PUT') {
+    backend.set(id, JSON.parse(init.body as string).record);
+    return new Response('{}', { status: 200 });
+  }
+  backend.delete(id);
+  return new Response(null, { status: 204 });
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.stubGlobal('fetch', vi.fn(fakeFetch));
+  resetDb();
+  backend = new Map();
+  requests = [];
+  offline = false;
+  signInAs(USER);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('syncDiagnoses', () => {
+  it('keeps the most recently changed copy of each record', async () => {
+    await put(STORES.diagnoses, record('local-newer', { updatedAt: 5000, tag: 'local', syncedAt: 1 }));
+    await put(STORES.diagnoses, record('remote-newer', { updatedAt: 2000, tag: 'local', syncedAt: 1 }));
+    backend.set('local-newer', record('local-newer', { updatedAt: 3000, tag: 'remote' }));
+    backend.set('remote-newer', record('remote-newer', { updatedAt: 4000, tag: 'remote' }));
+
+    expect(await syncDiagnoses()).toBe(1);
+
+    expect(backend.get('local-newer')?.tag).toBe('local');
+    expect((await getOne<DiagnosisRecord>(STORES.diagnoses, 'remote-newer'))?.tag).toBe('remote');
+  });
+
+  it('downloads records made on other devices and uploads ones the backend has never seen', async () => {
+    backend.set('from-phone', record('from-phone'));
+    await put(STORES.diagnoses, record('made-offline'));
+
+    await syncDiagnoses();
+
+    expect(backend.has('made-offline')).toBe(true);
+    const local = await getOne<DiagnosisRecord>(STORES.diagnoses, 'from-phone');
+    expect(local?.ownerId).toBe(USER);
+    expect(local?.syncedAt).toBeDefined();
+  });
+
+  it('removes uploaded records that were deleted on another device, with their chat', async () => {
+    await put(STORES.diagnoses, record('deleted-elsewhere', { syncedAt: 1 }));
+    await put(STORES.chatSessions, { diagnosisId: 'deleted-elsewhere', messages: [], updatedAt: 1 });
+
+    expect(await syncDiagnoses()).toBe(1);
+
+    expect(await getAll(STORES.diagnoses)).toEqual([]);
+    expect(await getAll(STORES.chatSessions)).toEqual([]);
+  });
+
+  it("leaves other accounts' records alone", async () => {
+    await put(STORES.diagnoses, record('someone-else', { ownerId: 'user-2', syncedAt: 1 }));
+
+    await syncDiagnoses();
+
+    expect(await getOne(STORES.diagnoses, 'someone-else')).toBeDefined();
+    expect(backend.size).toBe(0);
+  });
+});
+
+describe('deleteRemoteDiagnosis', () => {
+  it('deletes records this device never saw uploaded', async () => {
+    backend.set('no-synced-at', record('no-synced-at'));
+
+    await deleteRemoteDiagnosis(record('no-synced-at'));
+
+    expect(backend.has('no-synced-at')).toBe(false);
+  });
+
+  it('does not let a failed delete bring the record back on the next sync', async () => {
+    backend.set('deleted-offline', record('deleted-offline'));
+    offline = true;
+    await deleteRemoteDiagnosis(record('deleted-offline', { syncedAt: 1 }));
+    expect(backend.has('deleted-offline')).toBe(true);
+
+    offline = false;
+    // The retried delete fails once more; the backend's copy is still ignored.
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await syncDiagnoses();
+    expect(await getAll(STORES.diagnoses)).toEqual([]);
+    expect(backend.has('deleted-offline')).toBe(true);
+
+    await syncDiagnoses();
+    expect(backend.has('deleted-offline')).toBe(false);
+    expect(await getAll(STORES.diagnoses)).toEqual([]);
+    expect(requests.filter(request => request === 'DELETE /me/diagnoses/deleted-offline')).toHaveLength(2);
+  });
+
+  it('does nothing for records of another account or made while signed out', async () => {
+    await deleteRemoteDiagnosis(record('signed-out', { ownerId: undefined }));
+    await deleteRemoteDiagnosis(record('other', { ownerId: 'user-2' }));
+
+    expect(requests).toEqual([]);
+  });
+});
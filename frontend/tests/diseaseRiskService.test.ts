@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HourlyWeather, WeatherInfo } from '../types';
+import { memoryStorage } from './memoryStorage';
+import { getDiseaseRisks, loadMyCrops, saveMyCrops } from '../services/diseaseRiskService';
+
+vi.mock('../services/db', () => import('./fakeDb'));
+
+const NOW = Date.UTC(2026, 5, 1, 6);
+const HOUR = 3600 * 1000;
+
+// Dry, mild weather that favors none of the modelled diseases unless overridden.
+const slot = (hoursFromNow: number, changes: Partial<HourlyWeather> = {}): HourlyWeather => ({
+  time: NOW + hoursFromNow * HOUR,
+  temp: 15,
+  humidity: 60,
+  rain: 0,
+  pop: 0,
+  windSpeed: 8,
+  windGust: 12,
+  condition: 'Clouds',
+  icon: '03d',
+  ...changes,
+});
+
+// 3-hour slots covering the 72-hour outlook, with `weather` applied to those starting in [from, to).
+const forecast = (...periods: [number, number, Partial<HourlyWeather>][]): WeatherInfo[] => {
+  const hourly = Array.from({ length: 24 }, (_, i) => {
+    const period = periods.find(([from, to]) => i * 3 >= from && i * 3 < to);
+    return slot(i * 3, period?.[2]);
+  });
+  return [{ hourly } as WeatherInfo];
+};
+
+const WET = { temp: 15, humidity: 95 };
+const risk = (risks: ReturnType<typeof getDiseaseRisks>, className: string) => risks.find(r => r.className === className);
+
+describe('getDiseaseRisks', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rates a long enough wet spell as a high risk of late blight', () => {
+    const lateBlight = risk(getDiseaseRisks(forecast([0, 12, WET]), ['Tomato']), 'Tomato___Late_blight');
+    expect(lateBlight).toMatchObject({ cropId: 'tomato', diseaseId: 'late_blight', level: 'high', favorableHours: 12 });
+    expect(lateBlight?.score).toBeCloseTo(0.75 + 0.25 * 12 / 30);
+  });
+
+  it('needs one continuous wet spell rather than the same hours spread out', () => {
+    const spread = getDiseaseRisks(forecast([0, 6, WET], [12, 18, WET]), ['Tomato']);
+    const continuous = getDiseaseRisks(forecast([0, 12, WET]), ['Tomato']);
+    expect(risk(spread, 'Tomato___Late_blight')?.favorableHours).toBe(12);
+    expect(risk(spread, 'Tomato___Late_blight')?.score).toBeLessThan(risk(continuous, 'Tomato___Late_blight')!.score);
+    expect(risk(spread, 'Tomato___Late_blight')?.level).toBe('moderate');
+  });
+
+  it('rates dry weather as low risk', () => {
+    const risks = getDiseaseRisks(forecast(), ['Tomato', 'Potato']);
+    expect(risks.length).toBeGreaterThan(0);
+    risks.forEach(r => expect(r).toMatchObject({ level: 'low', favorableHours: 0 }));
+  });
+
+  it('only counts rain as wetness for bacterial diseases', () => {
+    const warmHumid = { temp: 26, humidity: 95 };
+    expect(risk(getDiseaseRisks(forecast([0, 9, warmHumid]), ['Tomato']), 'Tomato___Bacterial_spot')?.favorableHours).toBe(0);
+    expect(risk(getDiseaseRisks(forecast([0, 9, { ...warmHumid, rain: 2 }]), ['Tomato']), 'Tomato___Bacterial_spot')?.level).toBe('high');
+  });
+
+  it('does not count rain towards powdery mildew', () => {
+    const humid = { temp: 25, humidity: 80 };
+    expect(risk(getDiseaseRisks(forecast([0, 24, humid]), ['Squash']), 'Squash___Powdery_mildew')?.level).toBe('high');
+    expect(risk(getDiseaseRisks(forecast([0, 24, { ...humid, rain: 2 }]), ['Squash']), 'Squash___Powdery_mildew')?.favorableHours).toBe(0);
+  });
+
+  it('only scores the given crops, highest risk first', () => {
+    const risks = getDiseaseRisks(forecast([0, 12, WET]), ['Potato']);
+    expect(risks.every(r => r.cropId === 'potato')).toBe(true);
+    expect(risks.map(r => r.score)).toEqual([...risks.map(r => r.score)].sort((a, b) => b - a));
+    expect(risks[0].className).toBe('Potato___Late_blight');
+  });
+
+  it('ignores slots that have passed or lie beyond 72 hours', () => {
+    const wet = (hoursFromNow: number) => slot(hoursFromNow, WET);
+    const outside = [wet(-12), wet(-9), wet(-6), wet(-3), wet(72), wet(75), wet(78), wet(81)];
+    expect(risk(getDiseaseRisks([{ hourly: outside } as WeatherInfo], ['Tomato']), 'Tomato___Late_blight')).toBeUndefined();
+    expect(getDiseaseRisks([{ hourly: [...outside, slot(0)] } as WeatherInfo], ['Tomato'])
+      .every(r => r.favorableHours === 0)).toBe(true);
+  });
+});
+
+describe('my crops', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps only crops with a risk model', () => {
+    saveMyCrops(['Tomato', 'Blueberry', 'Potato']);
+    expect(loadMyCrops()).toEqual(['Tomato', 'Potato']);
+  });
+
+  it('survives a corrupted entry', () => {
+    localStorage.setItem('agrolens.myCrops', '{not json');
+    expect(loadMyCrops()).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+// In-memory stand-in for services/db.ts, for tests that run without a browser's IndexedDB.
+// It replaces that module in tests (vi.mock), so it cannot import its values and repeats the store names.
+import type { StoreName } from '../services/db';
+
+export const STORES = {
+  diagnoses: 'diagnoses',
+  outbox: 'outbox',
+  chatSessions: 'chatSessions',
+  plots: 'plots',
+  models: 'models',
+} as const;
+
+const KEY_PATHS: Partial<Record<StoreName, string>> = { chatSessions: 'diagnosisId', models: 'name' };
+
+const stores = new Map<StoreName, Map<IDBValidKey, unknown>>();
+
+const storeOf = (storeName: StoreName) => {
+  if (!stores.has(storeName)) stores.set(storeName, new Map());
+  return stores.get(storeName)!;
+};
+
+export const resetDb = () => stores.clear();
+
+export const getAll = async <T>(storeName: StoreName): Promise<T[]> => [...storeOf(storeName).values()] as T[];
+
+export const getAllByIndex = async <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T[]> =>
+  (await getAll<Record<string, unknown>>(storeName)).filter(value => value[indexName] === key) as T[];
+
+export const getOne = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  storeOf(storeName).get(key) as T | undefined;
+
+export const put = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  const keyPath = KEY_PATHS[storeName] ?? 'id';
+  storeOf(storeName).set((value as Record<string, IDBValidKey>)[keyPath], structuredClone(value));
+};
+
+export const remove = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  storeOf(storeName).delete(key);
+};
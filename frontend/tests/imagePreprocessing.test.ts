@@ -0,0 +1,31 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { MODEL_INPUT_SIZE, resizeBicubic } from '../services/imagePreprocessing';
+import pillowResize from './fixtures/pillow_resize.json';
+
+// The noise images of backend/scripts/generate_parity_fixtures.py: an LCG mod 2^31, bits 16-23 of each state.
+const noiseImage = (width: number, height: number, seed: number): Uint8ClampedArray => {
+  const values = new Uint8ClampedArray(width * height * 3);
+  let state = seed;
+  for (let i = 0; i < values.length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    values[i] = (state >> 16) & 0xff;
+  }
+  return values;
+};
+
+const channelSums = (rgb: Uint8ClampedArray) => {
+  const sums = [0, 0, 0];
+  rgb.forEach((value, i) => { sums[i % 3] += value; });
+  return sums;
+};
+
+describe('resizeBicubic', () => {
+  it.each(pillowResize)('matches Pillow for a $width x $height image', ({ width, height, seed, sha256, channel_sums }) => {
+    const resized = resizeBicubic(noiseImage(width, height, seed), width, height);
+
+    expect(resized).toHaveLength(MODEL_INPUT_SIZE * MODEL_INPUT_SIZE * 3);
+    expect(channelSums(resized)).toEqual(channel_sums);
+    expect(createHash('sha256').update(resized).digest('hex')).toBe(sha256);
+  });
+});
@@ -0,0 +1,26 @@
+// A localStorage for tests running in Node, which has none.
+export const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+  };
+};
+
+// Stores a session for `userId` the way authService does after signing in.
+export const signInAs = (userId: string) =>
+  localStorage.setItem('agrolens.authSession', JSON.stringify({
+    token: `token-${userId}`,
+    expiresAt: Date.now() + 3600_000,
+    user: { id: userId, username: userId, createdAt: 0 },
+  }));
@@ -0,0 +1,54 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import { ApiError } from '../services/apiClient';
+import { ClassCatalog, isHealthyClass, rankPredictions } from '../services/onDeviceInference';
+import ranking from './fixtures/ranking.json';
+
+vi.mock('../services/db', () => import('./fakeDb'));
+
+const readModelFile = (name: string) => JSON.parse(readFileSync(new URL(`../../backend/models/${name}`, import.meta.url), 'utf-8'));
+const classNames: Record<string, string> = readModelFile('class_names.json');
+const catalog: ClassCatalog = readModelFile('class_catalog.json');
+
+// The server ranks float32 outputs, so percentages agree to about 1e-4.
+const expectPrediction = (actual: { diseaseName: string; confidence: number } | undefined, [label, score]: (string | number)[]) => {
+  expect(actual?.diseaseName).toBe(label);
+  expect(actual?.confidence).toBeCloseTo(score as number, 3);
+};
+
+describe('rankPredictions', () => {
+  it.each(ranking)('ranks like the server with crop hint $crop', ({ crop, probabilities, top_predictions, unconstrained_prediction }) => {
+    const { predicted, alternatives, unconstrainedPrediction } = rankPredictions(probabilities, classNames, crop ?? undefined);
+
+    expectPrediction(predicted, top_predictions[0]);
+    expect(alternatives).toHaveLength(top_predictions.length);
+    alternatives.forEach((alternative, i) => expectPrediction(alternative, top_predictions[i]));
+    if (unconstrained_prediction) {
+      expectPrediction(unconstrainedPrediction, unconstrained_prediction);
+    } else {
+      expect(unconstrainedPrediction).toBeUndefined();
+    }
+  });
+
+  it('rejects crops the model does not know', () => {
+    expect(() => rankPredictions(ranking[0].probabilities, classNames, 'Banana')).toThrow(ApiError);
+  });
+});
+
+describe('isHealthyClass', () => {
+  it('agrees with the catalog for every class', () => {
+    for (const label of Object.values(classNames)) {
+      expect(isHealthyClass(label, catalog)).toBe(catalog.classes[label].disease === 'healthy');
+    }
+  });
+
+  it('does not treat a disease named after healthy tissue as healthy', () => {
+    const withUnhealthyName = { classes: { Tomato___Unhealthy_spots: { crop: 'tomato', disease: 'unhealthy_spots' } } };
+    expect(isHealthyClass('Tomato___Unhealthy_spots', withUnhealthyName)).toBe(false);
+  });
+
+  it('derives the disease from the label for classes missing from the catalog', () => {
+    expect(isHealthyClass('Mango___healthy', catalog)).toBe(true);
+    expect(isHealthyClass('Mango___Unhealthy_spots', catalog)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxItem } from '../types';
+import { memoryStorage } from './memoryStorage';
+import { STORES, getAll, put, resetDb } from './fakeDb';
+import { syncOutbox } from '../services/outboxService';
+
+vi.mock('../services/db', () => import('./fakeDb'));
+
+const item = (id: string, createdAt: number): OutboxItem => ({
+  id,
+  image: new File(['leaf'], 'leaf.jpg', { type: 'image/jpeg' }),
+  thumbnail: '',
+  language: 'en',
+  createdAt,
+  status: 'pending',
+});
+
+const errorResponse = (status: number, code: string) =>
+  new Response(JSON.stringify({ code, detail: 'Something went wrong.' }), { status });
+
+const statuses = async () =>
+  Object.fromEntries((await getAll<OutboxItem>(STORES.outbox)).map(({ id, status }) => [id, status]));
+
+beforeEach(async () => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('fetch', vi.fn());
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  resetDb();
+  localStorage.setItem('agrolens.apiBaseUrl', 'http://backend.test');
+  await put(STORES.outbox, item('older', 1000));
+  await put(STORES.outbox, item('newer', 2000));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('syncOutbox', () => {
+  it.each([
+    ['Chrome', 'Failed to fetch'],
+    ['Firefox', 'NetworkError when attempting to fetch resource.'],
+    ['Safari', 'Load failed'],
+  ])('keeps items pending when %s cannot reach the backend', async (_, message) => {
+    vi.mocked(fetch).mockRejectedValue(new TypeError(message));
+
+    expect(await syncOutbox()).toBe(0);
+    expect(await statuses()).toEqual({ older: 'pending', newer: 'pending' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    [503, 'LLM_UNAVAILABLE'],
+    [502, 'INTERNAL_ERROR'],
+    [504, 'INTERNAL_ERROR'],
+    [429, 'RATE_LIMITED'],
+  ])('keeps items pending on a %i response', async (status, code) => {
+    vi.mocked(fetch).mockResolvedValue(errorResponse(status, code));
+
+    expect(await syncOutbox()).toBe(0);
+    expect(await statuses()).toEqual({ older: 'pending', newer: 'pending' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks an item failed when the backend rejects it for good and carries on', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(errorResponse(400, 'NO_LEAF_DETECTED'))
+      .mockRejectedValueOnce(new TypeError('Load failed'));
+
+    expect(await syncOutbox()).toBe(1);
+    expect(await statuses()).toEqual({ older: 'failed', newer: 'pending' });
+    const [older] = (await getAll<OutboxItem>(STORES.outbox)).filter(({ id }) => id === 'older');
+    expect(older.error).toBeTruthy();
+  });
+
+  it('leaves an item pending after an unexpected error', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response('<html>proxy page</html>', { status: 200 }))
+      .mockRejectedValueOnce(new TypeError('Load failed'));
+
+    expect(await syncOutbox()).toBe(0);
+    expect(await statuses()).toEqual({ older: 'pending', newer: 'pending' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosisRecord, DiseaseDetectionResult } from '../types';
+import { assessProgression } from '../services/progressionService';
+
+const HEALTHY = 'Tomato___healthy';
+const LATE_BLIGHT = 'Tomato___Late_blight';
+const LEAF_MOLD = 'Tomato___Leaf_Mold';
+
+const scan = (diseaseName: string, affectedPercent?: number): DiagnosisRecord => ({
+  id: `${diseaseName}-${affectedPercent}`,
+  thumbnail: '',
+  result: {
+    diseaseName,
+    isHealthy: diseaseName === HEALTHY,
+    severity: affectedPercent === undefined ? undefined : { affectedPercent, grade: 'mild' },
+  } as DiseaseDetectionResult,
+  language: 'en',
+  createdAt: 1000,
+  tag: 'Row 3',
+});
+
+describe('assessProgression', () => {
+  it('needs two scans', () => {
+    expect(assessProgression([])).toEqual({ trend: 'insufficient' });
+    expect(assessProgression([scan(LATE_BLIGHT, 20)])).toEqual({ trend: 'insufficient' });
+  });
+
+  it.each([
+    [[scan(LATE_BLIGHT, 20), scan(HEALTHY)], 'resolved'],
+    [[scan(HEALTHY), scan(HEALTHY)], 'stable'],
+    [[scan(HEALTHY), scan(LATE_BLIGHT, 10)], 'worsening'],
+  ])('judges healthy scans by health alone (%#)', (scans, trend) => {
+    expect(assessProgression(scans).trend).toBe(trend);
+  });
+
+  it.each([
+    [50, 30, 'improving', -20],
+    [20, 22, 'stable', 2],
+    [20, 40, 'worsening', 20],
+  ])('compares the affected area of the same disease (%i%% to %i%%)', (first, latest, trend, severityChange) => {
+    expect(assessProgression([scan(LATE_BLIGHT, first), scan(LATE_BLIGHT, latest)])).toEqual({ trend, severityChange });
+  });
+
+  it('does not compare the affected area of different diseases', () => {
+    expect(assessProgression([scan(LATE_BLIGHT, 40), scan(LEAF_MOLD, 10)])).toEqual({ trend: 'insufficient' });
+  });
+
+  it('compares against the earliest scan of the latest disease', () => {
+    const scans = [scan(LEAF_MOLD, 5), scan(LATE_BLIGHT, 30), scan(LEAF_MOLD, 45), scan(LATE_BLIGHT, 10)];
+    expect(assessProgression(scans)).toEqual({ trend: 'improving', severityChange: -20 });
+  });
+
+  it('needs a severity estimate on both scans', () => {
+    expect(assessProgression([scan(LATE_BLIGHT), scan(LATE_BLIGHT, 10)])).toEqual({ trend: 'insufficient' });
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HourlyWeather, WeatherInfo } from '../types';
+import { getSprayWindows, rateSpraySlot } from '../services/sprayAdvisor';
+
+// Local times, since the advisor works in the farmer's local day.
+const at = (day: number, hour: number) => new Date(2026, 5, day, hour).getTime();
+
+// Ideal spraying weather unless overridden.
+const slot = (time: number, changes: Partial<HourlyWeather> = {}): HourlyWeather => ({
+  time,
+  temp: 20,
+  humidity: 60,
+  rain: 0,
+  pop: 0,
+  windSpeed: 8,
+  windGust: 12,
+  condition: 'Clear',
+  icon: '01d',
+  ...changes,
+});
+
+const forecast = (hourly: HourlyWeather[]): WeatherInfo[] => [{ hourly } as WeatherInfo];
+
+describe('rateSpraySlot', () => {
+  it('rates calm, mild, dry daytime weather as good', () => {
+    expect(rateSpraySlot(slot(at(1, 9)), [])).toEqual({ rating: 'good', reasons: [] });
+  });
+
+  it('never recommends spraying at night', () => {
+    expect(rateSpraySlot(slot(at(1, 3)), [])).toEqual({ rating: 'poor', reasons: ['night'] });
+    expect(rateSpraySlot(slot(at(1, 21)), [])).toEqual({ rating: 'poor', reasons: ['night'] });
+  });
+
+  it.each([
+    [{ pop: 0.5 }, 'poor', ['raining']],
+    [{ rain: 1 }, 'poor', ['raining']],
+    [{ windSpeed: 18 }, 'marginal', ['windTooStrong']],
+    [{ windGust: 30 }, 'poor', ['windTooStrong']],
+    [{ windSpeed: 1 }, 'marginal', ['windTooCalm']],
+    [{ temp: 29 }, 'marginal', ['tooHot']],
+    [{ temp: 34 }, 'poor', ['tooHot']],
+    [{ temp: 3 }, 'marginal', ['tooCold']],
+    [{ humidity: 30 }, 'marginal', ['lowHumidity']],
+    [{ humidity: 98 }, 'marginal', ['highHumidity']],
+  ])('rates %o as %s', (changes, rating, reasons) => {
+    expect(rateSpraySlot(slot(at(1, 9), changes), [])).toEqual({ rating, reasons });
+  });
+
+  it('keeps the worst rating and every reason', () => {
+    expect(rateSpraySlot(slot(at(1, 12), { temp: 34, humidity: 30 }), [])).toEqual({ rating: 'poor', reasons: ['tooHot', 'lowHumidity'] });
+  });
+
+  it('looks ahead for rain within the rainfast period only', () => {
+    expect(rateSpraySlot(slot(at(1, 9)), [slot(at(1, 15), { pop: 0.8 })])).toEqual({ rating: 'poor', reasons: ['rainSoon'] });
+    expect(rateSpraySlot(slot(at(1, 9)), [slot(at(1, 18), { pop: 0.8 })])).toEqual({ rating: 'good', reasons: [] });
+  });
+});
+
+describe('getSprayWindows', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at(1, 7));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('merges consecutive slots with the same rating and skips past ones', () => {
+    const windows = getSprayWindows(forecast([
+      slot(at(1, 0)),
+      slot(at(1, 6)),
+      slot(at(1, 9)),
+      slot(at(1, 12), { temp: 29 }),
+      slot(at(1, 15), { temp: 29, humidity: 30 }),
+    ]));
+
+    expect(windows).toEqual([
+      { start: at(1, 6), end: at(1, 12), rating: 'good', reasons: [] },
+      { start: at(1, 12), end: at(1, 18), rating: 'marginal', reasons: ['tooHot', 'lowHumidity'] },
+    ]);
+  });
+
+  it('does not merge across nights or days', () => {
+    const windows = getSprayWindows(forecast([slot(at(1, 18)), slot(at(1, 21)), slot(at(2, 0)), slot(at(2, 6))]));
+
+    expect(windows.map(({ start, rating }) => [new Date(start).getHours(), rating])).toEqual([
+      [18, 'good'],
+      [21, 'poor'],
+      [0, 'poor'],
+      [6, 'good'],
+    ]);
+  });
+});
@@ -1,10 +1,71 @@
 export type Language = 'en' | 'te' | 'hi' | 'es' | 'ta';
 
+// One 3-hour slot of the OpenWeather forecast.
+export interface HourlyWeather {
+  time: number; // Unix timestamp in milliseconds
+  temp: number; // °C
+  humidity: number; // %
+  rain: number; // mm over the 3-hour slot
+  pop: number; // probability of precipitation, 0-1
+  windSpeed: number; // km/h
+  windGust: number; // km/h
+  condition: string;
+  icon: string;
+}
+
 export interface WeatherInfo {
   day: string;
-  temp: number;
+  date: string; // YYYY-MM-DD in local time
+  temp: number; // °C, the slot closest to midday
+  tempMin: number;
+  tempMax: number;
+  humidity: number; // average %
+  rain: number; // total mm for the day
+  pop: number; // highest probability of precipitation, 0-1
+  windSpeed: number; // highest km/h
+  windGust: number; // highest km/h
   condition: string;
   icon: string;
+  hourly: HourlyWeather[];
+}
+
+export type SprayRating = 'good' | 'marginal' | 'poor';
+
+export type SprayReason = 'night' | 'raining' | 'rainSoon' | 'windTooStrong' | 'windTooCalm' | 'tooHot' | 'tooCold' | 'lowHumidity' | 'highHumidity';
+
+// A stretch of consecutive forecast slots with the same suitability for spraying.
+export interface SprayWindow {
+  start: number; // Unix timestamp in milliseconds
+  end: number;
+  rating: SprayRating;
+  reasons: SprayReason[];
+}
+
+export type ImageQualityIssue = 'blurry' | 'tooDark' | 'tooBright' | 'lowCoverage' | 'lowResolution';
+
+// Result of the client-side check that runs before an image is uploaded for diagnosis.
+export interface ImageQualityReport {
+  issues: ImageQualityIssue[];
+  // Variance of the Laplacian; low values mean a blurry image.
+  sharpness: number;
+  // Mean luma, 0-255.
+  brightness: number;
+  // Share of the frame that looks like leaf, 0-1.
+  leafCoverage: number;
+  width: number;
+  height: number;
+}
+
+export type RiskLevel = 'low' | 'moderate' | 'high';
+
+// Weather-driven likelihood of one disease class developing in the coming days.
+export interface DiseaseRisk {
+  className: string; // as in the backend's class_names.json
+  cropId: string; // as in the backend's class_catalog.json; names the crop_* translation key
+  diseaseId: string; // likewise for the disease_* key
+  score: number; // 0-1
+  level: RiskLevel;
+  favorableHours: number;
 }
 
 export interface Medicine {
@@ -13,19 +74,217 @@ export interface Medicine {
   notes: string;
 }
 
+export interface AlternativeDiagnosis {
+  diseaseName: string;
+  confidence: number;
+  // Localized names from the backend's class catalog.
+  cropName?: string;
+  localizedName?: string;
+}
+
+export type PathogenType = 'fungal' | 'bacterial' | 'viral' | 'pest';
+
+// Structured identity of the predicted class, as returned by the backend.
+export interface DiseaseIdentity {
+  cropId: string; // e.g. 'tomato'
+  diseaseId: string; // e.g. 'late_blight'; 'healthy' for healthy leaves
+  cropName: string; // localized
+  diseaseName: string; // localized
+  pathogenType: PathogenType | null; // null for healthy leaves
+}
+
+export interface TreatmentReference {
+  title: string;
+  publisher?: string;
+  url?: string;
+}
+
+// Where the treatment advice came from. 'llm' means the class has no knowledge base entry and the advice is unreviewed.
+export interface TreatmentSource {
+  source: 'knowledge_base' | 'llm';
+  version?: number; // knowledge base entry version
+  reviewStatus?: 'draft' | 'approved';
+  reviewedBy?: string;
+  reviewedAt?: string; // YYYY-MM-DD
+  references: TreatmentReference[];
+}
+
+export type SeverityGrade = 'trace' | 'mild' | 'moderate' | 'severe';
+
+// Share of the leaf that is discoloured or lesioned, from colour segmentation on the backend.
+export interface SeverityEstimate {
+  affectedPercent: number;
+  grade: SeverityGrade;
+}
+
 export interface DiseaseDetectionResult {
+  // Raw class label from the model, e.g. 'Tomato___Late_blight'. Use `identity` for display.
   diseaseName: string;
+  // Model confidence for diseaseName, as a percentage (0-100).
+  confidence: number;
+  // Ranked top-k predictions from the classifier, highest first. Includes diseaseName itself.
+  alternatives: AlternativeDiagnosis[];
   medicines: Medicine[];
   precautions: string[];
   causes: string[];
   summary: string;
   disclaimer:string;
+  // Missing on diagnoses saved before the backend returned it.
+  treatmentSource?: TreatmentSource;
   isHealthy: boolean;
   isCropDetected: boolean;
+  // Missing on diagnoses saved before the backend returned it.
+  identity?: DiseaseIdentity;
+  // True when the confidence is below LOW_CONFIDENCE_THRESHOLD and the result should not be treated as a firm diagnosis.
+  isUncertain: boolean;
+  // Crop the user said the leaf is from; predictions and confidences are then limited to that crop's classes.
+  cropHint?: string;
+  // The model's top class over all crops, when it disagrees with the crop-limited diagnosis.
+  unconstrainedPrediction?: AlternativeDiagnosis;
+  // Occlusion saliency over the whole image, rows top to bottom, 0-1 (1 = mattered most for the prediction).
+  heatmap?: number[][];
+  // Missing for healthy leaves, on-device diagnoses, and leaves the backend could not segment.
+  severity?: SeverityEstimate;
+  // Set when the diagnosis ran on this device without a connection; the treatment fields are empty until it is fetched.
+  treatmentPending?: boolean;
 }
 
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
-}
\ No newline at end of file
+}
+
+export type CropStage = 'seedling' | 'vegetative' | 'flowering' | 'fruiting' | 'harvest';
+
+export interface ChatSession {
+  diagnosisId: string;
+  messages: ChatMessage[];
+  cropStage?: CropStage;
+  updatedAt: number;
+}
+
+// The diagnosis a chat is about; sent with every message so the backend can ground its answers in it.
+export interface ChatDiagnosisContext {
+  result: DiseaseDetectionResult;
+  language: Language;
+  cropStage?: CropStage;
+  location?: GeoLocation;
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// A result of the backend's place search.
+export interface Place extends GeoLocation {
+  name: string;
+  state: string | null;
+  country: string;
+}
+
+// A named field the user follows the weather for, e.g. a farm they advise far from where they are.
+export interface FarmPlot {
+  id: string;
+  name: string;
+  location: GeoLocation;
+  crops: string[]; // crop names as in class_names.json, e.g. 'Tomato'
+  createdAt: number;
+}
+
+// Today's forecast where a scan was made, kept with the scan so its report shows the weather of that day.
+// Scans saved before the icon was kept have only the condition text.
+export type WeatherSnapshot = Pick<WeatherInfo, 'date' | 'temp' | 'condition'> & Partial<Pick<WeatherInfo, 'icon'>>;
+
+export interface DiagnosisRecord {
+  id: string;
+  // Downscaled JPEG data URL of the scanned leaf, so past scans can be shown without the original upload.
+  thumbnail: string;
+  result: DiseaseDetectionResult;
+  language: Language;
+  createdAt: number;
+  location?: GeoLocation;
+  weather?: WeatherSnapshot;
+  // Plant or plot the scan belongs to, e.g. "Row 3, plant 2", so repeated scans of it can be compared over time.
+  tag?: string;
+  // Account the scan was made under; unset for scans made while signed out. Each account only sees its own.
+  ownerId?: string;
+  // Last local change and last successful upload to the account, for syncing between devices.
+  updatedAt?: number;
+  syncedAt?: number;
+}
+
+// Whether a tagged plant is getting better across its scans, judged from the first and latest scan.
+export type ProgressionTrend = 'resolved' | 'improving' | 'stable' | 'worsening' | 'insufficient';
+
+// A detection captured while offline, waiting to be sent to the backend.
+export interface OutboxItem {
+  id: string;
+  image: File;
+  thumbnail: string;
+  language: Language;
+  createdAt: number;
+  location?: GeoLocation;
+  crop?: string;
+  weather?: WeatherSnapshot;
+  status: 'pending' | 'failed';
+  error?: string;
+  ownerId?: string;
+}
+
+// Models downloaded from the backend for on-device diagnosis.
+export interface OnDeviceModelStatus {
+  downloaded: boolean;
+  downloadedAt?: number;
+}
+
+// On-device inference compared with the server's for the same image.
+export interface InferenceParityReport {
+  // Whether the preprocessed 224x224 pixels are byte-identical.
+  inputMatches: boolean;
+  plantProbabilityDiff: number;
+  // Largest absolute difference between the two disease softmax outputs.
+  maxProbabilityDiff: number;
+  localTopClass: string;
+  serverTopClass: string;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: BatchItemStatus;
+  result?: DiseaseDetectionResult;
+  // History entry saved for this image once it has been diagnosed.
+  record?: DiagnosisRecord;
+  error?: string;
+}
+
+export interface UserAccount {
+  id: string;
+  // Phone number or email address, in lower case.
+  username: string;
+  createdAt: number;
+}
+
+// A signed-in account on this device, kept until it is signed out or the token expires.
+export interface AuthSession {
+  token: string;
+  expiresAt: number;
+  user: UserAccount;
+}
+
+export type SoilType = 'alluvial' | 'black' | 'red' | 'laterite' | 'clay' | 'loam' | 'sandy';
+
+export interface FarmProfile {
+  farmerName: string;
+  cooperative: string;
+  locationName: string;
+  location?: GeoLocation;
+  crops: string[]; // crop names as in class_names.json, e.g. 'Tomato'
+  acreage?: number;
+  soilType?: SoilType;
+}
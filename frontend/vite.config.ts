@@ -1,7 +1,34 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The TFLite WASM runtime for on-device diagnosis is loaded by tfjs-tflite from a directory at runtime, so it
+// cannot go through the bundler. It is served from the app's own origin under /assets/ (dev server) and copied
+// into the build, where the service worker caches it like the other assets.
+const TFLITE_WASM_DIR = path.resolve(__dirname, 'node_modules/@tensorflow/tfjs-tflite/wasm');
+const TFLITE_VERSION = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, 'node_modules/@tensorflow/tfjs-tflite/package.json'), 'utf-8')
+).version;
+const TFLITE_WASM_PATH = `assets/tflite-${TFLITE_VERSION}/`;
+
+const tfliteWasm = (): Plugin => ({
+  name: 'agrolens-tflite-wasm',
+  configureServer(server) {
+    server.middlewares.use(`/${TFLITE_WASM_PATH}`, (req, res, next) => {
+      const file = path.join(TFLITE_WASM_DIR, path.basename((req.url ?? '').split('?')[0]));
+      if (!fs.existsSync(file)) return next();
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const name of fs.readdirSync(TFLITE_WASM_DIR)) {
+      this.emitFile({ type: 'asset', fileName: `${TFLITE_WASM_PATH}${name}`, source: fs.readFileSync(path.join(TFLITE_WASM_DIR, name)) });
+    }
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,14 +36,17 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tfliteWasm()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        __TFLITE_WASM_PATH__: JSON.stringify(`/${TFLITE_WASM_PATH}`),
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
+          // The package's ESM entry imports a module it does not ship; its flat ESM build includes it.
+          '@tensorflow/tfjs-tflite': path.resolve(__dirname, 'node_modules/@tensorflow/tfjs-tflite/dist/tf-tflite.fesm.js'),
         }
       }
     };